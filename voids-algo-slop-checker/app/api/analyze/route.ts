@@ -1,209 +1,229 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import { checkRateLimit } from '@/lib/rateLimit';
-import { verifySessionToken } from '@/lib/session';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import {
+  EVENT_STREAM_CONTENT_TYPE,
+  formatServerSentEvent,
+  type AnalysisProgressEvent,
+} from '@/lib/analysisEvents';
+import {
+  analyzeAllPlatforms,
+  analyzePost,
+  analyzeThread,
+  getAnalysisFingerprint,
+  type AnalysisImage,
+  type AnalysisInput,
+} from '@/lib/analyzer';
+import type { AnalysisResult } from '@/lib/analysisResult';
+import { authenticateCaller, getCallerId } from '@/lib/auth';
+import { parseAnalyzeRequest } from '@/lib/analyzeRequest';
+import { prepareImage } from '@/lib/imagePipeline';
+import { validateMediaSelection } from '@/lib/media';
+import { getFittingPlatforms } from '@/lib/platformCheck';
+import { DEFAULT_PLATFORM, isPlatform, PLATFORM_KEYS, supportsLongPost } from '@/lib/platforms';
+import { validateDisplayName, validatePostText } from '@/lib/postValidation';
+import { checkCallerRateLimit, rateLimitExceededHeaders, rateLimitHeaders } from '@/lib/rateLimit';
+import { buildCacheKey, getCachedResult, setCachedResult } from '@/lib/resultCache';
+import { saveShareableResult } from '@/lib/share';
+import { MAX_THREAD_POSTS } from '@/lib/thread';
 
 export async function POST(request: NextRequest) {
   try {
-    let sessionCheck;
-    try {
-      sessionCheck = verifySessionToken(request);
-    } catch (error) {
-      console.error('Session verification failure:', error);
-      return NextResponse.json({ error: 'Session unavailable' }, { status: 503 });
+    const auth = await authenticateCaller(request);
+    if (!auth.valid) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
     }
 
-    if (!sessionCheck.valid) {
-      return NextResponse.json({ error: sessionCheck.error ?? 'Unauthorized request' }, { status: 401 });
+    // JSON bodies carry images as data URLs; multipart bodies as file parts.
+    const parsed = await parseAnalyzeRequest(request);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: parsed.status });
     }
 
-    const rateLimitResult = await checkRateLimit(request);
-
-    if (!rateLimitResult.success) {
+    const {
+      post,
+      posts,
+      displayName,
+      media,
+      platform = DEFAULT_PLATFORM,
+      longPost = false,
+      redactPrivateInfo = false,
+    } = parsed.body;
+    const isThread = posts !== undefined;
+    // `all` checks a single post against every platform at once.
+    const isAllPlatforms = platform === 'all';
+
+    if (!isAllPlatforms && !isPlatform(platform)) {
       return NextResponse.json(
-        {
-          error: 'Too many requests. Please wait before trying again.',
-          retryAfter: rateLimitResult.retryAfter
-        },
-        {
-          status: 429,
-          headers: {
-            'X-RateLimit-Limit': rateLimitResult.limit.toString(),
-            'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-            'X-RateLimit-Reset': new Date(rateLimitResult.reset).toISOString(),
-            'Retry-After': rateLimitResult.retryAfter.toString(),
-          }
-        }
+        { error: `platform must be one of ${[...PLATFORM_KEYS, 'all'].join(', ')}` },
+        { status: 400 },
       );
     }
 
-    const { post, displayName, image } = await request.json();
-
-    if (!post || typeof post !== 'string') {
-      return NextResponse.json({ error: 'Invalid post content' }, { status: 400 });
+    if (typeof longPost !== 'boolean') {
+      return NextResponse.json({ error: 'longPost must be a boolean' }, { status: 400 });
     }
 
-    if (post.length > 280) {
-      return NextResponse.json({ error: 'Post exceeds 280 character limit' }, { status: 400 });
+    if (typeof redactPrivateInfo !== 'boolean') {
+      return NextResponse.json({ error: 'redactPrivateInfo must be a boolean' }, { status: 400 });
     }
 
-    if (!displayName || typeof displayName !== 'string') {
-      return NextResponse.json({ error: 'Invalid display name' }, { status: 400 });
+    if (longPost && (isAllPlatforms || !supportsLongPost(platform))) {
+      return NextResponse.json({ error: 'Long posts are only available for X' }, { status: 400 });
     }
 
-    if (!displayName.trim()) {
-      return NextResponse.json({ error: 'Display name is required' }, { status: 400 });
+    if (isThread && isAllPlatforms) {
+      return NextResponse.json({ error: 'Threads are checked for one platform at a time' }, { status: 400 });
     }
 
-    if (displayName.length > 50) {
-      return NextResponse.json({ error: 'Display name exceeds 50 character limit' }, { status: 400 });
+    if (isThread) {
+      if (!Array.isArray(posts) || posts.length === 0) {
+        return NextResponse.json({ error: 'Invalid thread posts' }, { status: 400 });
+      }
+
+      if (posts.length > MAX_THREAD_POSTS) {
+        return NextResponse.json({ error: `Threads are limited to ${MAX_THREAD_POSTS} posts` }, { status: 400 });
+      }
+
+      for (const [index, threadPost] of posts.entries()) {
+        const postError = validatePostText(threadPost, `post ${index + 1}`, platform, longPost);
+        if (postError) {
+          return NextResponse.json({ error: postError }, { status: 400 });
+        }
+      }
+    } else {
+      const postError = validatePostText(post, 'post', platform, longPost);
+      if (postError) {
+        return NextResponse.json({ error: postError }, { status: 400 });
+      }
     }
 
-    if (image && typeof image !== 'object') {
-      return NextResponse.json({ error: 'Invalid image payload' }, { status: 400 });
+    const displayNameError = validateDisplayName(displayName);
+    if (displayNameError) {
+      return NextResponse.json({ error: displayNameError }, { status: 400 });
     }
 
-    if (image?.dataUrl && typeof image.dataUrl !== 'string') {
-      return NextResponse.json({ error: 'Invalid image data' }, { status: 400 });
+    const selectionError = validateMediaSelection(media.flatMap(({ image }) => (image ? [image.format] : [])));
+    if (selectionError) {
+      return NextResponse.json({ error: selectionError }, { status: 400 });
     }
 
-    if (image?.name && typeof image.name !== 'string') {
-      return NextResponse.json({ error: 'Invalid image name' }, { status: 400 });
+    // Cache hits are answered before the rate limit so repeats stay free.
+    const cacheKey =
+      isThread || isAllPlatforms
+        ? null
+        : buildCacheKey(
+            {
+              post,
+              displayName,
+              images: media.map(({ image }) => image?.buffer ?? null),
+              platform,
+              longPost,
+              redactPrivateInfo,
+            },
+            getAnalysisFingerprint({ post, displayName }),
+          );
+    if (cacheKey) {
+      const cached = await getCachedResult(cacheKey);
+      if (cached) {
+        const result = await withResultId(cached.result, post, displayName);
+        return NextResponse.json(
+          { ...result, cache: { hit: true, ttlSeconds: cached.ttlSeconds } },
+          { headers: { 'X-Cache': 'HIT', 'X-Cache-TTL': cached.ttlSeconds.toString() } },
+        );
+      }
     }
 
-    // Base64 inflates payload size ~33%, so 2MB binary ≈ 2.8M chars
-    if (image?.dataUrl && image.dataUrl.length > 2_900_000) {
-      return NextResponse.json({ error: 'Image data is too large. Please use an image under roughly 2MB.' }, { status: 400 });
+    // Threads are charged one unit per post and all-platform checks one per
+    // platform the post fits, since each of those is a model call.
+    const kind = media.some(({ image }) => image) ? 'image' : 'text';
+    const rateLimitResult = isThread
+      ? await checkCallerRateLimit(request, auth.caller, 'thread', posts.length)
+      : isAllPlatforms
+        ? await checkCallerRateLimit(request, auth.caller, kind, Math.max(getFittingPlatforms(post).length, 1))
+        : await checkCallerRateLimit(request, auth.caller, kind);
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Too many requests. Please wait before trying again.',
+          retryAfter: rateLimitResult.retryAfter
+        },
+        {
+          status: 429,
+          headers: rateLimitExceededHeaders(rateLimitResult),
+        }
+      );
     }
 
-    if (image?.dataUrl) {
-      const imageDataUrlPattern = /^data:image\/(png|jpeg|jpg|webp|gif|bmp);base64,/i;
-      if (!imageDataUrlPattern.test(image.dataUrl)) {
-        return NextResponse.json({ error: 'Unsupported image format. Provide a base64-encoded PNG, JPEG, WEBP, GIF, or BMP.' }, { status: 400 });
+    const callerId = getCallerId(request, auth.caller);
+
+    // Decoding is the expensive part of image checks, so it waits until the
+    // caller is within their limit. Only the cleaned, downscaled copies reach
+    // the model.
+    const analysisMedia: AnalysisImage[] = [];
+    for (const [index, { name, image }] of media.entries()) {
+      if (!image) {
+        analysisMedia.push({ name });
+        continue;
+      }
+
+      const prepared = await prepareImage(image.buffer, image.format);
+      if (!prepared.ok) {
+        return NextResponse.json(
+          { error: media.length > 1 ? `Image ${index + 1}: ${prepared.error}` : prepared.error },
+          { status: 400, headers: rateLimitHeaders(rateLimitResult) },
+        );
       }
+      analysisMedia.push({ name, dataUrls: prepared.dataUrls, metadata: prepared.metadata });
     }
 
-    const systemPrompt = `You are an X (Twitter) algorithm expert. Analyze the provided post information and rate the content based on these criteria. The text payload has this shape:
-{
-  "post": "<body of the post>",
-  "displayName": "<author's display name>",
-  "image": {
-    "name": "<original file name>",
-    "dataUrl": "<optional base64 data URL string or null>"
-  } | null
-}
+    // Single posts can be streamed as progress events; threads and
+    // all-platform checks always return JSON.
+    const wantsStream =
+      !isThread && !isAllPlatforms && Boolean(request.headers.get('accept')?.includes(EVENT_STREAM_CONTENT_TYPE));
+    if (wantsStream) {
+      return streamAnalysis(
+        {
+          post,
+          displayName,
+          media: analysisMedia,
+          platform,
+          longPost,
+          redactPrivateInfo,
+          callerId,
+          signal: request.signal,
+        },
+        cacheKey,
+        rateLimitHeaders(rateLimitResult),
+      );
+    }
 
-Apply the rules below considering the post body, the supplied display name, and any accompanying image:
-
-TEXT FORMATTING & READABILITY (negative if present):
-- All caps "shouting" text (except clear acronyms)
-- Length extremes where the copy is far too short or saturates the sigmoid length curve
-- Poor readability (rambling, incoherent, or unusually long words without structure)
-- Low token entropy (repeating the same words or emoji with little variation)
-- Excessive whitespace, odd spacing, or formatting spam
-- Any external link (penalize all URLs rather than rewarding them)
-
-OFFENSIVE OR SENSITIVE LANGUAGE (negative if present):
-- Offensive, toxic, or aggressive language within the post
-- Author display name that appears offensive (if no display name information is provided, default this to false)
-
-SPAM OR LOW-QUALITY SIGNALS (negative if present):
-- Spam or low-quality copy that would trip Grok spam filters
-- High Grok "slop" characteristics (engagement bait, scraped text, obvious farming)
-- Overly promotional or sales-focused content
-- Very short, low-effort filler posts
-
-SAFETY FILTERS (negative if present):
-- NSFW or soft NSFW references
-- Graphic gore or violence
-- Private information exposure (phone numbers, emails, addresses, sensitive IDs)
-
-STRUCTURAL METADATA (negative if excessive):
-- Too many hashtags or trending tags
-- Too many @mentions of other users
-- Heavy media/card footprint suggested by the text (multiple image/video references or link previews)
-
-POSITIVE FACTORS (decrease the slop score):
-- Niche, informative, or educational content
-- Thoughtful discussion or insights
-- Original ideas or perspectives
-- Encourages meaningful engagement (asks good questions, invites discussion)
-
-If an image is included, evaluate it for spammy overlays, offensive content, NSFW imagery, or engagement-baiting memes. If the image data cannot be interpreted, state that limitation in the summary and base the score on the available textual signals only.
-
-Provide your analysis in JSON format with EXACTLY this structure:
-{
-  "slopScore": number from 0-100 (0 = excellent, 100 = terrible algo slop),
-  "factors": {
-    "allCaps": boolean,
-    "spam": boolean,
-    "tooManyHashtags": boolean,
-    "tooManyMentions": boolean,
-    "offensive": boolean,
-    "offensiveDisplayName": boolean,
-    "hasLinks": boolean,
-    "nsfw": boolean,
-    "graphicViolence": boolean,
-    "promotional": boolean,
-    "privateInfo": boolean,
-    "excessiveWhitespace": boolean,
-    "veryShortLowEffort": boolean,
-    "lengthExtremes": boolean,
-    "readabilityIssues": boolean,
-    "lowTokenEntropy": boolean,
-    "slopAnnotation": boolean,
-    "mediaOrCardHeavy": boolean,
-    "informative": boolean,
-    "encouragesEngagement": boolean
-  },
-  "summary": "Brief explanation of the score",
-  "recommendations": ["Array of specific improvements tailored to this post"]
-}`;
-
-    type ContentItem = 
-      | { type: 'text'; text: string }
-      | { type: 'image_url'; image_url: { url: string } };
-
-    const userContent: ContentItem[] = [
-      {
-        type: 'text',
-        text: `Analyze this X post payload. Display Name: ${displayName}\nPost: ${post}`,
-      },
-    ];
-
-    if (image) {
-      userContent.push({
-        type: 'text',
-        text: `Image metadata: ${image.name || 'unnamed file'}.`,
-      });
-
-      if (image.dataUrl) {
-        userContent.push({
-          type: 'image_url',
-          image_url: {
-            url: image.dataUrl,
-          },
-        });
+    const outcome = isAllPlatforms
+      ? await analyzeAllPlatforms({ post, displayName, media: analysisMedia, redactPrivateInfo, callerId })
+      : isThread
+        ? await analyzeThread({ posts, displayName, media: analysisMedia, platform, longPost, redactPrivateInfo, callerId })
+        : await analyzePost({ post, displayName, media: analysisMedia, platform, longPost, redactPrivateInfo, callerId });
+
+    if (!outcome.ok) {
+      return NextResponse.json(
+        { error: outcome.error, code: outcome.code },
+        {
+          status: outcome.code === 'CAPACITY_EXHAUSTED' ? 503 : 502,
+          headers: rateLimitHeaders(rateLimitResult),
+        },
+      );
+    }
+
+    let result = outcome.result;
+    if (!isThread && !isAllPlatforms && 'slopScore' in result) {
+      if (cacheKey && !result.degraded) {
+        await setCachedResult(cacheKey, result);
       }
+      result = await withResultId(result, post, displayName);
     }
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-5-chat-latest',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userContent }
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.3,
+    return NextResponse.json(result, {
+      headers: { ...rateLimitHeaders(rateLimitResult), ...(cacheKey ? { 'X-Cache': 'MISS' } : {}) },
     });
-
-    const analysis = JSON.parse(completion.choices[0].message.content || '{}');
-
-    return NextResponse.json(analysis);
   } catch (error) {
     console.error('Analysis error:', error);
     return NextResponse.json(
@@ -212,3 +232,71 @@ Provide your analysis in JSON format with EXACTLY this structure:
     );
   }
 }
+
+// Single-post results carry an id the author can share them by; the cached
+// copy never does, so every response gets its own.
+const withResultId = async (result: AnalysisResult, post: string, displayName: string) => {
+  const resultId = await saveShareableResult({ post, displayName, result });
+  return resultId ? { ...result, resultId } : result;
+};
+
+const streamAnalysis = (input: AnalysisInput, cacheKey: string | null, extraHeaders: Record<string, string>) => {
+  const encoder = new TextEncoder();
+
+  // Set once the client has gone, after which nothing more is written.
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnalysisProgressEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        send({ type: 'validated' });
+        const outcome = await analyzePost(input, send);
+
+        if (outcome.ok) {
+          if (cacheKey && !outcome.result.degraded) {
+            await setCachedResult(cacheKey, outcome.result);
+          }
+          if (!closed) {
+            send({ type: 'result', result: await withResultId(outcome.result, input.post, input.displayName) });
+          }
+        } else {
+          send({ type: 'error', error: outcome.error, code: outcome.code });
+        }
+      } catch (error) {
+        console.error('Streaming analysis error:', error);
+        send({ type: 'error', error: 'Failed to analyze post' });
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client disconnecting.
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...extraHeaders,
+      'Content-Type': `${EVENT_STREAM_CONTENT_TYPE}; charset=utf-8`,
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      ...(cacheKey ? { 'X-Cache': 'MISS' } : {}),
+    },
+  });
+};
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzePost } from '@/lib/analyzer';
+import {
+  detectBatchFormat,
+  MAX_BATCH_FILE_BYTES,
+  parseBatchFile,
+  type BatchEvent,
+} from '@/lib/batch';
+import { authenticateCaller, getCallerId } from '@/lib/auth';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { DEFAULT_PLATFORM, isPlatform, PLATFORM_KEYS, supportsLongPost } from '@/lib/platforms';
+import { validateDisplayName, validatePostText } from '@/lib/postValidation';
+import { checkCallerBatchRateLimit, rateLimitExceededHeaders, rateLimitHeaders } from '@/lib/rateLimit';
+import { readBodyWithLimit } from '@/lib/requestBody';
+
+// Model calls in flight at once for a single batch.
+const BATCH_CONCURRENCY = 4;
+
+// The file limit plus room for the multipart boundaries and the text fields.
+const MAX_BATCH_BODY_BYTES = MAX_BATCH_FILE_BYTES + 64 * 1024;
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateCaller(request);
+    if (!auth.valid) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    // Counted while it arrives, so an oversized upload is never buffered whole.
+    const raw = await readBodyWithLimit(request, MAX_BATCH_BODY_BYTES);
+    if (!raw) {
+      return NextResponse.json({ error: 'Batch file must be 1MB or smaller' }, { status: 413 });
+    }
+
+    let formData: FormData;
+    try {
+      formData = await new Response(new Uint8Array(raw), {
+        headers: { 'Content-Type': request.headers.get('content-type') ?? '' },
+      }).formData();
+    } catch {
+      return NextResponse.json({ error: 'Expected a multipart upload with a "file" field' }, { status: 400 });
+    }
+
+    const file = formData.get('file');
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'Expected a multipart upload with a "file" field' }, { status: 400 });
+    }
+
+    // Every row is checked for the same platform.
+    const platform = formData.get('platform') ?? DEFAULT_PLATFORM;
+    if (!isPlatform(platform)) {
+      return NextResponse.json({ error: `platform must be one of ${PLATFORM_KEYS.join(', ')}` }, { status: 400 });
+    }
+
+    const longPost = formData.get('longPost') === 'true';
+    if (longPost && !supportsLongPost(platform)) {
+      return NextResponse.json({ error: 'Long posts are only available for X' }, { status: 400 });
+    }
+
+    const redactPrivateInfo = formData.get('redactPrivateInfo') === 'true';
+
+    if (file.size > MAX_BATCH_FILE_BYTES) {
+      return NextResponse.json({ error: 'Batch file must be 1MB or smaller' }, { status: 400 });
+    }
+
+    const format = detectBatchFormat(file.name, file.type);
+    if (!format) {
+      return NextResponse.json({ error: 'Unsupported file type. Upload a .csv or .jsonl file.' }, { status: 400 });
+    }
+
+    const parsed = parseBatchFile(await file.text(), format);
+    if (!parsed.valid) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { rows } = parsed;
+    const rateLimitResult = await checkCallerBatchRateLimit(request, auth.caller, rows.length);
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Batch quota exceeded. Please wait before uploading more rows.',
+          retryAfter: rateLimitResult.retryAfter
+        },
+        {
+          status: 429,
+          headers: rateLimitExceededHeaders(rateLimitResult),
+        }
+      );
+    }
+
+    const callerId = getCallerId(request, auth.caller);
+    const encoder = new TextEncoder();
+    // Set once the client has gone; remaining rows are skipped rather than
+    // paying for model calls nobody will read.
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: BatchEvent) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+          } catch {
+            closed = true;
+          }
+        };
+
+        let succeeded = 0;
+        send({ type: 'start', total: rows.length });
+
+        await mapWithConcurrency(rows, BATCH_CONCURRENCY, async ({ post, displayName }, index) => {
+          if (closed || request.signal.aborted) {
+            closed = true;
+            return;
+          }
+
+          const rowError = validatePostText(post, 'post', platform, longPost) ?? validateDisplayName(displayName);
+          if (rowError) {
+            send({ type: 'row', index, error: rowError });
+            return;
+          }
+
+          try {
+            // Rows stop with the client and never run the experiment's
+            // control prompt on top of the served one.
+            const outcome = await analyzePost({
+              post,
+              displayName,
+              platform,
+              longPost,
+              redactPrivateInfo,
+              callerId,
+              signal: request.signal,
+              skipExperimentControl: true,
+            });
+            if (outcome.ok) {
+              succeeded += 1;
+              send({ type: 'row', index, result: outcome.result });
+            } else {
+              send({ type: 'row', index, error: outcome.error });
+            }
+          } catch (error) {
+            console.error(`Batch row ${index + 1} failed:`, error);
+            send({ type: 'row', index, error: 'Failed to analyze post' });
+          }
+        });
+
+        if (closed) return;
+        send({ type: 'done', succeeded, failed: rows.length - succeeded });
+        try {
+          controller.close();
+        } catch {
+          // The client disconnected after the last row.
+        }
+      },
+      cancel() {
+        closed = true;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        ...rateLimitHeaders(rateLimitResult),
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-store',
+        'X-Batch-Format': format,
+      },
+    });
+  } catch (error) {
+    console.error('Batch analysis error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process batch' },
+      { status: 500 }
+    );
+  }
+}
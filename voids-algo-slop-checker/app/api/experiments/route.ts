@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminToken } from '@/lib/apiKeys';
+import { getExperimentReport, getPromptExperiment } from '@/lib/experiments';
+import { getActivePrompt, PROMPT_TEMPLATES } from '@/lib/prompts';
+
+const NAME_PATTERN = /^[\w.-]+$/;
+
+// Paired control/candidate outcomes for a prompt experiment: the running one
+// by default, or an earlier one by `?name=`.
+export async function GET(request: NextRequest) {
+  if (!verifyAdminToken(request)) {
+    return NextResponse.json({ error: 'Unauthorized request' }, { status: 401 });
+  }
+
+  const experiment = getPromptExperiment();
+  const name = request.nextUrl.searchParams.get('name') ?? experiment?.name;
+  const prompts = {
+    active: getActivePrompt().id,
+    available: Object.values(PROMPT_TEMPLATES).map(({ id, description }) => ({ id, description })),
+  };
+
+  if (!name) {
+    return NextResponse.json({ prompts, experiment: null, report: null });
+  }
+
+  if (!NAME_PATTERN.test(name)) {
+    return NextResponse.json({ error: 'Invalid experiment name' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({
+      prompts,
+      experiment: experiment
+        ? {
+            name: experiment.name,
+            control: experiment.control.id,
+            candidate: experiment.candidate.id,
+            percent: experiment.percent,
+          }
+        : null,
+      report: await getExperimentReport(name),
+    });
+  } catch (error) {
+    console.error('Experiment report error:', error);
+    return NextResponse.json({ error: 'Failed to load experiment results' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeApiKey, verifyAdminToken } from '@/lib/apiKeys';
+import { redis } from '@/lib/redis';
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!verifyAdminToken(request)) {
+    return NextResponse.json({ error: 'Unauthorized request' }, { status: 401 });
+  }
+
+  if (!redis) {
+    return NextResponse.json({ error: 'API keys are not available' }, { status: 503 });
+  }
+
+  try {
+    const revoked = await revokeApiKey((await params).id);
+    if (!revoked) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(revoked);
+  } catch (error) {
+    console.error('API key revocation error:', error);
+    return NextResponse.json({ error: 'Failed to revoke API key' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createApiKey,
+  listApiKeys,
+  validateApiKeyLabel,
+  validateDailyQuota,
+  verifyAdminToken,
+} from '@/lib/apiKeys';
+import { redis } from '@/lib/redis';
+
+const rejectUnlessAdmin = (request: NextRequest) => {
+  if (!verifyAdminToken(request)) {
+    return NextResponse.json({ error: 'Unauthorized request' }, { status: 401 });
+  }
+
+  if (!redis) {
+    return NextResponse.json({ error: 'API keys are not available' }, { status: 503 });
+  }
+
+  return null;
+};
+
+export async function GET(request: NextRequest) {
+  const rejection = rejectUnlessAdmin(request);
+  if (rejection) return rejection;
+
+  try {
+    return NextResponse.json({ keys: await listApiKeys() });
+  } catch (error) {
+    console.error('API key listing error:', error);
+    return NextResponse.json({ error: 'Failed to list API keys' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const rejection = rejectUnlessAdmin(request);
+  if (rejection) return rejection;
+
+  try {
+    let body: { label: string; dailyQuota?: number };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+
+    const { label, dailyQuota } = body ?? {};
+
+    const inputError = validateApiKeyLabel(label) ?? validateDailyQuota(dailyQuota);
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const created = await createApiKey({ label, dailyQuota });
+    if (!created) {
+      return NextResponse.json({ error: 'API keys are not available' }, { status: 503 });
+    }
+
+    // The plaintext key is only ever returned here.
+    return NextResponse.json({ key: created.key, ...created.record }, { status: 201 });
+  } catch (error) {
+    console.error('API key creation error:', error);
+    return NextResponse.json({ error: 'Failed to create API key' }, { status: 500 });
+  }
+}
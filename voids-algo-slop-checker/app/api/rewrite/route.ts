@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAnalysisResult } from '@/lib/analysisSchema';
+import { authenticateCaller, getCallerId } from '@/lib/auth';
+import { validateDisplayName, validatePostText } from '@/lib/postValidation';
+import { checkCallerRateLimit, rateLimitExceededHeaders, rateLimitHeaders } from '@/lib/rateLimit';
+import { generateRewrites, REWRITE_MODEL_CALLS } from '@/lib/rewriter';
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateCaller(request);
+    if (!auth.valid) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    let body: { post?: unknown; displayName?: unknown; analysis?: unknown; redactPrivateInfo?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+
+    const { post, displayName, analysis, redactPrivateInfo = false } = body ?? {};
+
+    const originalAnalysis = parseAnalysisResult(analysis);
+    if (!originalAnalysis) {
+      return NextResponse.json({ error: 'Invalid analysis result' }, { status: 400 });
+    }
+
+    // Drafts are written for the platform the original was checked for.
+    const inputError = validatePostText(post, 'post', originalAnalysis.platform, originalAnalysis.longPost) ?? validateDisplayName(displayName);
+    if (inputError) {
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    if (typeof redactPrivateInfo !== 'boolean') {
+      return NextResponse.json({ error: 'redactPrivateInfo must be a boolean' }, { status: 400 });
+    }
+
+    // Charged, once the request is valid, for every model call the rewrite
+    // may make rather than once per request.
+    const rateLimitResult = await checkCallerRateLimit(request, auth.caller, 'rewrite', REWRITE_MODEL_CALLS);
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Too many requests. Please wait before trying again.',
+          retryAfter: rateLimitResult.retryAfter
+        },
+        {
+          status: 429,
+          headers: rateLimitExceededHeaders(rateLimitResult),
+        }
+      );
+    }
+
+    const outcome = await generateRewrites({
+      post: post as string,
+      displayName: displayName as string,
+      analysis: originalAnalysis,
+      redactPrivateInfo,
+      callerId: getCallerId(request, auth.caller),
+    });
+
+    if (!outcome.ok) {
+      const status = outcome.code === 'INVALID_MODEL_OUTPUT' ? 502 : 503;
+      return NextResponse.json(
+        { error: outcome.error, code: outcome.code },
+        { status, headers: rateLimitHeaders(rateLimitResult) },
+      );
+    }
+
+    return NextResponse.json(
+      { originalScore: outcome.originalScore, candidates: outcome.candidates },
+      { headers: rateLimitHeaders(rateLimitResult) },
+    );
+  } catch (error) {
+    console.error('Rewrite error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate rewrites' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateCaller } from '@/lib/auth';
+import { checkCallerRateLimit, rateLimitExceededHeaders, rateLimitHeaders } from '@/lib/rateLimit';
+import { createShare } from '@/lib/share';
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateCaller(request);
+    if (!auth.valid) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    let body: { resultId?: unknown; redact?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+
+    const { resultId, redact } = body ?? {};
+    if (typeof resultId !== 'string') {
+      return NextResponse.json({ error: 'resultId must be a string' }, { status: 400 });
+    }
+
+    const rateLimitResult = await checkCallerRateLimit(request, auth.caller, 'share');
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Too many share links. Please wait before trying again.',
+          retryAfter: rateLimitResult.retryAfter
+        },
+        {
+          status: 429,
+          headers: rateLimitExceededHeaders(rateLimitResult),
+        }
+      );
+    }
+
+    const outcome = await createShare({ resultId, redact: redact === true });
+    if (!outcome.ok) {
+      return NextResponse.json(
+        { error: outcome.error, code: outcome.code },
+        {
+          status: outcome.code === 'RESULT_NOT_FOUND' ? 404 : 503,
+          headers: rateLimitHeaders(rateLimitResult),
+        }
+      );
+    }
+
+    const { shared } = outcome;
+    return NextResponse.json(
+      {
+        id: shared.id,
+        url: new URL(`/s/${shared.id}`, request.nextUrl.origin).toString(),
+        expiresAt: shared.expiresAt,
+      },
+      { headers: rateLimitHeaders(rateLimitResult) },
+    );
+  } catch (error) {
+    console.error('Share error:', error);
+    return NextResponse.json(
+      { error: 'Failed to share result' },
+      { status: 500 }
+    );
+  }
+}
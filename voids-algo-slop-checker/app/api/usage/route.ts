@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminToken } from '@/lib/apiKeys';
+import { getUsageReport } from '@/lib/usage';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Token usage and estimated spend for one UTC day (today by default), its
+// month, each caller, and the current budget state.
+export async function GET(request: NextRequest) {
+  if (!verifyAdminToken(request)) {
+    return NextResponse.json({ error: 'Unauthorized request' }, { status: 401 });
+  }
+
+  const day = request.nextUrl.searchParams.get('day') ?? new Date().toISOString().slice(0, 10);
+  if (!DAY_PATTERN.test(day)) {
+    return NextResponse.json({ error: 'day must be formatted as YYYY-MM-DD' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await getUsageReport(day));
+  } catch (error) {
+    console.error('Usage report error:', error);
+    return NextResponse.json({ error: 'Failed to load usage' }, { status: 500 });
+  }
+}
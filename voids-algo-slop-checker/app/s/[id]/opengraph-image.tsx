@@ -0,0 +1,129 @@
+import { ImageResponse } from 'next/og';
+import { getScoreHex, getTopFactors } from '@/components/analysisDisplay';
+import { getShare } from '@/lib/share';
+
+export const alt = 'Slop score and top factors';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+
+const GAUGE_RADIUS = 170;
+const GAUGE_STROKE = 34;
+const GAUGE_WIDTH = GAUGE_RADIUS * 2 + GAUGE_STROKE;
+const GAUGE_HEIGHT = GAUGE_RADIUS + GAUGE_STROKE;
+const GAUGE_LENGTH = Math.PI * GAUGE_RADIUS;
+const TOP_FACTOR_COUNT = 4;
+
+// Half-circle arc from the left end to the right end of the gauge.
+const GAUGE_PATH = `M ${GAUGE_STROKE / 2} ${GAUGE_RADIUS + GAUGE_STROKE / 2} A ${GAUGE_RADIUS} ${GAUGE_RADIUS} 0 0 1 ${
+  GAUGE_WIDTH - GAUGE_STROKE / 2
+} ${GAUGE_RADIUS + GAUGE_STROKE / 2}`;
+
+export default async function Image({ params }: { params: Promise<{ id: string }> }) {
+  const shared = await getShare((await params).id);
+
+  if (!shared) {
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            width: '100%',
+            height: '100%',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            background: '#020617',
+            color: '#c4b5fd',
+            fontSize: 56,
+          }}
+        >
+          Voids Slop Checker
+        </div>
+      ),
+      size,
+    );
+  }
+
+  const { slopScore, factors } = shared.result;
+  const scoreColor = getScoreHex(slopScore);
+  const topFactors = getTopFactors(factors, TOP_FACTOR_COUNT);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          padding: 64,
+          background: 'linear-gradient(135deg, #020617 0%, #3b0764 50%, #020617 100%)',
+          color: '#f3f4f6',
+        }}
+      >
+        <div style={{ display: 'flex', fontSize: 40, fontWeight: 700, color: '#c4b5fd' }}>Voids Slop Checker</div>
+        <div style={{ display: 'flex', fontSize: 26, color: '#9ca3af', marginTop: 8 }}>
+          {`Shared by ${shared.displayName}`}
+        </div>
+
+        <div style={{ display: 'flex', flex: 1, alignItems: 'center', marginTop: 32 }}>
+          <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', width: GAUGE_WIDTH }}>
+            <div style={{ display: 'flex', position: 'relative', width: GAUGE_WIDTH, height: GAUGE_HEIGHT }}>
+              <svg width={GAUGE_WIDTH} height={GAUGE_HEIGHT} viewBox={`0 0 ${GAUGE_WIDTH} ${GAUGE_HEIGHT}`}>
+                <path d={GAUGE_PATH} fill="none" stroke="#1e293b" strokeWidth={GAUGE_STROKE} strokeLinecap="round" />
+                {slopScore > 0 && (
+                  <path
+                    d={GAUGE_PATH}
+                    fill="none"
+                    stroke={scoreColor}
+                    strokeWidth={GAUGE_STROKE}
+                    strokeLinecap="round"
+                    strokeDasharray={`${(GAUGE_LENGTH * slopScore) / 100} ${GAUGE_LENGTH}`}
+                  />
+                )}
+              </svg>
+              <div
+                style={{
+                  position: 'absolute',
+                  left: 0,
+                  right: 0,
+                  bottom: 0,
+                  display: 'flex',
+                  justifyContent: 'center',
+                  fontSize: 120,
+                  fontWeight: 700,
+                  color: scoreColor,
+                  lineHeight: 1,
+                }}
+              >
+                {String(slopScore)}
+              </div>
+            </div>
+            <div style={{ display: 'flex', fontSize: 28, color: '#9ca3af', marginTop: 16 }}>Algo Slop Score</div>
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', flex: 1, marginLeft: 64 }}>
+            <div style={{ display: 'flex', fontSize: 30, color: '#c4b5fd', marginBottom: 20 }}>
+              {topFactors.length ? 'Top factors' : 'No notable signals flagged'}
+            </div>
+            {topFactors.map(({ key, label, sentiment }) => (
+              <div key={key} style={{ display: 'flex', alignItems: 'center', fontSize: 32, marginBottom: 16 }}>
+                <div
+                  style={{
+                    display: 'flex',
+                    width: 18,
+                    height: 18,
+                    borderRadius: 9,
+                    marginRight: 18,
+                    background: sentiment === 'positive' ? '#4ade80' : '#f87171',
+                  }}
+                />
+                {label}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    ),
+    size,
+  );
+}
@@ -0,0 +1,155 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { cache } from 'react';
+import { CheckCircle, EyeOff, Sparkles, TrendingUp, XCircle } from 'lucide-react';
+import {
+  FACTOR_DETAILS,
+  getScoreBackground,
+  getScoreBarColor,
+  getScoreColor,
+  getTopFactors,
+} from '@/components/analysisDisplay';
+import { DEFAULT_PLATFORM, PLATFORMS } from '@/lib/platforms';
+import { getShare } from '@/lib/share';
+
+interface SharePageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Metadata and the page both need the record; fetch it once per request.
+const loadShare = cache(getShare);
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const shared = await loadShare((await params).id);
+  if (!shared) {
+    return { title: 'Result not found | Voids Slop Checker' };
+  }
+
+  const topLabels = getTopFactors(shared.result.factors, 3).map(({ label }) => label);
+  const title = `Slop score ${shared.result.slopScore}/100 | Voids Slop Checker`;
+  const description = topLabels.length ? `Flagged: ${topLabels.join(', ')}.` : shared.result.summary;
+
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: 'article' },
+    twitter: { card: 'summary_large_image', title, description },
+    robots: { index: false },
+  };
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const shared = await loadShare((await params).id);
+  if (!shared) {
+    notFound();
+  }
+
+  const { result } = shared;
+  const activeFactors = FACTOR_DETAILS.filter(({ key }) => result.factors[key]);
+  const expiresOn = new Date(shared.expiresAt).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-purple-950 to-slate-950">
+      <div className="max-w-2xl mx-auto p-4 sm:p-6 pt-8 sm:pt-12">
+        <div className="bg-slate-900/80 backdrop-blur-xl rounded-2xl shadow-2xl border border-purple-500/20 p-4 sm:p-8 space-y-4 sm:space-y-6">
+          <div className="text-center">
+            <h1 className="text-2xl sm:text-3xl font-bold bg-gradient-to-r from-purple-400 via-pink-400 to-blue-400 bg-clip-text text-transparent">
+              🌀 Voids Slop Checker
+            </h1>
+            <p className="mt-2 text-gray-400 text-sm">
+              Shared result for {shared.displayName}
+              {result.platform && result.platform !== DEFAULT_PLATFORM && ` on ${PLATFORMS[result.platform].label}`}
+            </p>
+          </div>
+
+          <div className="bg-slate-800/50 border border-purple-500/20 rounded-lg p-4">
+            {shared.post === null ? (
+              <p className="flex items-center gap-2 text-sm text-gray-400">
+                <EyeOff className="h-4 w-4 flex-shrink-0" />
+                The author chose to hide the post text.
+              </p>
+            ) : (
+              <p className="text-sm sm:text-base text-gray-200 whitespace-pre-wrap break-words">{shared.post}</p>
+            )}
+          </div>
+
+          <div className={`p-4 sm:p-6 rounded-lg border ${getScoreBackground(result.slopScore)}`}>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg sm:text-xl font-semibold text-gray-100">Algo Slop Score</h2>
+              <div className={`text-4xl sm:text-5xl font-bold ${getScoreColor(result.slopScore)}`}>
+                {result.slopScore}
+              </div>
+            </div>
+            <div className="w-full bg-slate-800/50 rounded-full h-3">
+              <div
+                className={`h-3 rounded-full ${getScoreBarColor(result.slopScore)}`}
+                style={{ width: `${result.slopScore}%` }}
+              />
+            </div>
+            <p className="mt-3 sm:mt-4 text-gray-300 text-sm sm:text-base">{result.summary}</p>
+          </div>
+
+          <div className="bg-slate-800/30 border border-purple-500/20 rounded-lg p-4 sm:p-6">
+            <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 text-purple-300">Factors Detected</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3">
+              {activeFactors.length === 0 && (
+                <div className="flex items-center gap-2 text-slate-300 text-sm sm:text-base">
+                  <Sparkles className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
+                  <span>No notable signals flagged.</span>
+                </div>
+              )}
+              {activeFactors.map(({ key, label, sentiment }) => {
+                const IconComponent = sentiment === 'positive' ? CheckCircle : XCircle;
+                const colorClass = sentiment === 'positive' ? 'text-green-400' : 'text-red-400';
+
+                return (
+                  <div key={key} className={`flex items-center gap-2 text-sm sm:text-base ${colorClass}`}>
+                    <IconComponent className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
+                    <span>{label}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {result.recommendations.length > 0 && (
+            <div className="bg-blue-950/30 border border-blue-500/30 rounded-lg p-4 sm:p-6">
+              <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 flex items-center gap-2 text-blue-300">
+                <TrendingUp className="h-4 w-4 sm:h-5 sm:w-5" />
+                Recommendations
+              </h3>
+              <ul className="space-y-2">
+                {result.recommendations.map((rec, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm sm:text-base">
+                    <span className="text-blue-400 mt-0.5 sm:mt-1">•</span>
+                    <span className="text-gray-300">{rec}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row items-center justify-between gap-3 text-xs sm:text-sm">
+            <span className="text-gray-500">
+              This link expires on {expiresOn}.
+              {result.model && result.promptVersion
+                ? ` Scored by ${result.model} with prompt ${result.promptVersion}.`
+                : ''}
+            </span>
+            <Link
+              href="/"
+              className="bg-gradient-to-r from-purple-600 to-blue-600 text-white py-2 px-4 rounded-lg font-semibold hover:from-purple-700 hover:to-blue-700"
+            >
+              Check your own post
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+'use client';
+
+import { ChangeEvent, useRef, useState } from 'react';
+import { AlertCircle, Download, Loader2, Upload } from 'lucide-react';
+import { parseAnalysisResult } from '@/lib/analysisSchema';
+import {
+  detectBatchFormat,
+  exportBatchResults,
+  MAX_BATCH_FILE_BYTES,
+  MAX_BATCH_ROWS,
+  parseBatchFile,
+  type BatchFormat,
+  type BatchRow,
+  type BatchRowOutcome,
+} from '@/lib/batch';
+import type { Platform } from '@/lib/platforms';
+import { SESSION_HEADER_NAME } from '@/lib/sessionConstants';
+import { getScoreColor } from './analysisDisplay';
+
+interface BatchAnalyzerProps {
+  platform: Platform;
+  longPost: boolean;
+  redactPrivateInfo: boolean;
+  ensureSessionToken: () => Promise<string | null>;
+  refreshSessionToken: () => Promise<string | null>;
+}
+
+const toRecord = (value: unknown): Record<string, unknown> | null =>
+  typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : null;
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function BatchAnalyzer({
+  platform,
+  longPost,
+  redactPrivateInfo,
+  ensureSessionToken,
+  refreshSessionToken,
+}: BatchAnalyzerProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [outcomes, setOutcomes] = useState<BatchRowOutcome[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const resetFile = () => {
+    setFile(null);
+    setRows([]);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    setError('');
+    setOutcomes([]);
+
+    const selected = event.target.files?.[0];
+    if (!selected) {
+      resetFile();
+      return;
+    }
+
+    if (selected.size > MAX_BATCH_FILE_BYTES) {
+      setError('Batch file must be 1MB or smaller.');
+      resetFile();
+      return;
+    }
+
+    const format = detectBatchFormat(selected.name, selected.type);
+    if (!format) {
+      setError('Upload a .csv or .jsonl file.');
+      resetFile();
+      return;
+    }
+
+    const parsed = parseBatchFile(await selected.text(), format);
+    if (!parsed.valid) {
+      setError(parsed.error);
+      resetFile();
+      return;
+    }
+
+    setFile(selected);
+    setRows(parsed.rows);
+  };
+
+  const handleEvent = (line: string) => {
+    const event = toRecord(JSON.parse(line));
+    if (event?.type !== 'row' || typeof event.index !== 'number') return;
+
+    const index = event.index;
+    const row = rows[index];
+    if (!row) return;
+
+    const result = parseAnalysisResult(event.result);
+    const outcome: BatchRowOutcome = result
+      ? { ...row, index, result }
+      : { ...row, index, error: typeof event.error === 'string' ? event.error : 'Invalid result' };
+
+    setOutcomes((previous) => [...previous.filter((item) => item.index !== index), outcome]);
+  };
+
+  const runBatch = async () => {
+    if (!file) return;
+
+    setError('');
+    setOutcomes([]);
+
+    const token = await ensureSessionToken();
+    if (!token) return;
+
+    setRunning(true);
+    try {
+      const body = new FormData();
+      body.append('file', file);
+      body.append('platform', platform);
+      body.append('longPost', String(longPost));
+      body.append('redactPrivateInfo', String(redactPrivateInfo));
+
+      const response = await fetch('/api/batch', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { [SESSION_HEADER_NAME]: token },
+        body,
+      });
+
+      if (!response.ok || !response.body) {
+        const payload = toRecord(await response.json().catch(() => null));
+
+        if (response.status === 401) {
+          await refreshSessionToken();
+          setError('Your session expired. Please try again.');
+          return;
+        }
+
+        if (response.status === 429) {
+          const retryValue = payload?.['retryAfter'];
+          const retryAfter = typeof retryValue === 'number' ? retryValue : 60;
+          setError(`Batch quota exceeded. Please wait ${retryAfter} seconds before trying again.`);
+          return;
+        }
+
+        const errorMessage = payload?.['error'];
+        setError(typeof errorMessage === 'string' ? errorMessage : 'Batch analysis failed.');
+        return;
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+        lines.filter(Boolean).forEach(handleEvent);
+      }
+
+      if (buffered.trim()) {
+        handleEvent(buffered);
+      }
+    } catch (err) {
+      console.error(err);
+      setError('Batch analysis was interrupted. Completed rows can still be downloaded.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const download = (format: BatchFormat) => {
+    const baseName = file?.name.replace(/\.[^.]+$/, '') || 'batch';
+    downloadFile(
+      exportBatchResults(outcomes, format),
+      `${baseName}-scored.${format}`,
+      format === 'csv' ? 'text/csv' : 'application/x-ndjson',
+    );
+  };
+
+  const completed = outcomes.length;
+  const progress = rows.length ? Math.round((completed / rows.length) * 100) : 0;
+  const sortedOutcomes = [...outcomes].sort((a, b) => a.index - b.index);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="batch-file" className="block text-sm font-medium text-purple-300 mb-2">
+          Drafts File
+        </label>
+        <input
+          id="batch-file"
+          type="file"
+          accept=".csv,.jsonl,.ndjson,text/csv,application/x-ndjson"
+          onChange={handleFileChange}
+          ref={fileInputRef}
+          disabled={running}
+          className="text-sm text-gray-300 file:mr-3 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-purple-600/80 file:text-white hover:file:bg-purple-600"
+        />
+        <p className="mt-2 text-xs sm:text-sm text-gray-400">
+          CSV with <code>post</code> and <code>displayName</code> columns, or JSONL with one{' '}
+          <code>{'{ "post", "displayName" }'}</code> object per line. Up to {MAX_BATCH_ROWS} rows.
+        </p>
+        {file && (
+          <p className="mt-1 text-xs sm:text-sm text-purple-300">
+            {file.name}: {rows.length} row{rows.length === 1 ? '' : 's'} ready
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-950/50 border border-red-500/30 text-red-400 px-3 sm:px-4 py-2 sm:py-3 rounded-lg flex items-center gap-2 text-sm sm:text-base">
+          <AlertCircle className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <button
+        onClick={runBatch}
+        disabled={running || !file}
+        className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-2.5 sm:py-3 px-4 rounded-lg font-semibold hover:from-purple-700 hover:to-blue-700 disabled:from-gray-700 disabled:to-gray-700 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2 shadow-lg text-sm sm:text-base"
+      >
+        {running ? (
+          <>
+            <Loader2 className="h-4 w-4 sm:h-5 sm:w-5 animate-spin" />
+            Analyzing {completed}/{rows.length}...
+          </>
+        ) : (
+          <>
+            <Upload className="h-4 w-4 sm:h-5 sm:w-5" />
+            Analyze Batch
+          </>
+        )}
+      </button>
+
+      {(running || outcomes.length > 0) && (
+        <div className="bg-slate-800/30 border border-purple-500/20 rounded-lg p-4 sm:p-6 space-y-4">
+          <div>
+            <div className="flex justify-between text-xs sm:text-sm text-purple-300 mb-2">
+              <span>Progress</span>
+              <span>
+                {completed}/{rows.length}
+              </span>
+            </div>
+            <div className="w-full bg-slate-800/50 rounded-full h-2">
+              <div
+                className="h-2 rounded-full bg-gradient-to-r from-purple-500 to-blue-500 transition-all duration-300"
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto">
+            <table className="w-full text-xs sm:text-sm">
+              <thead className="text-left text-gray-400">
+                <tr>
+                  <th className="py-1 pr-2">#</th>
+                  <th className="py-1 pr-2">Post</th>
+                  <th className="py-1 text-right">Score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedOutcomes.map(({ index, post, result, error: rowError }) => (
+                  <tr key={index} className="border-t border-purple-500/10">
+                    <td className="py-1 pr-2 text-gray-400">{index + 1}</td>
+                    <td className="py-1 pr-2 text-gray-300 truncate max-w-[16rem]">{post}</td>
+                    <td className="py-1 text-right">
+                      {result ? (
+                        <span className={`font-semibold ${getScoreColor(result.slopScore)}`}>{result.slopScore}</span>
+                      ) : (
+                        <span className="text-red-400" title={rowError}>
+                          Error
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            {(['csv', 'jsonl'] as const).map((format) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => download(format)}
+                disabled={outcomes.length === 0}
+                className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg border border-purple-500/40 text-purple-200 hover:bg-purple-500/10 disabled:opacity-40 disabled:cursor-not-allowed text-sm"
+              >
+                <Download className="h-4 w-4" />
+                Download {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { ArrowRight, CheckCircle, X, XCircle } from 'lucide-react';
+import { compareResults, type HistoryEntry } from '@/lib/history';
+import { FACTOR_DETAILS, getScoreBackground, getScoreColor } from './analysisDisplay';
+
+interface CompareViewProps {
+  before: HistoryEntry;
+  after: HistoryEntry;
+  onClose: () => void;
+}
+
+const labelFor = (key: string) => FACTOR_DETAILS.find((detail) => detail.key === key)?.label ?? key;
+
+function VersionColumn({ title, entry }: { title: string; entry: HistoryEntry }) {
+  const factors = FACTOR_DETAILS.filter(({ key }) => entry.result.factors[key]);
+
+  return (
+    <div className={`flex-1 min-w-0 p-4 rounded-lg border ${getScoreBackground(entry.result.slopScore)}`}>
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm font-semibold text-gray-300">{title}</span>
+        <span className={`text-3xl font-bold ${getScoreColor(entry.result.slopScore)}`}>{entry.result.slopScore}</span>
+      </div>
+      {entry.thumbnail && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={entry.thumbnail} alt="" className="mb-3 w-16 h-16 rounded object-cover" />
+      )}
+      <p className="text-sm text-gray-200 whitespace-pre-wrap break-words">{entry.post}</p>
+      <ul className="mt-3 space-y-1">
+        {factors.map(({ key, label, sentiment }) => {
+          const IconComponent = sentiment === 'positive' ? CheckCircle : XCircle;
+          const colorClass = sentiment === 'positive' ? 'text-green-400' : 'text-red-400';
+          return (
+            <li key={key} className={`flex items-center gap-2 text-xs ${colorClass}`}>
+              <IconComponent className="h-3.5 w-3.5 flex-shrink-0" />
+              {label}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default function CompareView({ before, after, onClose }: CompareViewProps) {
+  const { scoreChange, added, cleared } = compareResults(before.result, after.result);
+  const changeColor = scoreChange < 0 ? 'text-green-400' : scoreChange > 0 ? 'text-red-400' : 'text-gray-300';
+
+  return (
+    <div className="mt-6 sm:mt-8 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg sm:text-xl font-semibold text-gray-100">Compare Versions</h2>
+        <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-200" aria-label="Close comparison">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="bg-slate-800/30 border border-purple-500/20 rounded-lg p-4 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+        <span className="flex items-center gap-2 text-gray-300">
+          Score {before.result.slopScore}
+          <ArrowRight className="h-4 w-4" />
+          {after.result.slopScore}
+          <span className={`font-bold ${changeColor}`}>
+            ({scoreChange > 0 ? '+' : ''}
+            {scoreChange})
+          </span>
+        </span>
+        {added.length > 0 && (
+          <span className="text-gray-300">
+            Added: <span className="text-yellow-300">{added.map(labelFor).join(', ')}</span>
+          </span>
+        )}
+        {cleared.length > 0 && (
+          <span className="text-gray-300">
+            Cleared: <span className="text-green-300">{cleared.map(labelFor).join(', ')}</span>
+          </span>
+        )}
+        {added.length === 0 && cleared.length === 0 && <span className="text-gray-400">Same factors flagged.</span>}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <VersionColumn title="Earlier" entry={before} />
+        <VersionColumn title="Later" entry={after} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import type { FactorEvidence } from '@/lib/analysisResult';
+import { FACTOR_REGISTRY, type FactorKey } from '@/lib/factors';
+import { getEvidenceColors } from './analysisDisplay';
+
+interface EvidenceHighlightsProps {
+  post: string;
+  evidence: FactorEvidence;
+  // Emphasized factor; the other highlights fade while it is set.
+  activeFactor: FactorKey | null;
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  factors: FactorKey[];
+}
+
+// Splits the post at every span boundary so overlapping spans become
+// consecutive segments, each listing the factors that cover it.
+const buildSegments = (post: string, evidence: FactorEvidence): Segment[] => {
+  const entries = Object.entries(evidence) as Array<[FactorKey, NonNullable<FactorEvidence[FactorKey]>]>;
+  const boundaries = new Set([0, post.length]);
+  for (const [, spans] of entries) {
+    for (const { start, end } of spans) {
+      boundaries.add(Math.min(start, post.length));
+      boundaries.add(Math.min(end, post.length));
+    }
+  }
+
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+  return points.slice(0, -1).map((start, index) => {
+    const end = points[index + 1];
+    const factors = entries
+      .filter(([, spans]) => spans.some((span) => span.start <= start && span.end >= end))
+      .map(([key]) => key);
+    return { start, end, factors };
+  });
+};
+
+export default function EvidenceHighlights({ post, evidence, activeFactor }: EvidenceHighlightsProps) {
+  const colors = getEvidenceColors(evidence);
+
+  return (
+    <p className="text-sm sm:text-base text-gray-200 whitespace-pre-wrap break-words leading-relaxed">
+      {buildSegments(post, evidence).map(({ start, end, factors }) => {
+        const text = post.slice(start, end);
+        if (factors.length === 0) {
+          return <span key={start}>{text}</span>;
+        }
+
+        const faded = activeFactor !== null && !factors.includes(activeFactor);
+        return (
+          <mark
+            key={start}
+            data-evidence={factors.join(' ')}
+            className={`group relative rounded-sm border-b-2 text-gray-100 transition-opacity ${colors[factors[0]]} ${
+              faded ? 'opacity-40' : ''
+            } ${activeFactor && !faded ? 'ring-2 ring-white/60' : ''}`}
+          >
+            {text}
+            <span
+              role="tooltip"
+              className="pointer-events-none absolute bottom-full left-0 z-10 mb-1 hidden whitespace-nowrap rounded-md border border-purple-500/30 bg-slate-950 px-2 py-1 text-xs text-gray-100 shadow-lg group-hover:block"
+            >
+              {factors.map((key) => FACTOR_REGISTRY[key].label).join(', ')}
+            </span>
+          </mark>
+        );
+      })}
+    </p>
+  );
+}
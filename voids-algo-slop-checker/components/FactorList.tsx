@@ -0,0 +1,102 @@
+'use client';
+
+import { CheckCircle, CircleDashed, Sparkles, XCircle } from 'lucide-react';
+import type { AnalysisResult } from '@/lib/analysisResult';
+import type { FactorKey } from '@/lib/factors';
+import { getEvidenceColors, groupFactorsByCertainty, type FactorCertainty } from './analysisDisplay';
+
+interface FactorListProps {
+  result: AnalysisResult;
+  // When set, factors with evidence become buttons that reveal their spans.
+  onFocusEvidence?: (key: FactorKey) => void;
+  activeEvidence: FactorKey | null;
+}
+
+const SECTION_LABELS: Record<FactorCertainty, string> = {
+  definite: 'Definitely',
+  borderline: 'Borderline',
+};
+
+export default function FactorList({ result, onFocusEvidence, activeEvidence }: FactorListProps) {
+  const groups = groupFactorsByCertainty(result.factors, result.confidence);
+  const evidenceColors = onFocusEvidence ? getEvidenceColors(result.evidence) : {};
+  const sections = (['definite', 'borderline'] as const).filter((certainty) => groups[certainty].length > 0);
+
+  if (sections.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-slate-300 text-sm sm:text-base">
+        <Sparkles className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
+        <span>No notable signals flagged.</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {sections.map((certainty) => (
+        <div key={certainty}>
+          {result.confidence && (
+            <h4 className="text-xs uppercase tracking-wide text-gray-400 mb-2">{SECTION_LABELS[certainty]}</h4>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3">
+            {groups[certainty].map(({ key, label, description, sentiment, flagged }) => {
+              const IconComponent = !flagged ? CircleDashed : sentiment === 'positive' ? CheckCircle : XCircle;
+              const colorClass = !flagged
+                ? 'text-gray-400'
+                : sentiment === 'positive'
+                  ? 'text-green-400'
+                  : 'text-red-400';
+              const highlight = evidenceColors[key];
+              const confidence = result.confidence?.[key];
+              const content = (
+                <>
+                  <span className="flex items-center gap-2">
+                    <IconComponent className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
+                    <span>{label}</span>
+                    {!flagged && <span className="text-xs text-gray-500">(not flagged)</span>}
+                    {highlight && (
+                      <>
+                        <span className={`h-3 w-3 flex-shrink-0 rounded-sm border ${highlight}`} />
+                        <span className="text-xs text-gray-400">{result.evidence?.[key]?.length}</span>
+                      </>
+                    )}
+                  </span>
+                  {confidence !== undefined && (
+                    <span className="mt-1 flex items-center gap-2 pl-6 sm:pl-7">
+                      <span className="h-1.5 flex-1 rounded-full bg-slate-800/80">
+                        <span
+                          className={`block h-1.5 rounded-full ${
+                            certainty === 'definite' ? 'bg-current' : 'bg-current opacity-50'
+                          }`}
+                          style={{ width: `${Math.round(confidence * 100)}%` }}
+                        />
+                      </span>
+                      <span className="w-9 text-right text-xs text-gray-400">{Math.round(confidence * 100)}%</span>
+                    </span>
+                  )}
+                </>
+              );
+
+              return highlight && onFocusEvidence ? (
+                <button
+                  key={key}
+                  type="button"
+                  title={description}
+                  aria-pressed={activeEvidence === key}
+                  onClick={() => onFocusEvidence(key)}
+                  className={`flex flex-col text-left text-sm sm:text-base hover:underline ${colorClass}`}
+                >
+                  {content}
+                </button>
+              ) : (
+                <div key={key} title={description} className={`flex flex-col text-sm sm:text-base ${colorClass}`}>
+                  {content}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import { Columns2, RotateCcw, Trash2, X } from 'lucide-react';
+import type { HistoryEntry } from '@/lib/history';
+import { getScoreColor } from './analysisDisplay';
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[];
+  onClose: () => void;
+  onReopen: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onCompare: (before: HistoryEntry, after: HistoryEntry) => void;
+}
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function HistorySidebar({ entries, onClose, onReopen, onDelete, onCompare }: HistorySidebarProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const toggleSelected = (id: string) => {
+    setSelected((previous) => {
+      if (previous.includes(id)) return previous.filter((item) => item !== id);
+      // Keep the two most recent picks.
+      return [...previous, id].slice(-2);
+    });
+  };
+
+  const compareSelected = () => {
+    const picked = entries
+      .filter((entry) => selected.includes(entry.id))
+      .sort((a, b) => a.createdAt - b.createdAt);
+    if (picked.length === 2) {
+      onCompare(picked[0], picked[1]);
+    }
+  };
+
+  const deleteEntry = (id: string) => {
+    setSelected((previous) => previous.filter((item) => item !== id));
+    onDelete(id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <button type="button" aria-label="Close history" className="absolute inset-0 bg-black/50" onClick={onClose} />
+      <aside className="relative w-full max-w-sm h-full bg-slate-900 border-l border-purple-500/30 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-purple-500/20">
+          <h2 className="text-lg font-semibold text-purple-300">History</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-200" aria-label="Close history">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-purple-500/20">
+          <button
+            type="button"
+            onClick={compareSelected}
+            disabled={selected.length !== 2}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-purple-600/80 text-white text-sm font-semibold hover:bg-purple-600 disabled:bg-gray-700 disabled:cursor-not-allowed"
+          >
+            <Columns2 className="h-4 w-4" />
+            Compare selected ({selected.length}/2)
+          </button>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto p-4 space-y-3">
+          {entries.length === 0 && <li className="text-sm text-gray-400">No analyses yet.</li>}
+          {entries.map((entry) => (
+            <li key={entry.id} className="bg-slate-800/50 border border-purple-500/20 rounded-lg p-3">
+              <div className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  className="mt-1 accent-purple-500"
+                  checked={selected.includes(entry.id)}
+                  onChange={() => toggleSelected(entry.id)}
+                  aria-label="Select for comparison"
+                />
+                {entry.thumbnail && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={entry.thumbnail} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center justify-between text-xs text-gray-400">
+                    <span>{formatTimestamp(entry.createdAt)}</span>
+                    <span className={`text-sm font-bold ${getScoreColor(entry.result.slopScore)}`}>
+                      {entry.result.slopScore}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-sm text-gray-200 line-clamp-2 break-words">{entry.post}</p>
+                  <div className="mt-2 flex gap-3 text-xs">
+                    <button
+                      type="button"
+                      onClick={() => onReopen(entry)}
+                      className="flex items-center gap-1 text-purple-300 hover:text-purple-100"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                      Reopen
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deleteEntry(entry.id)}
+                      className="flex items-center gap-1 text-red-300 hover:text-red-200"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </div>
+  );
+}
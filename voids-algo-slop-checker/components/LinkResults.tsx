@@ -0,0 +1,63 @@
+'use client';
+
+import { CheckCircle, Lightbulb, Link2, XCircle } from 'lucide-react';
+import { LINK_FINDING_REGISTRY, type LinkResult } from '@/lib/links';
+
+interface LinkResultsProps {
+  links: LinkResult[];
+}
+
+export default function LinkResults({ links }: LinkResultsProps) {
+  return (
+    <ul className="space-y-3">
+      {links.map(({ url, domain, findings, cleanUrl, suggestions }, index) => (
+        <li key={index} className="bg-slate-800/50 border border-purple-500/20 rounded-lg p-3 text-sm">
+          <p className="flex items-center gap-2 min-w-0">
+            <Link2 className="h-4 w-4 flex-shrink-0 text-purple-400" />
+            <code className="truncate text-gray-200" title={url}>
+              {url}
+            </code>
+            {domain && <span className="flex-shrink-0 text-xs text-gray-500">{domain}</span>}
+          </p>
+
+          {findings.length === 0 ? (
+            <p className="mt-2 flex items-center gap-1.5 text-xs text-green-400">
+              <CheckCircle className="h-3.5 w-3.5 flex-shrink-0" />
+              No shortener, spam, affiliate or tracking findings
+            </p>
+          ) : (
+            <ul className="mt-2 flex flex-wrap gap-x-3 gap-y-1">
+              {findings.map((key) => (
+                <li
+                  key={key}
+                  title={LINK_FINDING_REGISTRY[key].description}
+                  className="flex items-center gap-1.5 text-xs text-red-400"
+                >
+                  <XCircle className="h-3.5 w-3.5 flex-shrink-0" />
+                  {LINK_FINDING_REGISTRY[key].label}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {cleanUrl && (
+            <p className="mt-2 text-xs text-gray-400 break-all">
+              Without tracking: <code className="text-gray-200">{cleanUrl}</code>
+            </p>
+          )}
+
+          {suggestions.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {suggestions.map((suggestion) => (
+                <li key={suggestion} className="flex items-start gap-1.5 text-xs text-gray-300">
+                  <Lightbulb className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-yellow-400" />
+                  {suggestion}
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import { ChangeEvent, DragEvent, useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, ImagePlus, X } from 'lucide-react';
+import type { ImageFormat } from '@/lib/analysisResult';
+import {
+  formatFromMimeType,
+  formatMegabytes,
+  getMaxImageBytes,
+  MAX_GIF_BYTES,
+  MAX_IMAGE_BYTES,
+  MAX_MEDIA_ITEMS,
+  MEDIA_MIME_TYPES,
+  validateMediaSelection,
+  type SelectedMedia,
+} from '@/lib/media';
+
+interface MediaPickerProps {
+  media: SelectedMedia[];
+  onChange: (media: SelectedMedia[]) => void;
+  onError: (message: string) => void;
+}
+
+// X's layouts: one image fills the frame, two sit side by side, three put the
+// first one at full height on the left and four form a 2x2 grid.
+const GRID_LAYOUTS: Record<number, string> = {
+  1: 'grid-cols-1 grid-rows-1',
+  2: 'grid-cols-2 grid-rows-1',
+  3: 'grid-cols-2 grid-rows-2',
+  4: 'grid-cols-2 grid-rows-2',
+};
+
+export default function MediaPicker({ media, onChange, onError }: MediaPickerProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  // Tile being dragged to a new position.
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropActive, setDropActive] = useState(false);
+
+  const full = media.length >= MAX_MEDIA_ITEMS || media.some((item) => item.format === 'gif');
+
+  const addFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    onError('');
+
+    const formats = files.map((file) => formatFromMimeType(file.type));
+    if (formats.some((format) => !format)) {
+      onError('Images must be PNG, JPEG, WEBP or GIF files.');
+      return;
+    }
+
+    const oversized = files.findIndex((file, index) => file.size > getMaxImageBytes(formats[index] as ImageFormat));
+    if (oversized !== -1) {
+      onError(`${files[oversized].name} is larger than ${formatMegabytes(getMaxImageBytes(formats[oversized] as ImageFormat))}.`);
+      return;
+    }
+
+    const selectionError = validateMediaSelection([...media.map((item) => item.format), ...(formats as ImageFormat[])]);
+    if (selectionError) {
+      onError(`${selectionError}.`);
+      return;
+    }
+
+    // Files are uploaded as they are; the object URLs only serve previews.
+    onChange([
+      ...media,
+      ...files.map((file, index) => ({
+        id: crypto.randomUUID(),
+        file,
+        previewUrl: URL.createObjectURL(file),
+        format: formats[index] as ImageFormat,
+      })),
+    ]);
+  };
+
+  const handleInputChange = (event: ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files ?? []));
+    // Lets the same file be picked again after it was removed.
+    event.target.value = '';
+  };
+
+  const moveItem = (from: number, to: number) => {
+    if (to < 0 || to >= media.length || from === to) return;
+    const next = [...media];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  const removeItem = (index: number) => {
+    onError('');
+    onChange(media.filter((_, i) => i !== index));
+  };
+
+  // Files dropped anywhere on the picker are added; tiles dragged within the
+  // grid are reordered by their own handlers.
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setDropActive(!full);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    setDropActive(false);
+    if (!full) {
+      addFiles(Array.from(event.dataTransfer.files));
+    }
+  };
+
+  const iconButtonClass =
+    'p-1 rounded-full bg-black/70 text-white hover:bg-black/90 disabled:opacity-30 disabled:cursor-not-allowed';
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDropActive(false)}
+      onDrop={handleDrop}
+      className={`rounded-lg border-2 border-dashed p-3 transition-colors ${
+        dropActive ? 'border-purple-400 bg-purple-500/10' : 'border-purple-500/30'
+      }`}
+    >
+      {media.length > 0 && (
+        <div
+          className={`grid aspect-video w-full max-w-md gap-0.5 overflow-hidden rounded-2xl border border-purple-500/20 mb-3 ${
+            GRID_LAYOUTS[media.length]
+          }`}
+        >
+          {media.map((item, index) => (
+            <div
+              key={item.id}
+              draggable={media.length > 1}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = 'move';
+                setDragIndex(index);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              onDragOver={(event) => {
+                if (dragIndex !== null) event.preventDefault();
+              }}
+              onDrop={(event) => {
+                if (dragIndex === null) return;
+                event.preventDefault();
+                moveItem(dragIndex, index);
+                setDragIndex(null);
+              }}
+              className={`relative min-h-0 bg-slate-900 ${media.length === 3 && index === 0 ? 'row-span-2' : ''} ${
+                media.length > 1 ? 'cursor-grab' : ''
+              } ${dragIndex === index ? 'opacity-50' : ''}`}
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={item.previewUrl}
+                alt={`Image ${index + 1}: ${item.file.name}`}
+                className="h-full w-full object-cover"
+                draggable={false}
+              />
+              {item.format === 'gif' && (
+                <span className="absolute bottom-1.5 left-1.5 rounded bg-black/70 px-1.5 py-0.5 text-[10px] font-bold text-white">
+                  GIF
+                </span>
+              )}
+              <div className="absolute right-1.5 top-1.5 flex gap-1">
+                {media.length > 1 && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => moveItem(index, index - 1)}
+                      disabled={index === 0}
+                      className={iconButtonClass}
+                      aria-label={`Move image ${index + 1} earlier`}
+                    >
+                      <ArrowLeft className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveItem(index, index + 1)}
+                      disabled={index === media.length - 1}
+                      className={iconButtonClass}
+                      aria-label={`Move image ${index + 1} later`}
+                    >
+                      <ArrowRight className="h-3.5 w-3.5" />
+                    </button>
+                  </>
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeItem(index)}
+                  className={iconButtonClass}
+                  aria-label={`Remove image ${index + 1}`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={full}
+          className="flex items-center justify-center gap-2 py-2 px-4 rounded-md bg-purple-600/80 text-white text-sm font-semibold hover:bg-purple-600 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <ImagePlus className="h-4 w-4" />
+          {media.length > 0 ? 'Add more' : 'Add images'}
+        </button>
+        <p className="text-xs text-gray-400">
+          Drop or pick up to {MAX_MEDIA_ITEMS} images ({formatMegabytes(MAX_IMAGE_BYTES)} each) or one GIF (
+          {formatMegabytes(MAX_GIF_BYTES)}).
+          {media.length > 1 && ' Drag the images to reorder them.'}
+        </p>
+      </div>
+
+      <input
+        id="image"
+        type="file"
+        multiple
+        accept={Object.values(MEDIA_MIME_TYPES).join(',')}
+        onChange={handleInputChange}
+        ref={fileInputRef}
+        className="sr-only"
+      />
+    </div>
+  );
+}
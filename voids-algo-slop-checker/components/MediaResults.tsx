@@ -0,0 +1,70 @@
+'use client';
+
+import { AlertCircle, CheckCircle, XCircle } from 'lucide-react';
+import type { MediaResult } from '@/lib/analysisResult';
+import { MEDIA_FINDING_KEYS, MEDIA_FINDING_REGISTRY } from '@/lib/media';
+
+interface MediaResultsProps {
+  media: MediaResult[];
+  // Preview URLs of the analyzed images, in the same order, when still at hand.
+  previews: string[];
+}
+
+export default function MediaResults({ media, previews }: MediaResultsProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {media.map(({ name, metadata, findings }, index) => {
+        const flagged = MEDIA_FINDING_KEYS.filter((key) => findings?.[key]);
+
+        return (
+          <div key={index} className="flex gap-3 bg-slate-800/50 border border-purple-500/20 rounded-lg p-3">
+            {previews[index] && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={previews[index]}
+                alt={`Image ${index + 1}`}
+                className="h-16 w-16 flex-shrink-0 rounded-md border border-purple-500/20 object-cover"
+              />
+            )}
+            <div className="min-w-0 text-sm">
+              <p className="font-medium text-gray-200 truncate">
+                {media.length > 1 && `${index + 1}. `}
+                {name || 'Unnamed image'}
+              </p>
+              {metadata && (
+                <p className="text-xs text-gray-500">
+                  {metadata.format.toUpperCase()}, {metadata.width}×{metadata.height}, {metadata.aspectRatio}:1
+                  {metadata.frameCount ? `, ${metadata.frameCount} frames` : null}
+                </p>
+              )}
+              {!findings ? (
+                <p className="mt-2 flex items-center gap-1.5 text-xs text-gray-400">
+                  <AlertCircle className="h-3.5 w-3.5 flex-shrink-0" />
+                  Not checked; the model could not view this image.
+                </p>
+              ) : flagged.length === 0 ? (
+                <p className="mt-2 flex items-center gap-1.5 text-xs text-green-400">
+                  <CheckCircle className="h-3.5 w-3.5 flex-shrink-0" />
+                  Nothing flagged
+                </p>
+              ) : (
+                <ul className="mt-2 space-y-1">
+                  {flagged.map((key) => (
+                    <li
+                      key={key}
+                      title={MEDIA_FINDING_REGISTRY[key].description}
+                      className="flex items-center gap-1.5 text-xs text-red-400"
+                    >
+                      <XCircle className="h-3.5 w-3.5 flex-shrink-0" />
+                      {MEDIA_FINDING_REGISTRY[key].label}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
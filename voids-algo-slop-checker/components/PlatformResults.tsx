@@ -0,0 +1,89 @@
+'use client';
+
+import { AlertCircle, ArrowRight, Trophy } from 'lucide-react';
+import type { AnalysisResult } from '@/lib/analysisResult';
+import type { MultiPlatformResult } from '@/lib/platformCheck';
+import { PLATFORMS, type Platform } from '@/lib/platforms';
+import { getScoreBackground, getScoreBarColor, getScoreColor, getTopFactors } from './analysisDisplay';
+
+interface PlatformResultsProps {
+  result: MultiPlatformResult;
+  onOpen: (platform: Platform, result: AnalysisResult) => void;
+}
+
+export default function PlatformResults({ result, onOpen }: PlatformResultsProps) {
+  const analyzed = result.checks.filter((check) => check.result);
+  const best = analyzed.length
+    ? analyzed.reduce((lowest, check) =>
+        (check.result?.slopScore ?? 100) < (lowest.result?.slopScore ?? 100) ? check : lowest,
+      )
+    : null;
+
+  return (
+    <div className="mt-6 sm:mt-8 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-lg sm:text-xl font-semibold text-gray-100">All Platforms</h2>
+        {best?.result && (
+          <p className="flex items-center gap-2 text-xs sm:text-sm text-green-300">
+            <Trophy className="h-4 w-4 flex-shrink-0" />
+            Best fit: {PLATFORMS[best.platform].label} ({best.result.slopScore})
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+        {result.checks.map(({ platform, length, maxLength, result: check }) => (
+          <div
+            key={platform}
+            className={`p-4 rounded-lg border ${check ? getScoreBackground(check.slopScore) : 'bg-slate-800/30 border-slate-600/30'}`}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-base font-semibold text-gray-100">{PLATFORMS[platform].label}</h3>
+              {check ? (
+                <span className={`text-2xl font-bold ${getScoreColor(check.slopScore)}`}>{check.slopScore}</span>
+              ) : (
+                <span className="text-sm text-gray-400">Not checked</span>
+              )}
+            </div>
+
+            <p className={`text-xs ${length > maxLength ? 'text-red-400' : 'text-gray-400'}`}>
+              {length}/{maxLength} characters
+            </p>
+
+            {check ? (
+              <>
+                <div className="mt-2 w-full bg-slate-800/50 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full ${getScoreBarColor(check.slopScore)}`}
+                    style={{ width: `${check.slopScore}%` }}
+                  />
+                </div>
+                <ul className="mt-3 space-y-1 text-xs sm:text-sm text-gray-300">
+                  {getTopFactors(check.factors, 3).map(({ key, label, sentiment }) => (
+                    <li key={key} className={sentiment === 'positive' ? 'text-green-400' : 'text-red-400'}>
+                      {label}
+                    </li>
+                  ))}
+                  {getTopFactors(check.factors, 1).length === 0 && <li>No notable signals flagged.</li>}
+                </ul>
+                <button
+                  type="button"
+                  onClick={() => onOpen(platform, check)}
+                  className="mt-3 inline-flex items-center gap-1 text-xs sm:text-sm text-purple-300 hover:text-purple-100"
+                >
+                  Full result
+                  <ArrowRight className="h-3 w-3" />
+                </button>
+              </>
+            ) : (
+              <p className="mt-3 flex items-center gap-2 text-xs sm:text-sm text-red-300">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                Too long for {PLATFORMS[platform].label}. Trim {length - maxLength} characters to post it there.
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
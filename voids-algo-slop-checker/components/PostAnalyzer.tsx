@@ -1,82 +1,77 @@
 'use client';
 
-import { ChangeEvent, useCallback, useEffect, useRef, useState } from 'react';
-import { AlertCircle, CheckCircle, XCircle, TrendingUp, Loader2, Sparkles } from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertCircle, XCircle, TrendingUp, Loader2, Sparkles, History } from 'lucide-react';
 import Image from 'next/image';
+import {
+  EVENT_STREAM_CONTENT_TYPE,
+  readEventStream,
+  type AnalysisProgressEvent,
+} from '@/lib/analysisEvents';
+import type { AnalysisResult, HeuristicMeasurements } from '@/lib/analysisResult';
+import { parseAnalysisResult } from '@/lib/analysisSchema';
+import { MAX_DISPLAY_NAME_LENGTH } from '@/lib/postValidation';
+import type { FactorKey } from '@/lib/factors';
+import type { HeuristicFactors } from '@/lib/heuristics';
+import {
+  createHistoryEntry,
+  createThumbnail,
+  loadHistory,
+  saveHistory,
+  type HistoryEntry,
+} from '@/lib/history';
+import type { SelectedMedia } from '@/lib/media';
+import { measureForPlatform, parseMultiPlatformResult, type MultiPlatformResult } from '@/lib/platformCheck';
+import { DEFAULT_PLATFORM, PLATFORM_KEYS, PLATFORMS, supportsLongPost, type Platform } from '@/lib/platforms';
+import { findPrivateInfo, PRIVATE_INFO_KINDS } from '@/lib/privateInfo';
+import type { RewriteCandidate } from '@/lib/rewrite';
+import { parseThreadAnalysisResult, type ThreadAnalysisResult } from '@/lib/thread';
+import { postWithUploadProgress } from '@/lib/upload';
+import { FACTOR_DETAILS, getScoreBackground, getScoreBarColor, getScoreColor } from './analysisDisplay';
+import BatchAnalyzer from './BatchAnalyzer';
+import CompareView from './CompareView';
+import EvidenceHighlights from './EvidenceHighlights';
+import FactorList from './FactorList';
+import HistorySidebar from './HistorySidebar';
+import LinkResults from './LinkResults';
+import MediaPicker from './MediaPicker';
+import MediaResults from './MediaResults';
+import PlatformResults from './PlatformResults';
+import PrivateInfoResults from './PrivateInfoResults';
+import RewritePanel from './RewritePanel';
+import SharePanel from './SharePanel';
+import ThreadEditor from './ThreadEditor';
+import ThreadResults from './ThreadResults';
 import { SESSION_HEADER_NAME } from '@/lib/sessionConstants';
 
-interface AnalysisResult {
-  slopScore: number;
-  factors: {
-    allCaps: boolean;
-    spam: boolean;
-    tooManyHashtags: boolean;
-    tooManyMentions: boolean;
-    offensive: boolean;
-    offensiveDisplayName: boolean;
-    hasLinks: boolean;
-    nsfw: boolean;
-    graphicViolence: boolean;
-    promotional: boolean;
-    privateInfo: boolean;
-    excessiveWhitespace: boolean;
-    veryShortLowEffort: boolean;
-    lengthExtremes: boolean;
-    readabilityIssues: boolean;
-    lowTokenEntropy: boolean;
-    slopAnnotation: boolean;
-    mediaOrCardHeavy: boolean;
-    informative: boolean;
-    encouragesEngagement: boolean;
-  };
+type AnalyzerMode = 'single' | 'thread' | 'batch';
+
+const MODE_LABELS: Record<AnalyzerMode, string> = {
+  single: 'Single post',
+  thread: 'Thread',
+  batch: 'Batch',
+};
+
+// 'all' checks one post against every platform at once.
+type PlatformChoice = Platform | 'all';
+
+interface SubmittedPost {
+  post: string;
+  displayName: string;
+}
+
+interface LiveProgress {
+  stage: string;
+  heuristicFactors?: HeuristicFactors;
   summary: string;
-  recommendations: string[];
 }
 
-type FactorKey = keyof AnalysisResult['factors'];
-
-const DEFAULT_FACTORS: AnalysisResult['factors'] = {
-  allCaps: false,
-  spam: false,
-  tooManyHashtags: false,
-  tooManyMentions: false,
-  offensive: false,
-  offensiveDisplayName: false,
-  hasLinks: false,
-  nsfw: false,
-  graphicViolence: false,
-  promotional: false,
-  privateInfo: false,
-  excessiveWhitespace: false,
-  veryShortLowEffort: false,
-  lengthExtremes: false,
-  readabilityIssues: false,
-  lowTokenEntropy: false,
-  slopAnnotation: false,
-  mediaOrCardHeavy: false,
-  informative: false,
-  encouragesEngagement: false,
-};
+const INVALID_OUTPUT_MESSAGE = 'The analyzer returned an unusable result. Please try again.';
 
-const normalizeResult = (raw: unknown): AnalysisResult => {
-  const rawObj = raw as Record<string, unknown>;
-  
-  const safeFactors: Partial<AnalysisResult['factors']> =
-    rawObj && typeof rawObj === 'object' && 'factors' in rawObj && rawObj.factors && typeof rawObj.factors === 'object'
-      ? (rawObj.factors as Partial<AnalysisResult['factors']>)
-      : {};
-
-  return {
-    slopScore: typeof rawObj?.slopScore === 'number' ? rawObj.slopScore : 0,
-    summary: typeof rawObj?.summary === 'string' ? rawObj.summary : '',
-    recommendations: Array.isArray(rawObj?.recommendations)
-      ? rawObj.recommendations.filter((item: unknown) => typeof item === 'string')
-      : [],
-    factors: {
-      ...DEFAULT_FACTORS,
-      ...safeFactors,
-    },
-  };
+const formatTtl = (seconds: number) => {
+  if (seconds >= 3600) return `${Math.round(seconds / 3600)}h`;
+  if (seconds >= 60) return `${Math.round(seconds / 60)}m`;
+  return `${seconds}s`;
 };
 
 const toRecord = (value: unknown): Record<string, unknown> | null =>
@@ -84,16 +79,39 @@ const toRecord = (value: unknown): Record<string, unknown> | null =>
 
 export default function PostAnalyzer() {
   const [displayName, setDisplayName] = useState('');
+  const [mode, setMode] = useState<AnalyzerMode>('single');
+  const [platform, setPlatform] = useState<PlatformChoice>(DEFAULT_PLATFORM);
+  const [longPostEnabled, setLongPostEnabled] = useState(false);
+  // Masks detected personal details in the text sent to the model.
+  const [redactPrivateInfo, setRedactPrivateInfo] = useState(false);
   const [post, setPost] = useState('');
-  const [imageData, setImageData] = useState<string | null>(null);
-  const [imageName, setImageName] = useState('');
+  const [threadPosts, setThreadPosts] = useState<string[]>(['', '']);
+  const [media, setMedia] = useState<SelectedMedia[]>([]);
+  // History thumbnail of the first image.
+  const [imageThumbnail, setImageThumbnail] = useState<string | undefined>(undefined);
   const [loading, setLoading] = useState(false);
+  // Share of the images sent so far, while a multipart upload is running.
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  // The post and display name the current single-post result was computed for.
+  const [analyzedInput, setAnalyzedInput] = useState<SubmittedPost | null>(null);
+  // Previews of the images sent with that post, for the per-image findings.
+  const [analyzedMedia, setAnalyzedMedia] = useState<string[]>([]);
+  const [threadResult, setThreadResult] = useState<ThreadAnalysisResult | null>(null);
+  const [platformResult, setPlatformResult] = useState<MultiPlatformResult | null>(null);
+  const [liveProgress, setLiveProgress] = useState<LiveProgress | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [comparison, setComparison] = useState<{ before: HistoryEntry; after: HistoryEntry } | null>(null);
   const [error, setError] = useState('');
   const [sessionToken, setSessionToken] = useState<string | null>(null);
   const [tokenLoading, setTokenLoading] = useState(true);
-  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  // Factor whose evidence is emphasized in the highlighted post.
+  const [activeEvidence, setActiveEvidence] = useState<FactorKey | null>(null);
+  const evidenceRef = useRef<HTMLDivElement | null>(null);
   const sessionTokenRef = useRef<string | null>(null);
+  // Object URLs created for image previews, revoked once nothing shows them.
+  const previewUrlsRef = useRef(new Set<string>());
 
   const fetchSessionToken = useCallback(async () => {
     setTokenLoading(true);
@@ -135,64 +153,201 @@ export default function PostAnalyzer() {
     sessionTokenRef.current = sessionToken;
   }, [sessionToken]);
 
-  const handleImageChange = (event: ChangeEvent<HTMLInputElement>) => {
-    setError('');
+  useEffect(() => {
+    setHistory(loadHistory());
+  }, []);
 
-    const file = event.target.files?.[0];
+  useEffect(() => {
+    setActiveEvidence(null);
+  }, [result]);
 
-    if (!file) {
-      setImageData(null);
-      setImageName('');
-      return;
+  useEffect(() => {
+    const inUse = new Set([...media.map((item) => item.previewUrl), ...analyzedMedia]);
+    for (const url of previewUrlsRef.current) {
+      if (!inUse.has(url)) {
+        URL.revokeObjectURL(url);
+        previewUrlsRef.current.delete(url);
+      }
     }
+    inUse.forEach((url) => previewUrlsRef.current.add(url));
+  }, [media, analyzedMedia]);
 
-    const maxSize = 2 * 1024 * 1024; // 2MB limit keeps payload reasonable for analysis
-    if (file.size > maxSize) {
-      setError('Image must be 2MB or smaller.');
-      setImageData(null);
-      setImageName('');
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-      return;
+  useEffect(() => {
+    const previewUrls = previewUrlsRef.current;
+    return () => previewUrls.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
+
+  const firstImage = media[0]?.previewUrl;
+  useEffect(() => {
+    setImageThumbnail(undefined);
+    if (firstImage) {
+      createThumbnail(firstImage).then(setImageThumbnail);
     }
+  }, [firstImage]);
 
-    const reader = new FileReader();
+  const clearMedia = () => {
+    setMedia([]);
+  };
 
-    reader.onload = () => {
-      const result = typeof reader.result === 'string' ? reader.result : null;
-      setImageData(result);
-      setImageName(file.name);
-    };
+  const ensureSessionToken = async () =>
+    sessionTokenRef.current ?? sessionToken ?? (await fetchSessionToken());
+
+  const hasContent =
+    mode === 'thread' ? threadPosts.every((threadPost) => threadPost.trim()) : Boolean(post.trim());
+
+  // Threads and batches are checked for one platform; 'all' falls back to X there.
+  const targetPlatform: Platform = platform === 'all' ? DEFAULT_PLATFORM : platform;
+  // Only sent where the platform offers long posts.
+  const longPost = platform !== 'all' && supportsLongPost(platform) && longPostEnabled;
+  const postMeasures = (platform === 'all' ? PLATFORM_KEYS : [platform]).map((key) => ({
+    platform: key,
+    ...measureForPlatform(post, key, longPost),
+  }));
+  const overLimit =
+    mode === 'thread'
+      ? threadPosts.some((threadPost) => !measureForPlatform(threadPost, targetPlatform, longPost).fits)
+      : !postMeasures.some(({ fits }) => fits);
+  // Personal details in the draft, found in the browser so they can be shown
+  // before anything is sent.
+  const draftPrivateInfoKinds = [
+    ...new Set(
+      (mode === 'thread' ? threadPosts : mode === 'single' ? [post] : [])
+        .flatMap((draft) => findPrivateInfo(draft))
+        .map(({ kind }) => kind),
+    ),
+  ];
 
-    reader.onerror = () => {
-      setError('Failed to read the selected image. Please try another file.');
-      setImageData(null);
-      setImageName('');
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-    };
+  const switchMode = (nextMode: AnalyzerMode) => {
+    setMode(nextMode);
+    setError('');
+    setResult(null);
+    setThreadResult(null);
+    setPlatformResult(null);
+    if (nextMode !== 'single' && platform === 'all') {
+      setPlatform(DEFAULT_PLATFORM);
+    }
+  };
+
+  const selectPlatform = (nextPlatform: PlatformChoice) => {
+    setPlatform(nextPlatform);
+    setError('');
+    setResult(null);
+    setPlatformResult(null);
+  };
 
-    reader.readAsDataURL(file);
+  // Shows a single-post result and prepends it to the persisted history.
+  const recordResult = (analysis: AnalysisResult, submitted: SubmittedPost) => {
+    setResult(analysis);
+    setHistory((previous) =>
+      saveHistory([
+        createHistoryEntry({ ...submitted, thumbnail: imageThumbnail, result: analysis }),
+        ...previous,
+      ]),
+    );
   };
 
-  const clearImage = () => {
-    setImageData(null);
-    setImageName('');
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+  const handleProgressEvent = (event: AnalysisProgressEvent, submitted: SubmittedPost) => {
+    switch (event.type) {
+      case 'validated':
+        setLiveProgress({ stage: 'Post validated', summary: '' });
+        break;
+      case 'heuristics':
+        setLiveProgress((previous) => ({
+          summary: previous?.summary ?? '',
+          stage: 'Local checks done',
+          heuristicFactors: event.factors,
+        }));
+        break;
+      case 'model-started':
+        setLiveProgress((previous) => ({
+          summary: '',
+          heuristicFactors: previous?.heuristicFactors,
+          stage: event.attempt > 1 ? 'Model is re-checking its answer' : 'Model is reviewing your post',
+        }));
+        break;
+      case 'summary':
+        setLiveProgress((previous) => ({
+          stage: previous?.stage ?? 'Model is reviewing your post',
+          heuristicFactors: previous?.heuristicFactors,
+          summary: event.text,
+        }));
+        break;
+      case 'result': {
+        const analysis = parseAnalysisResult(event.result);
+        if (analysis) {
+          recordResult(analysis, submitted);
+        } else {
+          setError(INVALID_OUTPUT_MESSAGE);
+        }
+        setLiveProgress(null);
+        break;
+      }
+      case 'error':
+        setError(event.code === 'INVALID_MODEL_OUTPUT' ? INVALID_OUTPUT_MESSAGE : event.error);
+        setLiveProgress(null);
+        break;
     }
   };
 
+  const applyDraft = (candidate: RewriteCandidate) => {
+    const submitted = { post: candidate.text, displayName };
+    setPost(candidate.text);
+    recordResult(candidate.result, submitted);
+    setAnalyzedInput(submitted);
+  };
+
+  // Opens one platform's result from the all-platforms view as a regular result.
+  const openPlatformCheck = (checkPlatform: Platform, analysis: AnalysisResult) => {
+    const submitted = analyzedInput ?? { post, displayName };
+    setPlatform(checkPlatform);
+    setPlatformResult(null);
+    recordResult(analysis, submitted);
+    setAnalyzedInput(submitted);
+  };
+
+  const reopenEntry = (entry: HistoryEntry) => {
+    setMode('single');
+    setPlatform(entry.result.platform ?? DEFAULT_PLATFORM);
+    setLongPostEnabled(entry.result.longPost === true);
+    setPlatformResult(null);
+    setError('');
+    setPost(entry.post);
+    setDisplayName(entry.displayName);
+    clearMedia();
+    setAnalyzedMedia([]);
+    setThreadResult(null);
+    setComparison(null);
+    setResult(entry.result);
+    setAnalyzedInput({ post: entry.post, displayName: entry.displayName });
+    setHistoryOpen(false);
+  };
+
+  const deleteEntry = (id: string) => {
+    setHistory((previous) => saveHistory(previous.filter((entry) => entry.id !== id)));
+    setComparison((current) =>
+      current && (current.before.id === id || current.after.id === id) ? null : current,
+    );
+  };
+
+  const openComparison = (before: HistoryEntry, after: HistoryEntry) => {
+    setComparison({ before, after });
+    setHistoryOpen(false);
+  };
+
   const analyzePost = async () => {
-    if (!displayName.trim() || !post.trim()) {
-      setError('Please enter both a display name and a post to analyze');
+    if (!displayName.trim() || !hasContent) {
+      setError(
+        mode === 'thread'
+          ? 'Please enter a display name and fill in every post of the thread'
+          : 'Please enter both a display name and a post to analyze',
+      );
       return;
     }
 
     setError('');
     setResult(null);
+    setThreadResult(null);
+    setPlatformResult(null);
     let tokenToUse = sessionTokenRef.current ?? sessionToken;
     if (!tokenToUse) {
       tokenToUse = await fetchSessionToken();
@@ -202,18 +357,52 @@ export default function PostAnalyzer() {
     }
 
     setLoading(true);
-    const imagePayload = imageData ? { name: imageName, dataUrl: imageData } : null;
+    const submitted = { post, displayName };
+    setAnalyzedInput(mode === 'single' ? submitted : null);
+    setAnalyzedMedia(mode === 'single' ? media.map((item) => item.previewUrl) : []);
+
+    // Single posts stream progress; the server answers threads and
+    // all-platform checks with plain JSON.
+    const headers = {
+      Accept:
+        mode === 'thread' || platform === 'all' ? 'application/json' : `${EVENT_STREAM_CONTENT_TYPE}, application/json`,
+      [SESSION_HEADER_NAME]: tokenToUse,
+    };
+    const fields =
+      mode === 'thread'
+        ? { posts: threadPosts, displayName, platform: targetPlatform, longPost, redactPrivateInfo }
+        : { post, displayName, platform, longPost, redactPrivateInfo };
 
     try {
-      const response = await fetch('/api/analyze', {
-        method: 'POST',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-          [SESSION_HEADER_NAME]: tokenToUse,
-        },
-        body: JSON.stringify({ post, displayName, image: imagePayload }),
-      });
+      let response: Response;
+      if (media.length > 0) {
+        // Images go up as binary file parts, which lets the upload report
+        // its progress.
+        const formData = new FormData();
+        for (const [name, value] of Object.entries(fields)) {
+          for (const entry of Array.isArray(value) ? value : [value]) {
+            formData.append(name, String(entry));
+          }
+        }
+        media.forEach((item) => formData.append('media', item.file, item.file.name));
+
+        setUploadProgress(0);
+        response = await postWithUploadProgress('/api/analyze', { headers, body: formData }, setUploadProgress);
+        setUploadProgress(null);
+      } else {
+        response = await fetch('/api/analyze', {
+          method: 'POST',
+          credentials: 'include',
+          headers: { ...headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify(fields),
+        });
+      }
+
+      const contentType = response.headers.get('content-type') ?? '';
+      if (response.ok && response.body && contentType.includes(EVENT_STREAM_CONTENT_TYPE)) {
+        await readEventStream(response.body, (event) => handleProgressEvent(event, submitted));
+        return;
+      }
 
       let parsed: unknown = null;
       try {
@@ -233,63 +422,91 @@ export default function PostAnalyzer() {
           return;
         }
 
+        if (response.status === 413) {
+          const errorMessage = payload?.['error'];
+          setError(typeof errorMessage === 'string' ? `${errorMessage}.` : 'The images are too large to upload.');
+          return;
+        }
+
         if (response.status === 401) {
           await fetchSessionToken();
           setError('Your session expired. Please try again.');
           return;
         }
 
+        if (payload?.['code'] === 'INVALID_MODEL_OUTPUT') {
+          setError(INVALID_OUTPUT_MESSAGE);
+          return;
+        }
+
+        if (payload?.['code'] === 'CAPACITY_EXHAUSTED' && typeof payload['error'] === 'string') {
+          setError(payload['error']);
+          return;
+        }
+
         const errorMessage = payload?.['error'];
         throw new Error(typeof errorMessage === 'string' ? errorMessage : 'Analysis failed');
       }
 
-      setResult(normalizeResult(parsed ?? {}));
+      if (mode === 'thread') {
+        const threadAnalysis = parseThreadAnalysisResult(parsed);
+        if (!threadAnalysis) {
+          throw new Error('Thread analysis response did not match the expected format');
+        }
+
+        setThreadResult(threadAnalysis);
+        return;
+      }
+
+      if (platform === 'all') {
+        const platformAnalysis = parseMultiPlatformResult(parsed);
+        if (!platformAnalysis) {
+          throw new Error('Platform analysis response did not match the expected format');
+        }
+
+        setPlatformResult(platformAnalysis);
+        return;
+      }
+
+      const analysis = parseAnalysisResult(parsed);
+      if (!analysis) {
+        throw new Error('Analysis response did not match the expected format');
+      }
+
+      recordResult(analysis, submitted);
     } catch (err) {
       console.error(err);
       setError('Failed to analyze post. Please try again.');
     } finally {
       setLoading(false);
+      setUploadProgress(null);
+      setLiveProgress(null);
     }
   };
 
-  const getScoreColor = (score: number) => {
-    if (score < 30) return 'text-green-400';
-    if (score < 60) return 'text-yellow-400';
-    return 'text-red-400';
-  };
-
-  const getScoreBackground = (score: number) => {
-    if (score < 30) return 'bg-green-900/30 border-green-500/30';
-    if (score < 60) return 'bg-yellow-900/30 border-yellow-500/30';
-    return 'bg-red-900/30 border-red-500/30';
-  };
-
-  const factorDetails: Array<{ key: FactorKey; label: string; sentiment: 'negative' | 'positive' }> = [
-    { key: 'allCaps', label: 'All caps shouting', sentiment: 'negative' },
-    { key: 'lengthExtremes', label: 'Length far outside optimal range', sentiment: 'negative' },
-    { key: 'readabilityIssues', label: 'Readability concerns', sentiment: 'negative' },
-    { key: 'lowTokenEntropy', label: 'Low vocabulary variety', sentiment: 'negative' },
-    { key: 'excessiveWhitespace', label: 'Excessive whitespace or odd formatting', sentiment: 'negative' },
-    { key: 'spam', label: 'Likely spam pattern', sentiment: 'negative' },
-    { key: 'slopAnnotation', label: 'High “slop” annotation', sentiment: 'negative' },
-    { key: 'tooManyHashtags', label: 'Too many hashtags or trends', sentiment: 'negative' },
-    { key: 'tooManyMentions', label: 'Too many @mentions', sentiment: 'negative' },
-    { key: 'hasLinks', label: 'Contains external link', sentiment: 'negative' },
-    { key: 'mediaOrCardHeavy', label: 'Heavy media/card footprint', sentiment: 'negative' },
-    { key: 'promotional', label: 'Overly promotional content', sentiment: 'negative' },
-    { key: 'veryShortLowEffort', label: 'Very short or low-effort post', sentiment: 'negative' },
-    { key: 'offensive', label: 'Offensive or aggressive language', sentiment: 'negative' },
-    { key: 'offensiveDisplayName', label: 'Offensive display name', sentiment: 'negative' },
-    { key: 'privateInfo', label: 'Private information exposure', sentiment: 'negative' },
-    { key: 'nsfw', label: 'NSFW or sexual content', sentiment: 'negative' },
-    { key: 'graphicViolence', label: 'Graphic gore or violence', sentiment: 'negative' },
-    { key: 'informative', label: 'Informative or educational content', sentiment: 'positive' },
-    { key: 'encouragesEngagement', label: 'Encourages meaningful engagement', sentiment: 'positive' },
+  const formatCount = (value: number) => value.toString();
+  const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+  const measurementDetails: Array<{ key: keyof HeuristicMeasurements; label: string; format: (value: number) => string }> = [
+    { key: 'characterCount', label: 'Characters', format: formatCount },
+    { key: 'hashtagCount', label: 'Hashtags', format: formatCount },
+    { key: 'mentionCount', label: 'Mentions', format: formatCount },
+    { key: 'linkCount', label: 'Links', format: formatCount },
+    { key: 'capsRatio', label: 'Caps ratio', format: formatPercent },
+    { key: 'whitespaceRatio', label: 'Whitespace', format: formatPercent },
+    { key: 'tokenEntropy', label: 'Token entropy', format: formatPercent },
+    { key: 'lengthCurvePosition', label: 'Length curve', format: formatPercent },
   ];
 
-  const activeFactors = result
-    ? factorDetails.filter(({ key }) => Boolean(result.factors?.[key]))
-    : [];
+
+  // Emphasizes a factor's spans and scrolls the first one into view; a
+  // second click clears the emphasis.
+  const focusEvidence = (key: FactorKey) => {
+    setActiveEvidence((current) => (current === key ? null : key));
+    evidenceRef.current
+      ?.querySelector(`[data-evidence~="${key}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-purple-950 to-slate-950 relative overflow-hidden">
@@ -347,161 +564,348 @@ export default function PostAnalyzer() {
               <p className="text-gray-400 text-sm sm:text-base">
                 Check if your post will get deboosted by the algorithm
               </p>
+              <button
+                type="button"
+                onClick={() => setHistoryOpen(true)}
+                className="mt-3 inline-flex items-center gap-2 text-xs sm:text-sm text-purple-300 hover:text-purple-100"
+              >
+                <History className="h-4 w-4" />
+                History ({history.length})
+              </button>
             </div>
           </div>
 
           <div className="space-y-4">
-            <div>
-              <label htmlFor="displayName" className="block text-sm font-medium text-purple-300 mb-2">
-                Your X Display Name
-              </label>
-              <input
-                id="displayName"
-                type="text"
-                className="w-full px-3 sm:px-4 py-2 sm:py-3 bg-slate-800/50 border border-purple-500/30 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-gray-100 placeholder-gray-500 text-sm sm:text-base"
-                placeholder="Enter your display name..."
-                value={displayName}
-                onChange={(e) => setDisplayName(e.target.value)}
-                maxLength={50}
-              />
+            <div className="flex gap-2" role="tablist" aria-label="Analysis mode">
+              {(['single', 'thread', 'batch'] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  role="tab"
+                  aria-selected={mode === option}
+                  onClick={() => switchMode(option)}
+                  className={`flex-1 py-2 rounded-lg text-sm font-medium border transition-all ${
+                    mode === option
+                      ? 'bg-purple-600/80 border-purple-400/60 text-white'
+                      : 'bg-slate-800/50 border-purple-500/30 text-purple-300 hover:bg-slate-800'
+                  }`}
+                >
+                  {MODE_LABELS[option]}
+                </button>
+              ))}
             </div>
 
-            <div>
-              <label htmlFor="image" className="block text-sm font-medium text-purple-300 mb-2">
-                Optional Image
+            <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Platform">
+              {[...PLATFORM_KEYS, ...(mode === 'single' ? (['all'] as const) : [])].map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  role="radio"
+                  aria-checked={platform === option}
+                  onClick={() => selectPlatform(option)}
+                  className={`px-3 py-1.5 rounded-full text-xs sm:text-sm font-medium border transition-all ${
+                    platform === option
+                      ? 'bg-blue-600/80 border-blue-400/60 text-white'
+                      : 'bg-slate-800/50 border-purple-500/30 text-purple-300 hover:bg-slate-800'
+                  }`}
+                >
+                  {option === 'all' ? 'All platforms' : PLATFORMS[option].label}
+                </button>
+              ))}
+            </div>
+
+            {platform !== 'all' && PLATFORMS[platform].longPost && (
+              <label className="flex items-center gap-2 text-xs sm:text-sm text-purple-300">
+                <input
+                  type="checkbox"
+                  checked={longPostEnabled}
+                  onChange={(e) => setLongPostEnabled(e.target.checked)}
+                  className="h-4 w-4 rounded border-purple-500/30 bg-slate-800/50 accent-purple-500"
+                />
+                {PLATFORMS[platform].longPost.label} (up to{' '}
+                {PLATFORMS[platform].longPost.maxLength.toLocaleString('en-US')} characters)
               </label>
-              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            )}
+
+            <div>
+              <label className="flex items-center gap-2 text-xs sm:text-sm text-purple-300">
                 <input
-                  id="image"
-                  type="file"
-                  accept="image/*"
-                  onChange={handleImageChange}
-                  ref={fileInputRef}
-                  className="text-sm text-gray-300 file:mr-3 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-purple-600/80 file:text-white hover:file:bg-purple-600"
+                  type="checkbox"
+                  checked={redactPrivateInfo}
+                  onChange={(e) => setRedactPrivateInfo(e.target.checked)}
+                  className="h-4 w-4 rounded border-purple-500/30 bg-slate-800/50 accent-purple-500"
                 />
-                {imageData && (
-                  <button
-                    type="button"
-                    onClick={clearImage}
-                    className="text-xs sm:text-sm text-red-300 hover:text-red-200"
-                  >
-                    Remove image
-                  </button>
+                Redact emails, phone numbers, card numbers and other private details before sending to the model
+              </label>
+              {draftPrivateInfoKinds.length > 0 && (
+                <p className="mt-1 ml-6 text-xs text-yellow-400">
+                  Found: {draftPrivateInfoKinds.map((kind) => PRIVATE_INFO_KINDS[kind].label).join(', ')}
+                  {redactPrivateInfo ? ' (will be masked)' : ''}
+                </p>
+              )}
+            </div>
+
+            {mode === 'batch' ? (
+              <BatchAnalyzer
+                platform={targetPlatform}
+                longPost={longPost}
+                redactPrivateInfo={redactPrivateInfo}
+                ensureSessionToken={ensureSessionToken}
+                refreshSessionToken={fetchSessionToken}
+              />
+            ) : (
+              <>
+                <div>
+                  <label htmlFor="displayName" className="block text-sm font-medium text-purple-300 mb-2">
+                    Your Display Name
+                  </label>
+                  <input
+                    id="displayName"
+                    type="text"
+                    className="w-full px-3 sm:px-4 py-2 sm:py-3 bg-slate-800/50 border border-purple-500/30 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-gray-100 placeholder-gray-500 text-sm sm:text-base"
+                    placeholder="Enter your display name..."
+                    value={displayName}
+                    onChange={(e) => setDisplayName(e.target.value)}
+                    maxLength={MAX_DISPLAY_NAME_LENGTH}
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="image" className="block text-sm font-medium text-purple-300 mb-2">
+                    Optional Images
+                  </label>
+                  <MediaPicker media={media} onChange={setMedia} onError={setError} />
+                </div>
+
+                {mode === 'thread' ? (
+                  <div>
+                    <p className="block text-sm font-medium text-purple-300 mb-2">Your Thread</p>
+                    <ThreadEditor
+                      posts={threadPosts}
+                      platform={targetPlatform}
+                      longPost={longPost}
+                      onChange={setThreadPosts}
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <label htmlFor="post" className="block text-sm font-medium text-purple-300 mb-2">
+                      Your Post
+                    </label>
+                    <textarea
+                      id="post"
+                      rows={6}
+                      className="w-full px-3 sm:px-4 py-2 sm:py-3 bg-slate-800/50 border border-purple-500/30 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none text-gray-100 placeholder-gray-500 text-sm sm:text-base"
+                      placeholder="Enter your post here..."
+                      value={post}
+                      onChange={(e) => setPost(e.target.value)}
+                    />
+                    <div className="flex flex-wrap justify-end gap-x-3 text-xs sm:text-sm mt-1">
+                      {postMeasures.map((measure) => (
+                        <span key={measure.platform} className={measure.fits ? 'text-purple-400' : 'text-red-400'}>
+                          {platform === 'all' && `${PLATFORMS[measure.platform].label} `}
+                          {measure.length}/{measure.maxLength}
+                          {platform !== 'all' && ' characters'}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
                 )}
-              </div>
-              {imageData && (
-                <div className="mt-3 bg-slate-800/50 border border-purple-500/20 rounded-lg p-3">
-                  <p className="text-xs sm:text-sm text-gray-300 mb-2 break-words">{imageName || 'Selected image'}</p>
-                  <div className="relative w-full max-w-xs">
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img
-                      src={imageData}
-                      alt="Selected preview"
-                      className="w-full h-auto rounded-md border border-purple-500/20"
+
+                {error && (
+                  <div className="bg-red-950/50 border border-red-500/30 text-red-400 px-3 sm:px-4 py-2 sm:py-3 rounded-lg flex items-center gap-2 text-sm sm:text-base">
+                    <AlertCircle className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
+                    <span>{error}</span>
+                  </div>
+                )}
+
+                <button
+                  onClick={analyzePost}
+                  disabled={loading || tokenLoading || !displayName.trim() || !hasContent || overLimit}
+                  className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-2.5 sm:py-3 px-4 rounded-lg font-semibold hover:from-purple-700 hover:to-blue-700 disabled:from-gray-700 disabled:to-gray-700 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2 shadow-lg text-sm sm:text-base"
+                >
+                  {uploadProgress !== null && uploadProgress < 1 ? (
+                    <>
+                      <Loader2 className="h-4 w-4 sm:h-5 sm:w-5 animate-spin" />
+                      Uploading {Math.round(uploadProgress * 100)}%...
+                    </>
+                  ) : loading ? (
+                    <>
+                      <Loader2 className="h-4 w-4 sm:h-5 sm:w-5 animate-spin" />
+                      Analyzing...
+                    </>
+                  ) : tokenLoading ? (
+                    <>
+                      <Loader2 className="h-4 w-4 sm:h-5 sm:w-5 animate-spin" />
+                      Preparing...
+                    </>
+                  ) : (
+                    <>
+                      <Sparkles className="h-4 w-4 sm:h-5 sm:w-5" />
+                      {mode === 'thread' ? 'Analyze Thread' : 'Analyze Post'}
+                    </>
+                  )}
+                </button>
+                {uploadProgress !== null && uploadProgress < 1 && (
+                  <div
+                    role="progressbar"
+                    aria-label="Image upload"
+                    aria-valuenow={Math.round(uploadProgress * 100)}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    className="h-1.5 w-full overflow-hidden rounded-full bg-slate-800"
+                  >
+                    <div
+                      className="h-full bg-gradient-to-r from-purple-500 to-blue-500 transition-all"
+                      style={{ width: `${uploadProgress * 100}%` }}
                     />
                   </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {loading && liveProgress && (
+            <div className="mt-6 sm:mt-8 bg-slate-800/30 border border-purple-500/20 rounded-lg p-4 sm:p-6 space-y-3">
+              <div className="flex items-center gap-2 text-sm sm:text-base text-purple-300">
+                <Loader2 className="h-4 w-4 sm:h-5 sm:w-5 animate-spin flex-shrink-0" />
+                <span>{liveProgress.stage}</span>
+              </div>
+              {liveProgress.heuristicFactors && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {FACTOR_DETAILS.filter(
+                    ({ key }) => liveProgress.heuristicFactors?.[key as keyof HeuristicFactors],
+                  ).map(({ key, label }) => (
+                    <div key={key} className="flex items-center gap-2 text-xs sm:text-sm text-red-400">
+                      <XCircle className="h-4 w-4 flex-shrink-0" />
+                      <span>{label}</span>
+                    </div>
+                  ))}
                 </div>
               )}
+              {liveProgress.summary && (
+                <p className="text-gray-300 text-sm sm:text-base">
+                  {liveProgress.summary}
+                  <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-purple-400 animate-pulse" />
+                </p>
+              )}
             </div>
+          )}
 
-            <div>
-              <label htmlFor="post" className="block text-sm font-medium text-purple-300 mb-2">
-                Your Post
-              </label>
-              <textarea
-                id="post"
-                rows={6}
-                className="w-full px-3 sm:px-4 py-2 sm:py-3 bg-slate-800/50 border border-purple-500/30 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none text-gray-100 placeholder-gray-500 text-sm sm:text-base"
-                placeholder="Enter your post here..."
-                value={post}
-                onChange={(e) => setPost(e.target.value)}
-                maxLength={280}
-              />
-              <div className="text-xs sm:text-sm text-purple-400 mt-1 text-right">
-                {post.length}/280 characters
-              </div>
-            </div>
+          {comparison && (
+            <CompareView
+              before={comparison.before}
+              after={comparison.after}
+              onClose={() => setComparison(null)}
+            />
+          )}
 
-            {error && (
-              <div className="bg-red-950/50 border border-red-500/30 text-red-400 px-3 sm:px-4 py-2 sm:py-3 rounded-lg flex items-center gap-2 text-sm sm:text-base">
-                <AlertCircle className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
-                <span>{error}</span>
-              </div>
-            )}
+          {threadResult && <ThreadResults result={threadResult} />}
 
-            <button
-              onClick={analyzePost}
-              disabled={loading || tokenLoading || !displayName.trim() || !post.trim()}
-              className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-2.5 sm:py-3 px-4 rounded-lg font-semibold hover:from-purple-700 hover:to-blue-700 disabled:from-gray-700 disabled:to-gray-700 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2 shadow-lg text-sm sm:text-base"
-            >
-              {loading ? (
-                <>
-                  <Loader2 className="h-4 w-4 sm:h-5 sm:w-5 animate-spin" />
-                  Analyzing...
-                </>
-              ) : tokenLoading ? (
-                <>
-                  <Loader2 className="h-4 w-4 sm:h-5 sm:w-5 animate-spin" />
-                  Preparing...
-                </>
-              ) : (
-                <>
-                  <Sparkles className="h-4 w-4 sm:h-5 sm:w-5" />
-                  Analyze Post
-                </>
-              )}
-            </button>
-          </div>
+          {platformResult && <PlatformResults result={platformResult} onOpen={openPlatformCheck} />}
 
           {result && (
             <div className="mt-6 sm:mt-8 space-y-4 sm:space-y-6">
               <div className={`p-4 sm:p-6 rounded-lg border ${getScoreBackground(result.slopScore)}`}>
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-0 mb-4">
-                  <h2 className="text-lg sm:text-xl font-semibold text-gray-100">Algo Slop Score</h2>
+                  <h2 className="text-lg sm:text-xl font-semibold text-gray-100">
+                    Algo Slop Score
+                    {result.platform && result.platform !== DEFAULT_PLATFORM && (
+                      <span className="ml-2 text-sm font-normal text-gray-400">on {PLATFORMS[result.platform].label}</span>
+                    )}
+                    {result.longPost && <span className="ml-2 text-sm font-normal text-gray-400">(long post)</span>}
+                  </h2>
                   <div className={`text-4xl sm:text-5xl font-bold ${getScoreColor(result.slopScore)}`}>
                     {result.slopScore}
                   </div>
                 </div>
                 <div className="w-full bg-slate-800/50 rounded-full h-3">
                   <div
-                    className={`h-3 rounded-full transition-all duration-500 ${
-                      result.slopScore < 30
-                        ? 'bg-gradient-to-r from-green-500 to-green-400'
-                        : result.slopScore < 60
-                        ? 'bg-gradient-to-r from-yellow-500 to-yellow-400'
-                        : 'bg-gradient-to-r from-red-500 to-red-400'
-                    }`}
+                    className={`h-3 rounded-full transition-all duration-500 ${getScoreBarColor(result.slopScore)}`}
                     style={{ width: `${result.slopScore}%` }}
                   />
                 </div>
                 <p className="mt-3 sm:mt-4 text-gray-300 text-sm sm:text-base">{result.summary}</p>
+                {result.degraded && (
+                  <p className="mt-2 flex items-center gap-2 text-xs sm:text-sm text-yellow-300">
+                    <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                    {result.degradedReason === 'budget'
+                      ? 'Reduced mode: the usage budget is used up, so only locally measured signals were checked.'
+                      : 'Offline mode: only locally measured signals were checked.'}
+                  </p>
+                )}
+                {result.cache?.hit && (
+                  <p className="mt-2 flex items-center gap-2 text-xs sm:text-sm text-purple-300">
+                    <History className="h-4 w-4 flex-shrink-0" />
+                    Cached result, refreshes in {formatTtl(result.cache.ttlSeconds)}. This did not use a rate limit slot.
+                  </p>
+                )}
+                {result.model && result.promptVersion && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    Scored by {result.model} with prompt {result.promptVersion}
+                  </p>
+                )}
               </div>
 
+              {result.evidence && analyzedInput && (
+                <div ref={evidenceRef} className="bg-slate-800/30 border border-purple-500/20 rounded-lg p-4 sm:p-6">
+                  <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 text-purple-300">What Was Flagged</h3>
+                  <EvidenceHighlights
+                    post={analyzedInput.post}
+                    evidence={result.evidence}
+                    activeFactor={activeEvidence}
+                  />
+                  <p className="mt-3 text-xs text-gray-500">
+                    Hover a highlight to see its factor, or pick a factor below to find its text.
+                  </p>
+                </div>
+              )}
+
               <div className="bg-slate-800/30 border border-purple-500/20 rounded-lg p-4 sm:p-6">
                 <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 text-purple-300">Factors Detected</h3>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3">
-                  {activeFactors.length === 0 && (
-                    <div className="flex items-center gap-2 text-slate-300 text-sm sm:text-base">
-                      <Sparkles className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
-                      <span>No notable signals flagged.</span>
-                    </div>
-                  )}
-                  {activeFactors.map(({ key, label, sentiment }) => {
-                    const IconComponent = sentiment === 'positive' ? CheckCircle : XCircle;
-                    const colorClass = sentiment === 'positive' ? 'text-green-400' : 'text-red-400';
-
-                    return (
-                      <div
-                        key={key}
-                        className={`flex items-center gap-2 text-sm sm:text-base ${colorClass}`}
-                      >
-                        <IconComponent className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
-                        <span>{label}</span>
+                <FactorList
+                  result={result}
+                  onFocusEvidence={analyzedInput ? focusEvidence : undefined}
+                  activeEvidence={activeEvidence}
+                />
+              </div>
+
+              {result.media && result.media.length > 0 && (
+                <div className="bg-slate-800/30 border border-purple-500/20 rounded-lg p-4 sm:p-6">
+                  <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 text-purple-300">Image Findings</h3>
+                  <MediaResults media={result.media} previews={analyzedMedia} />
+                </div>
+              )}
+
+              {result.privateInfo && result.privateInfo.matches.length > 0 && (
+                <div className="bg-slate-800/30 border border-purple-500/20 rounded-lg p-4 sm:p-6">
+                  <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 text-purple-300">
+                    Private Information
+                  </h3>
+                  <PrivateInfoResults report={result.privateInfo} post={analyzedInput?.post} />
+                </div>
+              )}
+
+              {result.links && result.links.length > 0 && (
+                <div className="bg-slate-800/30 border border-purple-500/20 rounded-lg p-4 sm:p-6">
+                  <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 text-purple-300">Links</h3>
+                  <LinkResults links={result.links} />
+                </div>
+              )}
+
+              {result.measurements && (
+                <div className="bg-slate-800/30 border border-purple-500/20 rounded-lg p-4 sm:p-6">
+                  <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 text-purple-300">Measured Signals</h3>
+                  <dl className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-3 text-xs sm:text-sm">
+                    {measurementDetails.map(({ key, label, format }) => (
+                      <div key={key} className="bg-slate-900/40 rounded-md px-3 py-2">
+                        <dt className="text-gray-400">{label}</dt>
+                        <dd className="text-gray-100 font-semibold">{format(result.measurements?.[key] ?? 0)}</dd>
                       </div>
-                    );
-                  })}
+                    ))}
+                  </dl>
                 </div>
-              </div>
+              )}
 
               {result.recommendations && result.recommendations.length > 0 && (
                 <div className="bg-blue-950/30 border border-blue-500/30 rounded-lg p-4 sm:p-6">
@@ -519,6 +923,28 @@ export default function PostAnalyzer() {
                   </ul>
                 </div>
               )}
+
+              {analyzedInput && (
+                <SharePanel
+                  key={`share-${result.resultId ?? analyzedInput.post}`}
+                  result={result}
+                  ensureSessionToken={ensureSessionToken}
+                  refreshSessionToken={fetchSessionToken}
+                />
+              )}
+
+              {analyzedInput && (
+                <RewritePanel
+                  key={analyzedInput.post}
+                  post={analyzedInput.post}
+                  displayName={analyzedInput.displayName}
+                  analysis={result}
+                  redactPrivateInfo={redactPrivateInfo}
+                  ensureSessionToken={ensureSessionToken}
+                  refreshSessionToken={fetchSessionToken}
+                  onUseDraft={applyDraft}
+                />
+              )}
             </div>
           )}
         </div>
@@ -784,6 +1210,16 @@ export default function PostAnalyzer() {
           </div>
         </div>
 
+        {historyOpen && (
+          <HistorySidebar
+            entries={history}
+            onClose={() => setHistoryOpen(false)}
+            onReopen={reopenEntry}
+            onDelete={deleteEntry}
+            onCompare={openComparison}
+          />
+        )}
+
         {/* Disclaimer */}
         <div className="mt-6 text-center text-xs sm:text-sm text-gray-400">
           Factors are taken from my look at X’s open‑source algorithm, but
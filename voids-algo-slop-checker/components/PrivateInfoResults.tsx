@@ -0,0 +1,49 @@
+'use client';
+
+import { EyeOff, ShieldAlert } from 'lucide-react';
+import type { PrivateInfoReport } from '@/lib/analysisResult';
+import { PRIVATE_INFO_KINDS } from '@/lib/privateInfo';
+
+interface PrivateInfoResultsProps {
+  report: PrivateInfoReport;
+  // The analyzed post, to show the matched text. Left out when it is not at hand.
+  post?: string;
+}
+
+export default function PrivateInfoResults({ report, post }: PrivateInfoResultsProps) {
+  const { matches, redacted } = report;
+
+  return (
+    <div className="space-y-3">
+      <p className="flex items-center gap-2 text-xs sm:text-sm text-gray-400">
+        {redacted ? (
+          <>
+            <EyeOff className="h-4 w-4 flex-shrink-0 text-green-400" />
+            These were masked before the post was sent to the model.
+          </>
+        ) : (
+          <>
+            <ShieldAlert className="h-4 w-4 flex-shrink-0 text-yellow-400" />
+            These were sent to the model as written. Turn on redaction to mask them next time.
+          </>
+        )}
+      </p>
+      <ul className="space-y-1.5">
+        {matches.map(({ kind, start, end }, index) => (
+          <li
+            key={index}
+            className="flex flex-wrap items-center gap-x-2 gap-y-1 bg-slate-800/50 border border-purple-500/20 rounded-lg px-3 py-2 text-xs sm:text-sm"
+          >
+            <span className="font-medium text-red-400">{PRIVATE_INFO_KINDS[kind].label}</span>
+            {post && <code className="break-all text-gray-200">{post.slice(start, end)}</code>}
+            {redacted && (
+              <span className="text-gray-500">
+                sent as <code className="text-gray-300">{PRIVATE_INFO_KINDS[kind].placeholder}</code>
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertCircle, Loader2, Wand2 } from 'lucide-react';
+import type { AnalysisResult } from '@/lib/analysisResult';
+import { parseRewriteResponse, type RewriteCandidate, type RewriteResponse } from '@/lib/rewrite';
+import { SESSION_HEADER_NAME } from '@/lib/sessionConstants';
+import { diffWords } from '@/lib/wordDiff';
+import { getScoreColor } from './analysisDisplay';
+
+interface RewritePanelProps {
+  post: string;
+  displayName: string;
+  analysis: AnalysisResult;
+  redactPrivateInfo: boolean;
+  ensureSessionToken: () => Promise<string | null>;
+  refreshSessionToken: () => Promise<string | null>;
+  onUseDraft: (candidate: RewriteCandidate) => void;
+}
+
+const toRecord = (value: unknown): Record<string, unknown> | null =>
+  typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : null;
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+const getDeltaColor = (delta: number) => {
+  if (delta < 0) return 'text-green-400';
+  if (delta > 0) return 'text-red-400';
+  return 'text-gray-400';
+};
+
+export default function RewritePanel({
+  post,
+  displayName,
+  analysis,
+  redactPrivateInfo,
+  ensureSessionToken,
+  refreshSessionToken,
+  onUseDraft,
+}: RewritePanelProps) {
+  const [loading, setLoading] = useState(false);
+  const [rewrites, setRewrites] = useState<RewriteResponse | null>(null);
+  const [error, setError] = useState('');
+  const candidates = rewrites?.candidates ?? null;
+
+  const requestRewrites = async () => {
+    setError('');
+    setRewrites(null);
+
+    const token = await ensureSessionToken();
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/rewrite', {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          [SESSION_HEADER_NAME]: token,
+        },
+        body: JSON.stringify({ post, displayName, analysis, redactPrivateInfo }),
+      });
+
+      const parsed: unknown = await response.json().catch(() => null);
+      const payload = toRecord(parsed);
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          await refreshSessionToken();
+          setError('Your session expired. Please try again.');
+          return;
+        }
+
+        if (response.status === 429) {
+          const retryValue = payload?.['retryAfter'];
+          const retryAfter = typeof retryValue === 'number' ? retryValue : 30;
+          setError(`Too many requests. Please wait ${retryAfter} seconds before trying again.`);
+          return;
+        }
+
+        const errorMessage = payload?.['error'];
+        setError(typeof errorMessage === 'string' ? errorMessage : 'Failed to generate rewrites.');
+        return;
+      }
+
+      const parsedRewrites = parseRewriteResponse(parsed);
+      if (!parsedRewrites) {
+        throw new Error('Rewrite response did not match the expected format');
+      }
+
+      setRewrites(parsedRewrites);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to generate rewrites. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-purple-950/30 border border-purple-500/30 rounded-lg p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-3 sm:mb-4">
+        <h3 className="text-base sm:text-lg font-semibold flex items-center gap-2 text-purple-300">
+          <Wand2 className="h-4 w-4 sm:h-5 sm:w-5" />
+          Suggested Rewrites
+        </h3>
+        <button
+          type="button"
+          onClick={requestRewrites}
+          disabled={loading}
+          className="flex items-center justify-center gap-2 px-3 py-1.5 rounded-md bg-purple-600/80 text-white text-sm font-semibold hover:bg-purple-600 disabled:bg-gray-700 disabled:cursor-not-allowed"
+        >
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wand2 className="h-4 w-4" />}
+          {loading ? 'Writing drafts...' : candidates ? 'Try again' : 'Suggest rewrites'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 flex items-center gap-2 text-sm text-red-400">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {candidates && candidates.length === 0 && (
+        <p className="text-sm text-gray-400">No usable drafts this time. Try again for a new set.</p>
+      )}
+
+      {rewrites && rewrites.candidates.length > 0 && (
+        <p className="mb-3 text-xs sm:text-sm text-gray-400">
+          Changes are against the original re-scored as text only, like the drafts:{' '}
+          <span className={`font-semibold ${getScoreColor(rewrites.originalScore)}`}>{rewrites.originalScore}</span>
+        </p>
+      )}
+
+      {candidates && candidates.length > 0 && (
+        <ul className="space-y-3">
+          {candidates.map((candidate, index) => (
+            <li key={index} className="bg-slate-900/50 border border-purple-500/20 rounded-lg p-3">
+              <div className="flex items-center justify-between mb-2 text-sm">
+                <span className="text-gray-400">Draft {index + 1}</span>
+                <span>
+                  <span className={`font-bold ${getScoreColor(candidate.result.slopScore)}`}>
+                    {candidate.result.slopScore}
+                  </span>
+                  <span className={`ml-2 text-xs ${getDeltaColor(candidate.scoreDelta)}`}>
+                    ({formatDelta(candidate.scoreDelta)})
+                  </span>
+                </span>
+              </div>
+              <p className="text-sm sm:text-base text-gray-200 whitespace-pre-wrap break-words">
+                {diffWords(post, candidate.text).map((segment, segmentIndex) => {
+                  if (segment.type === 'added') {
+                    return (
+                      <ins key={segmentIndex} className="no-underline bg-green-500/20 text-green-300 rounded-sm">
+                        {segment.text}
+                      </ins>
+                    );
+                  }
+                  if (segment.type === 'removed') {
+                    return (
+                      <del key={segmentIndex} className="bg-red-500/20 text-red-300/80 rounded-sm">
+                        {segment.text}
+                      </del>
+                    );
+                  }
+                  return <span key={segmentIndex}>{segment.text}</span>;
+                })}
+              </p>
+              <button
+                type="button"
+                onClick={() => onUseDraft(candidate)}
+                className="mt-3 text-xs sm:text-sm font-semibold text-purple-300 hover:text-purple-100"
+              >
+                Use this draft
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertCircle, Check, Copy, Link2, Loader2 } from 'lucide-react';
+import type { AnalysisResult } from '@/lib/analysisResult';
+import { SESSION_HEADER_NAME } from '@/lib/sessionConstants';
+
+interface SharePanelProps {
+  result: AnalysisResult;
+  ensureSessionToken: () => Promise<string | null>;
+  refreshSessionToken: () => Promise<string | null>;
+}
+
+const toRecord = (value: unknown): Record<string, unknown> | null =>
+  typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : null;
+
+export default function SharePanel({
+  result,
+  ensureSessionToken,
+  refreshSessionToken,
+}: SharePanelProps) {
+  const [redact, setRedact] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [shareUrl, setShareUrl] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  const createLink = async () => {
+    setError('');
+    setShareUrl('');
+    setCopied(false);
+
+    const token = await ensureSessionToken();
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/share', {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+          [SESSION_HEADER_NAME]: token,
+        },
+        body: JSON.stringify({ resultId: result.resultId, redact }),
+      });
+
+      const payload = toRecord(await response.json().catch(() => null));
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          await refreshSessionToken();
+          setError('Your session expired. Please try again.');
+          return;
+        }
+
+        const errorMessage = payload?.['error'];
+        setError(typeof errorMessage === 'string' ? errorMessage : 'Failed to create a share link.');
+        return;
+      }
+
+      const url = payload?.['url'];
+      if (typeof url !== 'string') {
+        throw new Error('Share response did not include a URL');
+      }
+
+      setShareUrl(url);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to create a share link. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+    } catch (err) {
+      console.error('Failed to copy share link', err);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/30 border border-purple-500/20 rounded-lg p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <h3 className="text-base sm:text-lg font-semibold flex items-center gap-2 text-purple-300">
+          <Link2 className="h-4 w-4 sm:h-5 sm:w-5" />
+          Share Result
+        </h3>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-300">
+            <input
+              type="checkbox"
+              className="accent-purple-500"
+              checked={redact}
+              onChange={(event) => setRedact(event.target.checked)}
+            />
+            Hide post text
+          </label>
+          <button
+            type="button"
+            onClick={createLink}
+            disabled={loading || !result.resultId}
+            className="flex items-center justify-center gap-2 px-3 py-1.5 rounded-md bg-purple-600/80 text-white text-sm font-semibold hover:bg-purple-600 disabled:bg-gray-700 disabled:cursor-not-allowed"
+          >
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+            {loading ? 'Creating...' : 'Create link'}
+          </button>
+        </div>
+      </div>
+
+      {!result.resultId && (
+        <p className="mt-3 text-xs sm:text-sm text-gray-400">
+          Only fresh results can be shared. Analyze the post again to create a link.
+        </p>
+      )}
+
+      {error && (
+        <div className="mt-3 flex items-center gap-2 text-sm text-red-400">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {shareUrl && (
+        <div className="mt-3 flex items-center gap-2">
+          <input
+            readOnly
+            value={shareUrl}
+            onFocus={(event) => event.target.select()}
+            className="flex-1 min-w-0 px-3 py-1.5 bg-slate-900/50 border border-purple-500/30 rounded-md text-sm text-gray-200"
+          />
+          <button
+            type="button"
+            onClick={copyLink}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-md border border-purple-500/30 text-sm text-purple-300 hover:text-purple-100"
+          >
+            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { measureForPlatform } from '@/lib/platformCheck';
+import type { Platform } from '@/lib/platforms';
+import { MAX_THREAD_POSTS } from '@/lib/thread';
+
+interface ThreadEditorProps {
+  posts: string[];
+  platform: Platform;
+  longPost: boolean;
+  onChange: (posts: string[]) => void;
+}
+
+export default function ThreadEditor({ posts, platform, longPost, onChange }: ThreadEditorProps) {
+  const updatePost = (index: number, value: string) => {
+    onChange(posts.map((post, i) => (i === index ? value : post)));
+  };
+
+  const movePost = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= posts.length) return;
+    const next = [...posts];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const removePost = (index: number) => {
+    onChange(posts.filter((_, i) => i !== index));
+  };
+
+  const addPost = () => {
+    if (posts.length >= MAX_THREAD_POSTS) return;
+    onChange([...posts, '']);
+  };
+
+  const iconButtonClass =
+    'p-1.5 rounded-md text-purple-300 hover:text-purple-100 hover:bg-purple-500/20 disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed';
+
+  return (
+    <div className="space-y-3">
+      {posts.map((post, index) => {
+        const { length, maxLength, fits } = measureForPlatform(post, platform, longPost);
+
+        return (
+          <div key={index} className="bg-slate-800/30 border border-purple-500/20 rounded-lg p-3">
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor={`thread-post-${index}`} className="text-xs sm:text-sm font-medium text-purple-300">
+                Post {index + 1}
+                {index === 0 && <span className="ml-2 text-gray-400 font-normal">(hook)</span>}
+              </label>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => movePost(index, -1)}
+                  disabled={index === 0}
+                  className={iconButtonClass}
+                  aria-label={`Move post ${index + 1} up`}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => movePost(index, 1)}
+                  disabled={index === posts.length - 1}
+                  className={iconButtonClass}
+                  aria-label={`Move post ${index + 1} down`}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removePost(index)}
+                  disabled={posts.length <= 1}
+                  className={iconButtonClass}
+                  aria-label={`Remove post ${index + 1}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+            <textarea
+              id={`thread-post-${index}`}
+              rows={3}
+              className="w-full px-3 sm:px-4 py-2 bg-slate-800/50 border border-purple-500/30 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none text-gray-100 placeholder-gray-500 text-sm sm:text-base"
+              placeholder={index === 0 ? 'Open the thread with a strong hook...' : 'Continue the thread...'}
+              value={post}
+              onChange={(e) => updatePost(index, e.target.value)}
+            />
+            <div className={`text-xs mt-1 text-right ${fits ? 'text-purple-400' : 'text-red-400'}`}>
+              {length}/{maxLength} characters
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={addPost}
+        disabled={posts.length >= MAX_THREAD_POSTS}
+        className="w-full flex items-center justify-center gap-2 py-2 rounded-lg border border-dashed border-purple-500/40 text-purple-300 hover:bg-purple-500/10 disabled:opacity-40 disabled:cursor-not-allowed text-sm"
+      >
+        <Plus className="h-4 w-4" />
+        Add post ({posts.length}/{MAX_THREAD_POSTS})
+      </button>
+    </div>
+  );
+}
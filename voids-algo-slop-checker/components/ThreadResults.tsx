@@ -0,0 +1,133 @@
+'use client';
+
+import { CheckCircle, TrendingUp, XCircle } from 'lucide-react';
+import type { ThreadAnalysisResult, ThreadFactorKey } from '@/lib/thread';
+import { FACTOR_DETAILS, getScoreBackground, getScoreBarColor, getScoreColor } from './analysisDisplay';
+
+const THREAD_FACTOR_LABELS: Array<{ key: ThreadFactorKey; label: string }> = [
+  { key: 'weakHook', label: 'Weak opening hook' },
+  { key: 'redundantPosts', label: 'Posts repeat each other' },
+  { key: 'numberingSpam', label: 'Numbering or thread emoji spam' },
+  { key: 'misplacedLink', label: 'Link placed before the final post' },
+];
+
+interface ThreadResultsProps {
+  result: ThreadAnalysisResult;
+}
+
+export default function ThreadResults({ result }: ThreadResultsProps) {
+  const { thread, posts } = result;
+  const activeThreadFactors = THREAD_FACTOR_LABELS.filter(({ key }) => thread.factors[key]);
+
+  return (
+    <div className="mt-6 sm:mt-8 space-y-4 sm:space-y-6">
+      <div className={`p-4 sm:p-6 rounded-lg border ${getScoreBackground(thread.threadScore)}`}>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 sm:gap-0 mb-4">
+          <div>
+            <h2 className="text-lg sm:text-xl font-semibold text-gray-100">Thread Slop Score</h2>
+            <p className="text-xs sm:text-sm text-gray-400">Hook strength {thread.hookStrength}/100</p>
+          </div>
+          <div className={`text-4xl sm:text-5xl font-bold ${getScoreColor(thread.threadScore)}`}>
+            {thread.threadScore}
+          </div>
+        </div>
+        <div className="w-full bg-slate-800/50 rounded-full h-3">
+          <div
+            className={`h-3 rounded-full transition-all duration-500 ${getScoreBarColor(thread.threadScore)}`}
+            style={{ width: `${thread.threadScore}%` }}
+          />
+        </div>
+        <p className="mt-3 sm:mt-4 text-gray-300 text-sm sm:text-base">{thread.summary}</p>
+      </div>
+
+      <div className="bg-slate-800/30 border border-purple-500/20 rounded-lg p-4 sm:p-6">
+        <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 text-purple-300">Thread Factors</h3>
+        {activeThreadFactors.length === 0 ? (
+          <div className="flex items-center gap-2 text-green-400 text-sm sm:text-base">
+            <CheckCircle className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
+            <span>No structural issues found.</span>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3">
+            {activeThreadFactors.map(({ key, label }) => (
+              <div key={key} className="flex items-center gap-2 text-sm sm:text-base text-red-400">
+                <XCircle className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
+                <span>{label}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {thread.redundantPairs.length > 0 && (
+          <p className="mt-3 text-xs sm:text-sm text-gray-400">
+            Overlapping posts:{' '}
+            {thread.redundantPairs.map(([left, right]) => `${left + 1} & ${right + 1}`).join(', ')}
+          </p>
+        )}
+        {thread.misplacedLinkPosts.length > 0 && (
+          <p className="mt-1 text-xs sm:text-sm text-gray-400">
+            Links found in post{thread.misplacedLinkPosts.length === 1 ? '' : 's'}{' '}
+            {thread.misplacedLinkPosts.map((index) => index + 1).join(', ')}
+          </p>
+        )}
+      </div>
+
+      {thread.recommendations.length > 0 && (
+        <div className="bg-blue-950/30 border border-blue-500/30 rounded-lg p-4 sm:p-6">
+          <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 flex items-center gap-2 text-blue-300">
+            <TrendingUp className="h-4 w-4 sm:h-5 sm:w-5" />
+            Thread Recommendations
+          </h3>
+          <ul className="space-y-2">
+            {thread.recommendations.map((rec, index) => (
+              <li key={index} className="flex items-start gap-2 text-sm sm:text-base">
+                <span className="text-blue-400 mt-0.5 sm:mt-1">•</span>
+                <span className="text-gray-300">{rec}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {posts.map((post, index) => {
+          const factors = FACTOR_DETAILS.filter(({ key }) => post.factors[key]);
+
+          return (
+            <details key={index} className="bg-slate-800/30 border border-purple-500/20 rounded-lg p-3 sm:p-4">
+              <summary className="flex items-center justify-between cursor-pointer text-sm sm:text-base">
+                <span className="text-purple-300 font-medium">Post {index + 1}</span>
+                <span className={`font-bold ${getScoreColor(post.slopScore)}`}>{post.slopScore}</span>
+              </summary>
+              <p className="mt-3 text-gray-300 text-sm">{post.summary}</p>
+              {factors.length > 0 && (
+                <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {factors.map(({ key, label, sentiment }) => {
+                    const IconComponent = sentiment === 'positive' ? CheckCircle : XCircle;
+                    const colorClass = sentiment === 'positive' ? 'text-green-400' : 'text-red-400';
+
+                    return (
+                      <div key={key} className={`flex items-center gap-2 text-xs sm:text-sm ${colorClass}`}>
+                        <IconComponent className="h-4 w-4 flex-shrink-0" />
+                        <span>{label}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              {post.recommendations.length > 0 && (
+                <ul className="mt-3 space-y-1">
+                  {post.recommendations.map((rec, recIndex) => (
+                    <li key={recIndex} className="flex items-start gap-2 text-xs sm:text-sm">
+                      <span className="text-blue-400">•</span>
+                      <span className="text-gray-300">{rec}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </details>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
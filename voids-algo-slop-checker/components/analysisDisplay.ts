@@ -0,0 +1,85 @@
+import type { FactorConfidence, FactorEvidence } from '@/lib/analysisResult';
+import { FACTOR_DETAILS, type FactorKey } from '@/lib/factors';
+
+export const getScoreColor = (score: number) => {
+  if (score < 30) return 'text-green-400';
+  if (score < 60) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+export const getScoreBackground = (score: number) => {
+  if (score < 30) return 'bg-green-900/30 border-green-500/30';
+  if (score < 60) return 'bg-yellow-900/30 border-yellow-500/30';
+  return 'bg-red-900/30 border-red-500/30';
+};
+
+export { FACTOR_DETAILS };
+
+export const getScoreBarColor = (score: number) => {
+  if (score < 30) return 'bg-gradient-to-r from-green-500 to-green-400';
+  if (score < 60) return 'bg-gradient-to-r from-yellow-500 to-yellow-400';
+  return 'bg-gradient-to-r from-red-500 to-red-400';
+};
+
+// Plain hex values for places Tailwind classes do not reach, such as
+// generated preview images.
+export const getScoreHex = (score: number) => {
+  if (score < 30) return '#4ade80';
+  if (score < 60) return '#facc15';
+  return '#f87171';
+};
+
+// Flagged factors with the negative ones first, for compact summaries.
+export const getTopFactors = (factors: Partial<Record<FactorKey, boolean>>, limit: number) =>
+  FACTOR_DETAILS.filter(({ key }) => factors[key])
+    .sort((a, b) => Number(a.sentiment === 'positive') - Number(b.sentiment === 'positive'))
+    .slice(0, limit);
+
+const HIGHLIGHT_COLORS = [
+  'bg-rose-500/30 border-rose-400',
+  'bg-amber-500/30 border-amber-400',
+  'bg-sky-500/30 border-sky-400',
+  'bg-fuchsia-500/30 border-fuchsia-400',
+  'bg-emerald-500/30 border-emerald-400',
+  'bg-orange-500/30 border-orange-400',
+  'bg-indigo-500/30 border-indigo-400',
+  'bg-teal-500/30 border-teal-400',
+];
+
+// One highlight color per factor with evidence, in registry order, so the
+// post highlights and the factor list match.
+export const getEvidenceColors = (evidence: FactorEvidence | undefined) =>
+  Object.fromEntries(
+    FACTOR_DETAILS.filter(({ key }) => evidence?.[key]?.length).map(({ key }, index) => [
+      key,
+      HIGHLIGHT_COLORS[index % HIGHLIGHT_COLORS.length],
+    ]),
+  ) as Partial<Record<FactorKey, string>>;
+
+// Flagged factors at or above this confidence are shown as definite, the
+// rest as borderline. Unflagged factors at or above NEAR_MISS_CONFIDENCE are
+// borderline too.
+export const DEFINITE_CONFIDENCE = 0.8;
+export const NEAR_MISS_CONFIDENCE = 0.3;
+
+export type FactorCertainty = 'definite' | 'borderline';
+
+// Flagged factors plus near misses, grouped by certainty. Without
+// confidences every flagged factor counts as definite.
+export const groupFactorsByCertainty = (
+  factors: Partial<Record<FactorKey, boolean>>,
+  confidence: FactorConfidence | undefined,
+) =>
+  FACTOR_DETAILS.reduce<Record<FactorCertainty, Array<(typeof FACTOR_DETAILS)[number] & { flagged: boolean }>>>(
+    (groups, detail) => {
+      const flagged = Boolean(factors[detail.key]);
+      const score = confidence?.[detail.key];
+      if (flagged && (score === undefined || score >= DEFINITE_CONFIDENCE)) {
+        groups.definite.push({ ...detail, flagged });
+      } else if (score !== undefined && (flagged || score >= NEAR_MISS_CONFIDENCE)) {
+        groups.borderline.push({ ...detail, flagged });
+      }
+      return groups;
+    },
+    { definite: [], borderline: [] },
+  );
@@ -0,0 +1,93 @@
+import type { AnalysisResult, HeuristicMeasurements } from './analysisResult';
+import type { HeuristicFactors } from './heuristics';
+
+// Progress events emitted while a single post is analyzed. Streamed to the
+// browser as Server-Sent Events when the client asks for text/event-stream.
+export type AnalysisProgressEvent =
+  | { type: 'validated' }
+  | { type: 'heuristics'; factors: HeuristicFactors; measurements: HeuristicMeasurements }
+  | { type: 'model-started'; attempt: number }
+  | { type: 'summary'; text: string }
+  | { type: 'result'; result: AnalysisResult }
+  | { type: 'error'; error: string; code?: string };
+
+export type AnalysisProgressListener = (event: AnalysisProgressEvent) => void;
+
+export const EVENT_STREAM_CONTENT_TYPE = 'text/event-stream';
+
+export const formatServerSentEvent = (event: AnalysisProgressEvent) =>
+  `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+// Reads an SSE response body and hands every decoded event to `onEvent`.
+// Only the `data:` lines are used; the payload repeats the event type.
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AnalysisProgressEvent) => void,
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  const flush = (block: string) => {
+    const data = block
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+    if (!data) return;
+
+    try {
+      onEvent(JSON.parse(data) as AnalysisProgressEvent);
+    } catch (error) {
+      console.error('Failed to parse analysis event', error);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffered += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+    const blocks = buffered.split('\n\n');
+    buffered = blocks.pop() ?? '';
+    blocks.forEach(flush);
+  }
+
+  if (buffered.trim()) {
+    flush(buffered);
+  }
+}
+
+// Pulls the (possibly unterminated) value of a top-level string field out of a
+// JSON document that is still being streamed, so a partial summary can be
+// shown before the model finishes.
+export function extractPartialStringField(json: string, field: string) {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(json);
+  if (!match) return null;
+
+  let value = '';
+  for (let i = match.index + match[0].length; i < json.length; i += 1) {
+    const char = json[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    const next = json[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = json.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(Number.parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+    value += escapes[next] ?? next;
+    i += 1;
+  }
+
+  return value;
+}
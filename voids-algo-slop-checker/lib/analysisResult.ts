@@ -0,0 +1,103 @@
+import type { AnalysisFactors, FactorKey } from './factors';
+import type { LinkResult } from './links';
+import type { MediaFindings } from './media';
+import type { Platform } from './platforms';
+import type { PrivateInfoMatch } from './privateInfo';
+
+export { DEFAULT_FACTORS, type AnalysisFactors, type FactorKey } from './factors';
+
+// Values measured locally by the heuristic engine rather than judged by the model.
+export interface HeuristicMeasurements {
+  characterCount: number;
+  wordCount: number;
+  hashtagCount: number;
+  mentionCount: number;
+  linkCount: number;
+  capsRatio: number;
+  whitespaceRatio: number;
+  tokenEntropy: number;
+  lengthCurvePosition: number;
+}
+
+export type DegradedReason = 'unavailable' | 'budget';
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'gif' | 'bmp';
+
+// The attached image as uploaded, after orientation is applied. The model
+// sees a downscaled copy without metadata.
+export interface ImageMetadata {
+  format: ImageFormat;
+  width: number;
+  height: number;
+  // Width divided by height.
+  aspectRatio: number;
+  // Animated GIFs only: the number of frames in the file.
+  frameCount?: number;
+}
+
+// One attached image as reported back: what the pipeline measured and what
+// the model found in it. Findings are missing when the model could not view
+// the image.
+export interface MediaResult {
+  name?: string;
+  metadata?: ImageMetadata;
+  findings?: MediaFindings;
+}
+
+// A character range [start, end) into the post, in UTF-16 code units (the
+// same offsets as `String.prototype.slice`).
+export interface EvidenceSpan {
+  start: number;
+  end: number;
+}
+
+// The text that triggered each flagged factor. Factors that are not tied to
+// specific words (the image, the display name, length) have no entry.
+export type FactorEvidence = Partial<Record<FactorKey, EvidenceSpan[]>>;
+
+// How sure the analysis is that each factor applies, from 0 to 1. Locally
+// measured factors are always 0 or 1.
+export type FactorConfidence = Partial<Record<FactorKey, number>>;
+
+// Personal details found locally in the post. `redacted` is set when they were
+// replaced with placeholders before the post was sent to the model.
+export interface PrivateInfoReport {
+  matches: PrivateInfoMatch[];
+  redacted: boolean;
+}
+
+export interface AnalysisResult {
+  slopScore: number;
+  factors: AnalysisFactors;
+  summary: string;
+  recommendations: string[];
+  // Set when the prompt asks for confidences; the booleans in `factors` are
+  // still authoritative and already reflect the flagging thresholds.
+  confidence?: FactorConfidence;
+  evidence?: FactorEvidence;
+  measurements?: HeuristicMeasurements;
+  // One entry per attached image, in the order they were attached.
+  media?: MediaResult[];
+  privateInfo?: PrivateInfoReport;
+  // Every link in the post, in order, with per-link findings and suggestions.
+  links?: LinkResult[];
+  // Set when only the local heuristics contributed to the result, either
+  // because the language model could not be reached or because the spend
+  // budget ran out.
+  degraded?: boolean;
+  degradedReason?: DegradedReason;
+  // Which prompt template and model produced the result. Heuristic-only
+  // results report the heuristics version and `heuristics` as the model.
+  promptVersion?: string;
+  model?: string;
+  // Name of the prompt experiment whose candidate produced the result.
+  experiment?: string;
+  // The network the post was checked for. Results without one are for X.
+  platform?: Platform;
+  // Set when the post was checked as a long post (X Premium).
+  longPost?: boolean;
+  // Present when the result was served from the result cache.
+  cache?: { hit: boolean; ttlSeconds: number };
+  // Single-post results only: the id to share this result by, valid for a day.
+  resultId?: string;
+}
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { FACTOR_KEYS, parseAnalysisResult, validateAnalysis } from './analysisSchema';
+
+const factors = Object.fromEntries(FACTOR_KEYS.map((key) => [key, key === 'spam']));
+
+const reply = (overrides: Record<string, unknown> = {}) => ({
+  slopScore: 40,
+  factors,
+  summary: 'Reads like an ad.',
+  recommendations: ['Drop the giveaway line'],
+  ...overrides,
+});
+
+test('accepts a well-formed reply without repairs', () => {
+  const validation = validateAnalysis(reply());
+  assert.deepEqual(validation, {
+    valid: true,
+    value: { slopScore: 40, factors, summary: 'Reads like an ad.', recommendations: ['Drop the giveaway line'] },
+    repairs: [],
+  });
+});
+
+test('repairs small, unambiguous problems and reports them', () => {
+  const validation = validateAnalysis(
+    reply({
+      slopScore: '42.6',
+      factors: { ...factors, spam: 'true' },
+      recommendations: ' Drop the giveaway line ',
+      confidence: { spam: 85, hasLinks: 'nope' },
+    }),
+  );
+
+  assert.ok(validation.valid);
+  assert.equal(validation.value.slopScore, 43);
+  assert.equal(validation.value.factors.spam, true);
+  assert.deepEqual(validation.value.recommendations, ['Drop the giveaway line']);
+  assert.deepEqual(validation.value.confidence, { spam: 0.85 });
+  assert.deepEqual(validation.repairs, [
+    'slopScore was a numeric string',
+    'slopScore was rounded to an integer',
+    'factors.spam was a string',
+    'recommendations was a single string',
+    'confidence.hasLinks was not a number from 0 to 1 and was dropped',
+    'confidence.spam was a percentage',
+  ]);
+});
+
+test('reports every issue it cannot repair', () => {
+  const withoutSpam = Object.fromEntries(Object.entries(factors).filter(([key]) => key !== 'spam'));
+  assert.deepEqual(validateAnalysis(reply({ slopScore: 140, factors: withoutSpam, summary: ' ', recommendations: [1] })), {
+    valid: false,
+    issues: [
+      'slopScore 140 is outside the 0-100 range',
+      'factors.spam is missing',
+      'recommendations must only contain strings',
+      'summary must be a non-empty string',
+    ],
+  });
+  assert.deepEqual(validateAnalysis([]), { valid: false, issues: ['response must be a JSON object'] });
+});
+
+test('only requires the factor keys it is given', () => {
+  const validation = validateAnalysis(reply({ factors: { spam: true } }), ['spam']);
+  assert.ok(validation.valid);
+  assert.equal(validation.value.factors.spam, true);
+  assert.equal(validation.value.factors.hasLinks, false);
+});
+
+test('moves evidence onto the quoted text and drops spans it cannot place', () => {
+  const post = 'WIN a free phone! Click now to WIN big.';
+  const validation = validateAnalysis(
+    reply({
+      evidence: {
+        spam: [
+          { start: 28, end: 31, text: 'WIN' },
+          { start: 0, end: 3, text: 'WIN' },
+          { start: 5, end: 9, text: 'lose' },
+        ],
+        hasLinks: [{ start: 0, end: 3 }],
+      },
+    }),
+    FACTOR_KEYS,
+    post,
+  );
+
+  assert.ok(validation.valid);
+  assert.deepEqual(validation.value.evidence, {
+    spam: [
+      { start: 0, end: 3 },
+      { start: 31, end: 34 },
+    ],
+  });
+  assert.deepEqual(validation.repairs, [
+    'evidence.spam had 1 span(s) that did not match the post',
+    'evidence.hasLinks was dropped because the factor is not flagged',
+  ]);
+});
+
+test('keeps media findings for at most the viewed images', () => {
+  const validation = validateAnalysis(reply({ media: [{ textOverlay: true }, null, {}] }), FACTOR_KEYS, undefined, 2);
+
+  assert.ok(validation.valid);
+  assert.equal(validation.value.media?.length, 2);
+  assert.equal(validation.value.media?.[0]?.textOverlay, true);
+  assert.equal(validation.value.media?.[1], null);
+  assert.ok(validation.repairs.includes('media had 3 entries for 2 image(s) and was truncated'));
+});
+
+test('parses a full API result and drops unknown server fields', () => {
+  const parsed = parseAnalysisResult(
+    reply({
+      degraded: true,
+      degradedReason: 'budget',
+      platform: 'bluesky',
+      privateInfo: { matches: [{ kind: 'email', start: 0, end: 5 }, { kind: 'ssn', start: 6, end: 9 }], redacted: true },
+      links: [{ url: 'bit.ly/x', start: 0, end: 8, findings: ['shortener', 'unknown'] }, { url: 'no offsets' }],
+      cache: { hit: 'yes', ttlSeconds: 60 },
+      resultId: 'abc',
+    }),
+  );
+
+  assert.ok(parsed);
+  assert.equal(parsed.degraded, true);
+  assert.equal(parsed.degradedReason, 'budget');
+  assert.equal(parsed.platform, 'bluesky');
+  assert.deepEqual(parsed.privateInfo, { matches: [{ kind: 'email', start: 0, end: 5 }], redacted: true });
+  assert.deepEqual(parsed.links, [{ url: 'bit.ly/x', start: 0, end: 8, findings: ['shortener'], suggestions: [] }]);
+  assert.deepEqual(parsed.cache, { hit: false, ttlSeconds: 60 });
+  assert.equal(parsed.resultId, 'abc');
+
+  assert.equal(parseAnalysisResult(reply({ platform: 'myspace' }))?.platform, undefined);
+  assert.equal(parseAnalysisResult({ slopScore: 10 }), null);
+});
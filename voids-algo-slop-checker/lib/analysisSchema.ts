@@ -0,0 +1,453 @@
+import type {
+  AnalysisResult,
+  EvidenceSpan,
+  FactorConfidence,
+  FactorEvidence,
+  HeuristicMeasurements,
+  ImageMetadata,
+  MediaResult,
+  PrivateInfoReport,
+} from './analysisResult';
+import { DEFAULT_FACTORS, FACTOR_KEYS, type AnalysisFactors, type FactorKey } from './factors';
+import { LINK_FINDING_KEYS, type LinkFindingKey, type LinkResult } from './links';
+import { MEDIA_FINDING_KEYS, type MediaFindings } from './media';
+import { isPlatform } from './platforms';
+import { PRIVATE_INFO_KIND_KEYS, type PrivateInfoMatch } from './privateInfo';
+
+export { FACTOR_KEYS };
+
+// The part of an AnalysisResult the model is responsible for producing.
+// `media` holds the findings for each attached image, in order; null where
+// the model left an image out.
+export type ModelAnalysis = Pick<
+  AnalysisResult,
+  'slopScore' | 'factors' | 'summary' | 'recommendations' | 'confidence' | 'evidence'
+> & { media?: Array<MediaFindings | null> };
+
+export type AnalysisValidation =
+  | { valid: true; value: ModelAnalysis; repairs: string[] }
+  | { valid: false; issues: string[] };
+
+const MAX_RECOMMENDATIONS = 10;
+const MAX_EVIDENCE_SPANS = 20;
+
+const toRecord = (value: unknown): Record<string, unknown> | null =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+
+const parseScore = (value: unknown, issues: string[], repairs: string[]) => {
+  let score = value;
+
+  if (typeof score === 'string' && score.trim() && !Number.isNaN(Number(score))) {
+    score = Number(score);
+    repairs.push('slopScore was a numeric string');
+  }
+
+  if (typeof score !== 'number' || !Number.isFinite(score)) {
+    issues.push('slopScore must be a number from 0 to 100');
+    return 0;
+  }
+
+  if (score < 0 || score > 100) {
+    issues.push(`slopScore ${score} is outside the 0-100 range`);
+    return 0;
+  }
+
+  if (!Number.isInteger(score)) {
+    repairs.push('slopScore was rounded to an integer');
+    return Math.round(score);
+  }
+
+  return score;
+};
+
+const parseFactors = (value: unknown, keys: readonly FactorKey[], issues: string[], repairs: string[]) => {
+  const factors: AnalysisFactors = { ...DEFAULT_FACTORS };
+  const record = toRecord(value);
+
+  if (!record) {
+    issues.push('factors must be an object');
+    return factors;
+  }
+
+  for (const key of keys) {
+    const flag = record[key];
+    if (typeof flag === 'boolean') {
+      factors[key] = flag;
+    } else if (flag === 'true' || flag === 'false') {
+      factors[key] = flag === 'true';
+      repairs.push(`factors.${key} was a string`);
+    } else if (flag === undefined) {
+      issues.push(`factors.${key} is missing`);
+    } else {
+      issues.push(`factors.${key} must be a boolean`);
+    }
+  }
+
+  return factors;
+};
+
+const parseRecommendations = (value: unknown, issues: string[], repairs: string[]) => {
+  let items = value;
+
+  if (typeof items === 'string') {
+    items = [items];
+    repairs.push('recommendations was a single string');
+  }
+
+  if (!Array.isArray(items)) {
+    issues.push('recommendations must be an array of strings');
+    return [];
+  }
+
+  if (items.some((item) => typeof item !== 'string')) {
+    issues.push('recommendations must only contain strings');
+    return [];
+  }
+
+  const cleaned = (items as string[]).map((item) => item.trim()).filter(Boolean);
+  if (cleaned.length !== items.length) {
+    repairs.push('empty recommendations were removed');
+  }
+
+  if (cleaned.length > MAX_RECOMMENDATIONS) {
+    repairs.push(`recommendations were truncated to ${MAX_RECOMMENDATIONS}`);
+  }
+
+  return cleaned.slice(0, MAX_RECOMMENDATIONS);
+};
+
+const isFactorKey = (value: string): value is FactorKey => (FACTOR_KEYS as readonly string[]).includes(value);
+
+// Confidences are optional like evidence: unusable values are dropped and
+// reported as repairs. Percentages are scaled down to 0-1.
+const parseConfidence = (
+  value: unknown,
+  keys: readonly FactorKey[],
+  repairs: string[],
+): FactorConfidence | undefined => {
+  if (value === undefined || value === null) return undefined;
+
+  const record = toRecord(value);
+  if (!record) {
+    repairs.push('confidence was not an object and was dropped');
+    return undefined;
+  }
+
+  const confidence: FactorConfidence = {};
+  for (const key of keys) {
+    let score = record[key];
+    if (score === undefined) continue;
+
+    if (typeof score === 'string' && score.trim() && !Number.isNaN(Number(score))) {
+      score = Number(score);
+      repairs.push(`confidence.${key} was a numeric string`);
+    }
+
+    if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 100) {
+      repairs.push(`confidence.${key} was not a number from 0 to 1 and was dropped`);
+      continue;
+    }
+
+    if (score > 1) {
+      score /= 100;
+      repairs.push(`confidence.${key} was a percentage`);
+    }
+
+    confidence[key] = Math.round(score * 100) / 100;
+  }
+
+  return Object.keys(confidence).length > 0 ? confidence : undefined;
+};
+
+const isOffset = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// Models are better at quoting than counting, so a span whose offsets do not
+// match its quoted `text` is moved to the occurrence of the quote nearest to
+// where the model pointed. Without the post only the shape is checked.
+const resolveSpan = (value: unknown, post: string | undefined): EvidenceSpan | null => {
+  const span = toRecord(value);
+  if (!span) return null;
+
+  const { start, end, text } = span;
+  const hasRange = isOffset(start) && isOffset(end) && start < end;
+  if (post === undefined) {
+    return hasRange ? { start, end } : null;
+  }
+
+  const quote = typeof text === 'string' ? text : undefined;
+  if (hasRange && end <= post.length && (quote === undefined || post.slice(start, end) === quote)) {
+    return { start, end };
+  }
+
+  if (!quote) return null;
+
+  const target = isOffset(start) ? start : 0;
+  let best = -1;
+  for (let index = post.indexOf(quote); index !== -1; index = post.indexOf(quote, index + 1)) {
+    if (best === -1 || Math.abs(index - target) < Math.abs(best - target)) best = index;
+  }
+  return best === -1 ? null : { start: best, end: best + quote.length };
+};
+
+// Evidence is optional, so problems with it are repaired by dropping the
+// affected spans rather than failing the reply. Spans are only kept for
+// factors that are flagged or have a confidence (thresholds may still flag
+// them) and, when `post` is given, only if they match its text.
+const parseEvidence = (
+  value: unknown,
+  factors: AnalysisFactors,
+  confidence: FactorConfidence | undefined,
+  post: string | undefined,
+  repairs: string[],
+): FactorEvidence | undefined => {
+  if (value === undefined || value === null) return undefined;
+
+  const record = toRecord(value);
+  if (!record) {
+    repairs.push('evidence was not an object and was dropped');
+    return undefined;
+  }
+
+  const evidence: FactorEvidence = {};
+  for (const [key, spans] of Object.entries(record)) {
+    if (!isFactorKey(key) || !(factors[key] || confidence?.[key])) {
+      repairs.push(`evidence.${key} was dropped because the factor is not flagged`);
+      continue;
+    }
+
+    if (!Array.isArray(spans)) {
+      repairs.push(`evidence.${key} was not an array and was dropped`);
+      continue;
+    }
+
+    const resolved = spans.map((span) => resolveSpan(span, post)).filter((span): span is EvidenceSpan => span !== null);
+    if (resolved.length < spans.length) {
+      repairs.push(`evidence.${key} had ${spans.length - resolved.length} span(s) that did not match the post`);
+    }
+
+    const unique = resolved
+      .sort((a, b) => a.start - b.start || a.end - b.end)
+      .filter((span, index, sorted) => index === 0 || span.start !== sorted[index - 1].start || span.end !== sorted[index - 1].end);
+    if (unique.length > 0) {
+      evidence[key] = unique.slice(0, MAX_EVIDENCE_SPANS);
+    }
+  }
+
+  return Object.keys(evidence).length > 0 ? evidence : undefined;
+};
+
+const parseMediaFindingEntry = (value: unknown, label: string, repairs: string[]): MediaFindings | null => {
+  const record = toRecord(value);
+  if (!record) {
+    repairs.push(`${label} was not an object and was dropped`);
+    return null;
+  }
+
+  const findings = {} as MediaFindings;
+  for (const key of MEDIA_FINDING_KEYS) {
+    const finding = record[key];
+    if (finding === 'true' || finding === 'false') {
+      repairs.push(`${label}.${key} was a string`);
+    } else if (typeof finding !== 'boolean') {
+      repairs.push(`${label}.${key} was missing and was set to false`);
+    }
+    findings[key] = finding === true || finding === 'true';
+  }
+  return findings;
+};
+
+// Per-image findings are optional too: the model may not see the images, so
+// unusable entries are dropped and reported as repairs rather than failing.
+const parseMediaFindings = (
+  value: unknown,
+  mediaCount: number,
+  repairs: string[],
+): Array<MediaFindings | null> | undefined => {
+  if (value === undefined || value === null) return undefined;
+
+  if (mediaCount === 0) {
+    repairs.push('media was dropped because no images were viewed');
+    return undefined;
+  }
+
+  if (!Array.isArray(value)) {
+    repairs.push('media was not an array and was dropped');
+    return undefined;
+  }
+
+  if (value.length > mediaCount) {
+    repairs.push(`media had ${value.length} entries for ${mediaCount} image(s) and was truncated`);
+  }
+
+  const media = value
+    .slice(0, mediaCount)
+    .map((entry, index) => (entry === null ? null : parseMediaFindingEntry(entry, `media[${index}]`, repairs)));
+  return media.some(Boolean) ? media : undefined;
+};
+
+// Checks a model (or API) payload against the result schema. Small, unambiguous
+// problems are repaired in place and reported; anything else is an issue the
+// caller can feed back to the model or surface as an error. Only `factorKeys`
+// are required; any other factor defaults to false. Evidence spans are checked
+// against `post` when it is given, and media findings are kept for at most
+// `mediaCount` images.
+export function validateAnalysis(
+  raw: unknown,
+  factorKeys: readonly FactorKey[] = FACTOR_KEYS,
+  post?: string,
+  mediaCount = 0,
+): AnalysisValidation {
+  const record = toRecord(raw);
+  if (!record) {
+    return { valid: false, issues: ['response must be a JSON object'] };
+  }
+
+  const issues: string[] = [];
+  const repairs: string[] = [];
+
+  const slopScore = parseScore(record.slopScore, issues, repairs);
+  const factors = parseFactors(record.factors, factorKeys, issues, repairs);
+  const recommendations = parseRecommendations(record.recommendations, issues, repairs);
+  const confidence = parseConfidence(record.confidence, factorKeys, repairs);
+  const evidence = parseEvidence(record.evidence, factors, confidence, post, repairs);
+  const media = parseMediaFindings(record.media, mediaCount, repairs);
+
+  const summary = typeof record.summary === 'string' ? record.summary.trim() : '';
+  if (!summary) {
+    issues.push('summary must be a non-empty string');
+  }
+
+  if (issues.length > 0) {
+    return { valid: false, issues };
+  }
+
+  return {
+    valid: true,
+    value: {
+      slopScore,
+      factors,
+      summary,
+      recommendations,
+      ...(confidence ? { confidence } : {}),
+      ...(evidence ? { evidence } : {}),
+      ...(media ? { media } : {}),
+    },
+    repairs,
+  };
+}
+
+const IMAGE_FORMATS: ReadonlyArray<unknown> = ['png', 'jpeg', 'webp', 'gif', 'bmp'];
+
+const parseImageMetadata = (value: unknown): ImageMetadata | undefined => {
+  const record = toRecord(value);
+  if (!record || !IMAGE_FORMATS.includes(record.format)) return undefined;
+
+  const { format, width, height, aspectRatio, frameCount } = record;
+  return typeof width === 'number' && typeof height === 'number' && typeof aspectRatio === 'number'
+    ? {
+        format: format as ImageMetadata['format'],
+        width,
+        height,
+        aspectRatio,
+        ...(typeof frameCount === 'number' ? { frameCount } : {}),
+      }
+    : undefined;
+};
+
+const parseMediaResults = (value: unknown): MediaResult[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+
+  return value.map((entry) => {
+    const record = toRecord(entry);
+    const metadata = parseImageMetadata(record?.metadata);
+    const findings = toRecord(record?.findings);
+    return {
+      ...(typeof record?.name === 'string' ? { name: record.name } : {}),
+      ...(metadata ? { metadata } : {}),
+      ...(findings
+        ? { findings: Object.fromEntries(MEDIA_FINDING_KEYS.map((key) => [key, findings[key] === true])) as MediaFindings }
+        : {}),
+    };
+  });
+};
+
+const parsePrivateInfoReport = (value: unknown): PrivateInfoReport | undefined => {
+  const record = toRecord(value);
+  if (!record || !Array.isArray(record.matches)) return undefined;
+
+  const matches = record.matches.filter((entry): entry is PrivateInfoMatch => {
+    const match = toRecord(entry);
+    return (
+      PRIVATE_INFO_KIND_KEYS.includes(match?.kind as PrivateInfoMatch['kind']) &&
+      typeof match?.start === 'number' &&
+      typeof match.end === 'number'
+    );
+  });
+  return { matches, redacted: record.redacted === true };
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+
+const parseLinkResults = (value: unknown): LinkResult[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+
+  return value.flatMap((entry) => {
+    const record = toRecord(entry);
+    if (!record || typeof record.url !== 'string' || typeof record.start !== 'number' || typeof record.end !== 'number') {
+      return [];
+    }
+
+    const findings = isStringArray(record.findings) ? record.findings : [];
+    return [
+      {
+        start: record.start,
+        end: record.end,
+        url: record.url,
+        ...(typeof record.domain === 'string' ? { domain: record.domain } : {}),
+        findings: findings.filter((key): key is LinkFindingKey => LINK_FINDING_KEYS.includes(key as LinkFindingKey)),
+        ...(isStringArray(record.trackingParams) ? { trackingParams: record.trackingParams } : {}),
+        ...(typeof record.cleanUrl === 'string' ? { cleanUrl: record.cleanUrl } : {}),
+        suggestions: isStringArray(record.suggestions) ? record.suggestions : [],
+      },
+    ];
+  });
+};
+
+// Reads a full AnalysisResult as returned by the API, including the optional
+// server-side fields. Returns null when the payload does not match the schema.
+export function parseAnalysisResult(raw: unknown): AnalysisResult | null {
+  const validation = validateAnalysis(raw);
+  if (!validation.valid) {
+    return null;
+  }
+
+  const record = toRecord(raw);
+  const measurements = toRecord(record?.measurements);
+  const cache = toRecord(record?.cache);
+
+  return {
+    ...validation.value,
+    measurements: measurements ? (measurements as unknown as HeuristicMeasurements) : undefined,
+    degraded: record?.degraded === true,
+    degradedReason:
+      record?.degradedReason === 'budget' || record?.degradedReason === 'unavailable'
+        ? record.degradedReason
+        : undefined,
+    promptVersion: typeof record?.promptVersion === 'string' ? record.promptVersion : undefined,
+    model: typeof record?.model === 'string' ? record.model : undefined,
+    experiment: typeof record?.experiment === 'string' ? record.experiment : undefined,
+    platform: isPlatform(record?.platform) ? record.platform : undefined,
+    longPost: record?.longPost === true ? true : undefined,
+    media: parseMediaResults(record?.media),
+    privateInfo: parsePrivateInfoReport(record?.privateInfo),
+    links: parseLinkResults(record?.links),
+    cache:
+      cache && typeof cache.ttlSeconds === 'number'
+        ? { hit: cache.hit === true, ttlSeconds: cache.ttlSeconds }
+        : undefined,
+    resultId: typeof record?.resultId === 'string' ? record.resultId : undefined,
+  };
+}
@@ -0,0 +1,199 @@
+import 'server-only';
+
+import { checkUploadedImage, decodeImageDataUrl, type CheckedImage } from './imagePipeline';
+import { formatMegabytes, MAX_GIF_BYTES, MAX_IMAGE_BYTES, MAX_MEDIA_ITEMS } from './media';
+import type { Platform } from './platforms';
+import { readBodyWithLimit } from './requestBody';
+
+// Largest accepted request bodies. Multipart uploads carry the images as
+// binary and can use the full per-image limits; JSON bodies carry base64 data
+// URLs at the lower data URL limit, plus room for the text fields.
+const MAX_MULTIPART_BODY_BYTES = Math.max(MAX_MEDIA_ITEMS * MAX_IMAGE_BYTES, MAX_GIF_BYTES) + 256 * 1024;
+const MAX_JSON_BODY_BYTES = 12 * 1024 * 1024;
+
+// Base64 inflates payload size ~33%, so 2MB binary ≈ 2.8M chars
+const MAX_DATA_URL_LENGTH = 2_900_000;
+
+export interface UploadedMedia {
+  name?: string;
+  // Null when only a name was sent.
+  image: CheckedImage | null;
+}
+
+// The request fields as sent. Like the output of `request.json()` the text
+// fields are unchecked, whatever their types say: the route validates each
+// one the same way for both body forms. Media is already checked.
+export interface AnalyzeRequestBody {
+  post: string;
+  posts?: string[];
+  displayName: string;
+  platform?: Platform | 'all';
+  longPost?: boolean;
+  redactPrivateInfo?: boolean;
+  media: UploadedMedia[];
+}
+
+export type AnalyzeRequestParse =
+  | { ok: true; body: AnalyzeRequestBody }
+  | { ok: false; error: string; status: 400 | 413 };
+
+const invalid = (error: string): AnalyzeRequestParse => ({ ok: false, error, status: 400 });
+
+const mediaLabel = (index: number, total: number) => (total > 1 ? `Image ${index + 1}` : 'Image');
+
+const tooLarge = (maxBytes: number): AnalyzeRequestParse => ({
+  ok: false,
+  error: `Request body must be ${formatMegabytes(maxBytes)} or smaller`,
+  status: 413,
+});
+
+// `media` is a list of `{ name, dataUrl }` objects; `image` is the single
+// attachment form from before posts could carry several images.
+const readJsonMedia = (media: unknown, image: unknown): UploadedMedia[] | string => {
+  if (media !== undefined && image !== undefined) {
+    return 'Send either media or image, not both';
+  }
+
+  const items = media ?? (image ? [image] : []);
+  if (!Array.isArray(items)) {
+    return 'media must be an array';
+  }
+
+  if (items.length > MAX_MEDIA_ITEMS) {
+    return `Attach at most ${MAX_MEDIA_ITEMS} images`;
+  }
+
+  const uploaded: UploadedMedia[] = [];
+  for (const [index, item] of items.entries()) {
+    const label = mediaLabel(index, items.length);
+
+    if (!item || typeof item !== 'object') {
+      return `Invalid ${label.toLowerCase()} payload`;
+    }
+
+    if (item.dataUrl && typeof item.dataUrl !== 'string') {
+      return `Invalid ${label.toLowerCase()} data`;
+    }
+
+    if (item.name && typeof item.name !== 'string') {
+      return `Invalid ${label.toLowerCase()} name`;
+    }
+
+    if (item.dataUrl && item.dataUrl.length > MAX_DATA_URL_LENGTH) {
+      return `${label} data is too large. Upload larger images as multipart form data.`;
+    }
+
+    // The bytes must really be the format the data URL claims.
+    const check = item.dataUrl ? decodeImageDataUrl(item.dataUrl) : null;
+    if (check && !check.ok) {
+      return items.length > 1 ? `${label}: ${check.error}` : check.error;
+    }
+
+    uploaded.push({ name: item.name || undefined, image: check });
+  }
+
+  return uploaded;
+};
+
+const readJsonBody = async (request: Request): Promise<AnalyzeRequestParse> => {
+  const raw = await readBodyWithLimit(request, MAX_JSON_BODY_BYTES);
+  if (!raw) {
+    return tooLarge(MAX_JSON_BODY_BYTES);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.toString('utf8'));
+  } catch {
+    return invalid('Request body must be valid JSON');
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return invalid('Request body must be a JSON object');
+  }
+
+  const { post, posts, displayName, platform, longPost, redactPrivateInfo, media, image } = parsed as Omit<AnalyzeRequestBody, 'media'> & {
+    media?: unknown;
+    image?: unknown;
+  };
+  const uploaded = readJsonMedia(media, image);
+  if (typeof uploaded === 'string') {
+    return invalid(uploaded);
+  }
+
+  return { ok: true, body: { post, posts, displayName, platform, longPost, redactPrivateInfo, media: uploaded } };
+};
+
+// Text fields of a multipart body; repeated `posts` fields form a thread and
+// the flags are sent as "true" or "false".
+const readFormField = (formData: FormData, name: string) => formData.get(name) ?? undefined;
+
+const readFormBoolean = (value: FormDataEntryValue | undefined) =>
+  value === 'true' ? true : value === 'false' ? false : value;
+
+// Each `media` part is one image file, in post order.
+const readFormMedia = async (formData: FormData): Promise<UploadedMedia[] | string> => {
+  const files = formData.getAll('media');
+  if (files.length > MAX_MEDIA_ITEMS) {
+    return `Attach at most ${MAX_MEDIA_ITEMS} images`;
+  }
+
+  const uploaded: UploadedMedia[] = [];
+  for (const [index, file] of files.entries()) {
+    const label = mediaLabel(index, files.length);
+    if (typeof file === 'string') {
+      return `${label} must be sent as a file`;
+    }
+
+    const check = checkUploadedImage(Buffer.from(await file.arrayBuffer()), file.type);
+    if (!check.ok) {
+      return files.length > 1 ? `${label}: ${check.error}` : check.error;
+    }
+
+    uploaded.push({ name: file.name || undefined, image: check });
+  }
+
+  return uploaded;
+};
+
+const readMultipartBody = async (request: Request, contentType: string): Promise<AnalyzeRequestParse> => {
+  const raw = await readBodyWithLimit(request, MAX_MULTIPART_BODY_BYTES);
+  if (!raw) {
+    return tooLarge(MAX_MULTIPART_BODY_BYTES);
+  }
+
+  let formData: FormData;
+  try {
+    formData = await new Response(new Uint8Array(raw), { headers: { 'Content-Type': contentType } }).formData();
+  } catch {
+    return invalid('Request body must be valid multipart form data');
+  }
+
+  const uploaded = await readFormMedia(formData);
+  if (typeof uploaded === 'string') {
+    return invalid(uploaded);
+  }
+
+  return {
+    ok: true,
+    body: {
+      post: readFormField(formData, 'post'),
+      posts: formData.has('posts') ? formData.getAll('posts') : undefined,
+      displayName: readFormField(formData, 'displayName'),
+      platform: readFormField(formData, 'platform'),
+      longPost: readFormBoolean(readFormField(formData, 'longPost')),
+      redactPrivateInfo: readFormBoolean(readFormField(formData, 'redactPrivateInfo')),
+      media: uploaded,
+    } as AnalyzeRequestBody,
+  };
+};
+
+// Reads an /api/analyze body, either JSON with base64 data URLs or multipart
+// form data with binary `media` file parts. Images are checked for size and
+// format here; decoding them is left until the caller is within its rate limit.
+export function parseAnalyzeRequest(request: Request): Promise<AnalyzeRequestParse> {
+  const contentType = request.headers.get('content-type') ?? '';
+  return contentType.toLowerCase().startsWith('multipart/form-data')
+    ? readMultipartBody(request, contentType)
+    : readJsonBody(request);
+}
@@ -0,0 +1,497 @@
+import 'server-only';
+
+import { extractPartialStringField, type AnalysisProgressListener } from './analysisEvents';
+import type { AnalysisResult, ImageMetadata, MediaResult } from './analysisResult';
+import { validateAnalysis, type ModelAnalysis } from './analysisSchema';
+import { mapWithConcurrency } from './concurrency';
+import { assignPrompt, recordExperimentOutcome, sampleControl, type ArmOutcome } from './experiments';
+import { applyFactorThresholds } from './factorThresholds';
+import {
+  buildHeuristicResult,
+  computeHeuristics,
+  describeMeasurements,
+  mergeHeuristicConfidence,
+  mergeHeuristicEvidence,
+  mergeHeuristicFactors,
+  type HeuristicAnalysis,
+} from './heuristics';
+import { describeLinks } from './links';
+import {
+  getLlmProvider,
+  type ChatContentPart,
+  type ChatMessage,
+  type ChatRequest,
+  type LlmProvider,
+} from './llmProvider';
+import { measureForPlatform, type MultiPlatformResult, type PlatformCheck } from './platformCheck';
+import { DEFAULT_PLATFORM, getPlatformFactorKeys, PLATFORM_KEYS, PLATFORMS, type Platform } from './platforms';
+import { redactPrivateInfo, restoreEvidence } from './privateInfo';
+import type { PromptTemplate } from './prompts';
+import { analyzeThreadStructure, type ThreadAnalysisResult } from './thread';
+import { getBudgetStatus, recordUsage } from './usage';
+
+// Number of follow-up requests made when the model's JSON fails validation.
+const MAX_REPAIR_ATTEMPTS = 1;
+// Thread posts analyzed at once.
+const THREAD_CONCURRENCY = 3;
+// Platforms analyzed at once by an all-platforms check.
+const PLATFORM_CONCURRENCY = 3;
+
+export interface AnalysisImage {
+  name?: string;
+  // The image as the model sees it, or the sampled frames of an animated GIF.
+  dataUrls?: string[];
+  // Set once the image has been through the image pipeline.
+  metadata?: ImageMetadata;
+}
+
+export interface AnalysisInput {
+  post: string;
+  displayName: string;
+  // Attached images in post order, at most MAX_MEDIA_ITEMS.
+  media?: AnalysisImage[];
+  // Network to check the post for. Defaults to X.
+  platform?: Platform;
+  // Checks the post against the platform's long-post limit (X Premium).
+  longPost?: boolean;
+  // Replaces locally detected personal details with placeholders in the text
+  // sent to the model.
+  redactPrivateInfo?: boolean;
+  // Position within a thread, when the post is analyzed as part of one.
+  threadPosition?: { index: number; total: number };
+  // Who model usage is attributed to, e.g. `session:<ip>` or `apiKey:<id>`.
+  callerId?: string;
+  // Skips prompt assignment, e.g. to evaluate a specific template offline.
+  prompt?: PromptTemplate;
+  // Aborts the model calls, e.g. when the client streaming the result leaves.
+  // The outcome is then a heuristic-only result nobody reads.
+  signal?: AbortSignal;
+  // Never runs the experiment's control prompt for this analysis. Set for
+  // analyses made on the way to another result (rewrite drafts, threads,
+  // per-platform checks) and for batch rows, which would multiply the extra
+  // calls.
+  skipExperimentControl?: boolean;
+}
+
+export interface ThreadInput {
+  posts: string[];
+  displayName: string;
+  // Attached to the first post of the thread.
+  media?: AnalysisImage[];
+  platform?: Platform;
+  longPost?: boolean;
+  redactPrivateInfo?: boolean;
+  callerId?: string;
+}
+
+export type MultiPlatformInput = Omit<AnalysisInput, 'platform' | 'longPost' | 'threadPosition' | 'prompt'>;
+
+export type AnalysisFailure = {
+  ok: false;
+  code: 'INVALID_MODEL_OUTPUT';
+  error: string;
+  issues: string[];
+};
+
+// Returned instead of spending more once the model budget is used up and
+// LLM_BUDGET_MODE=reject.
+export type CapacityFailure = {
+  ok: false;
+  code: 'CAPACITY_EXHAUSTED';
+  error: string;
+};
+
+export const CAPACITY_EXHAUSTED_MESSAGE = 'The analyzer has reached its usage budget for now. Please try again later.';
+
+export type AnalysisOutcome = { ok: true; result: AnalysisResult } | AnalysisFailure | CapacityFailure;
+
+export type ThreadOutcome = { ok: true; result: ThreadAnalysisResult } | AnalysisFailure | CapacityFailure;
+
+export type MultiPlatformOutcome = { ok: true; result: MultiPlatformResult } | AnalysisFailure | CapacityFailure;
+
+// Timelines show images between 4:5 (portrait) and 1.91:1 (landscape) in full
+// and crop previews of anything narrower or wider.
+const MIN_UNCROPPED_ASPECT = 0.8;
+const MAX_UNCROPPED_ASPECT = 1.91;
+
+const describeImage = ({ format, width, height, aspectRatio, frameCount }: ImageMetadata) => {
+  const shape = aspectRatio > 1.05 ? 'landscape' : aspectRatio < 0.95 ? 'portrait' : 'square';
+  const cropping =
+    aspectRatio < MIN_UNCROPPED_ASPECT || aspectRatio > MAX_UNCROPPED_ASPECT
+      ? ' Timeline previews will crop it, so anything important near the edges may be cut off.'
+      : ' It fits timeline previews without cropping.';
+  const animation = frameCount ? ` Animated with ${frameCount} frames.` : '';
+  return `${format.toUpperCase()}, ${width}x${height} pixels, aspect ratio ${aspectRatio}:1 (${shape}).${animation}${cropping}`;
+};
+
+// Labels the images so the model can report its media findings in order.
+const describeMediaItem = ({ name, dataUrls = [], metadata }: AnalysisImage, index: number, total: number) => {
+  const label = total > 1 ? `Image ${index + 1} of ${total}` : 'Image';
+  const frames =
+    dataUrls.length > 1 ? ` The ${dataUrls.length} images that follow are evenly spaced frames of it, in order.` : '';
+  return `${label} metadata: ${name || 'unnamed file'}${metadata ? `, ${describeImage(metadata)}` : '.'}${frames}`;
+};
+
+const buildUserContent = (
+  { post, displayName, media = [], threadPosition, platform = DEFAULT_PLATFORM, redactPrivateInfo }: AnalysisInput,
+  heuristics: HeuristicAnalysis,
+  supportsVision: boolean,
+) => {
+  const userContent: ChatContentPart[] = [
+    {
+      type: 'text',
+      text: `Analyze this ${PLATFORMS[platform].label} post payload. Display Name: ${displayName}\nPost: ${post}`,
+    },
+    {
+      type: 'text',
+      text: `Locally measured signals (treat these counts as exact): ${describeMeasurements(heuristics)}.`,
+    },
+  ];
+
+  // With redaction on, links holding a redacted detail are left out rather
+  // than repeating it here.
+  const links = redactPrivateInfo
+    ? heuristics.links.filter((link) => !heuristics.privateInfo.some(({ start, end }) => start < link.end && link.start < end))
+    : heuristics.links;
+  if (links.length > 0) {
+    userContent.push({
+      type: 'text',
+      text: `Links found locally, with what their URLs show (nothing was fetched): ${describeLinks(links)}.`,
+    });
+  }
+
+  if (redactPrivateInfo && heuristics.privateInfo.length > 0) {
+    userContent.push({
+      type: 'text',
+      text: 'Personal details in the post were replaced with placeholders such as [email] or [phone number] before it was sent. They have already been counted for "privateInfo"; judge the rest of the post as written.',
+    });
+  }
+
+  if (threadPosition) {
+    userContent.push({
+      type: 'text',
+      text: `This is post ${threadPosition.index + 1} of ${threadPosition.total} in a thread. Judge it as part of that thread rather than as a standalone post.`,
+    });
+  }
+
+  for (const [index, item] of media.entries()) {
+    userContent.push({ type: 'text', text: describeMediaItem(item, index, media.length) });
+
+    if (supportsVision) {
+      for (const url of item.dataUrls ?? []) {
+        userContent.push({ type: 'image_url', image_url: { url } });
+      }
+    }
+  }
+
+  if (!supportsVision && media.some((item) => item.dataUrls?.length)) {
+    userContent.push({
+      type: 'text',
+      text: 'Images are attached but cannot be viewed by this model; base the analysis on the text only and leave out "media".',
+    });
+  }
+
+  return userContent;
+};
+
+const parseJson = (content: string | null | undefined): unknown => {
+  try {
+    return JSON.parse(content || '');
+  } catch {
+    return null;
+  }
+};
+
+type ModelReply =
+  | { valid: true; value: ModelAnalysis; model: string }
+  | { valid: false; issues: string[] };
+
+// Streams the reply when the provider supports it, reporting the summary as it
+// is written. Otherwise the summary is reported once the reply is complete.
+const streamChat = async (
+  provider: LlmProvider,
+  request: ChatRequest,
+  onProgress: AnalysisProgressListener,
+) => {
+  if (!provider.streamChatJson) {
+    const response = await provider.chatJson(request);
+    const summary = extractPartialStringField(response.content, 'summary');
+    if (summary) {
+      onProgress({ type: 'summary', text: summary });
+    }
+    return response;
+  }
+
+  let content = '';
+  let summary = '';
+  return provider.streamChatJson(request, (delta) => {
+    content += delta;
+
+    const partial = extractPartialStringField(content, 'summary');
+    if (partial && partial !== summary) {
+      summary = partial;
+      onProgress({ type: 'summary', text: summary });
+    }
+  });
+};
+
+// Asks the model for an analysis and validates the reply. Invalid replies are
+// sent back with the list of problems, up to MAX_REPAIR_ATTEMPTS times.
+// Transport errors are thrown so the caller can fall back to heuristics.
+const requestModelAnalysis = async (
+  provider: LlmProvider,
+  prompt: PromptTemplate,
+  input: AnalysisInput,
+  heuristics: HeuristicAnalysis,
+  onProgress?: AnalysisProgressListener,
+): Promise<ModelReply> => {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: prompt.render(heuristics.platform, heuristics.longPost) },
+    { role: 'user', content: buildUserContent(input, heuristics, provider.supportsVision) },
+  ];
+
+  let issues: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt += 1) {
+    // Every repair is another paid call, so it needs budget of its own.
+    if (attempt > 0 && (input.signal?.aborted || (await getBudgetStatus()).exhausted)) break;
+
+    onProgress?.({ type: 'model-started', attempt: attempt + 1 });
+
+    const request: ChatRequest = {
+      task: 'analysis',
+      messages: [...messages],
+      temperature: 0.3,
+      post: input.post,
+      signal: input.signal,
+    };
+    const response = onProgress
+      ? await streamChat(provider, request, onProgress)
+      : await provider.chatJson(request);
+    const { content } = response;
+    await recordUsage({ callerId: input.callerId ?? 'unknown', task: 'analysis', response });
+
+    const validation = validateAnalysis(
+      parseJson(content),
+      getPlatformFactorKeys(heuristics.platform),
+      input.post,
+      provider.supportsVision ? (input.media?.length ?? 0) : 0,
+    );
+
+    if (validation.valid) {
+      if (validation.repairs.length > 0) {
+        console.warn('Repaired model analysis:', validation.repairs);
+      }
+      return { valid: true, value: applyFactorThresholds(validation.value), model: response.model };
+    }
+
+    issues = validation.issues;
+    console.warn(`Model analysis failed validation (attempt ${attempt + 1}):`, issues);
+
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your previous response did not match the required JSON structure:\n- ${issues.join('\n- ')}\nRespond again with the complete, corrected JSON object only.`,
+      },
+    );
+  }
+
+  return { valid: false, issues };
+};
+
+// Identifies what would produce a result for this input right now, for cache
+// keys. Experiment assignment is deterministic, so this matches analyzePost.
+export const getAnalysisFingerprint = (input: Pick<AnalysisInput, 'post' | 'displayName'>) => ({
+  promptVersion: assignPrompt(input).template.id,
+  model: getLlmProvider()?.model ?? 'heuristics',
+});
+
+// When `onProgress` is given the model reply is streamed and intermediate
+// events are reported as they happen; the returned outcome is the same.
+export async function analyzePost(
+  input: AnalysisInput,
+  onProgress?: AnalysisProgressListener,
+): Promise<AnalysisOutcome> {
+  const outcome = await runAnalysis(input, onProgress);
+  return outcome.ok && input.media?.length && !outcome.result.media
+    ? { ok: true, result: { ...outcome.result, media: toMediaResults(input.media) } }
+    : outcome;
+}
+
+// What is reported back about each image. `findings` holds the model's
+// per-image findings, in the same order.
+const toMediaResults = (media: AnalysisImage[], findings?: ModelAnalysis['media']): MediaResult[] =>
+  media.map(({ name, metadata }, index) => {
+    const itemFindings = findings?.[index];
+    return {
+      ...(name ? { name } : {}),
+      ...(metadata ? { metadata } : {}),
+      ...(itemFindings ? { findings: itemFindings } : {}),
+    };
+  });
+
+const settle = <T>(promise: Promise<T>) => Promise.allSettled([promise]).then(([settled]) => settled);
+
+async function runAnalysis(input: AnalysisInput, onProgress?: AnalysisProgressListener): Promise<AnalysisOutcome> {
+  const heuristics = computeHeuristics(input.post, input.platform, input.longPost);
+  onProgress?.({ type: 'heuristics', factors: heuristics.factors, measurements: heuristics.measurements });
+
+  const provider = getLlmProvider();
+  if (!provider) {
+    return { ok: true, result: buildHeuristicResult(heuristics) };
+  }
+
+  const budget = await getBudgetStatus();
+  if (budget.exhausted) {
+    return budget.mode === 'reject'
+      ? { ok: false, code: 'CAPACITY_EXHAUSTED', error: CAPACITY_EXHAUSTED_MESSAGE }
+      : { ok: true, result: buildHeuristicResult(heuristics, 'budget') };
+  }
+
+  const { template, experiment } = input.prompt ? { template: input.prompt, experiment: null } : assignPrompt(input);
+
+  // The model only sees placeholders for the detected details; its evidence is
+  // mapped back onto the original post below.
+  const redaction =
+    input.redactPrivateInfo && heuristics.privateInfo.length > 0
+      ? redactPrivateInfo(input.post, heuristics.privateInfo)
+      : null;
+  const modelInput = redaction ? { ...input, post: redaction.text } : input;
+
+  const served = await settle(requestModelAnalysis(provider, template, modelInput, heuristics, onProgress));
+
+  // A sample of candidate requests also runs the control prompt, without
+  // progress events, so both outcomes can be compared later. It runs after the
+  // served call so the budget check counts what that call spent.
+  if (
+    experiment &&
+    !input.skipExperimentControl &&
+    !input.signal?.aborted &&
+    sampleControl(experiment) &&
+    !(await getBudgetStatus()).exhausted
+  ) {
+    const control = await settle(requestModelAnalysis(provider, experiment.control, modelInput, heuristics));
+    const toArmOutcome = (settled: PromiseSettledResult<ModelReply>): ArmOutcome | null =>
+      settled.status === 'fulfilled' && settled.value?.valid
+        ? {
+            slopScore: settled.value.value.slopScore,
+            factors: mergeHeuristicFactors(settled.value.value.factors, heuristics),
+            model: settled.value.model,
+          }
+        : null;
+
+    await recordExperimentOutcome(experiment, input, {
+      control: toArmOutcome(control),
+      candidate: toArmOutcome(served),
+    });
+  }
+
+  if (served.status === 'rejected') {
+    if (!input.signal?.aborted) {
+      console.error('Model analysis failed, falling back to heuristics:', served.reason);
+    }
+    return { ok: true, result: buildHeuristicResult(heuristics) };
+  }
+
+  const reply = served.value;
+  if (!reply.valid) {
+    return {
+      ok: false,
+      code: 'INVALID_MODEL_OUTPUT',
+      error: 'The analysis model returned an invalid result. Please try again.',
+      issues: reply.issues,
+    };
+  }
+
+  const { confidence, evidence, media: mediaFindings, ...analysis } = reply.value;
+  const factors = mergeHeuristicFactors(analysis.factors, heuristics);
+  const mergedConfidence = mergeHeuristicConfidence(confidence, heuristics);
+  const mergedEvidence = mergeHeuristicEvidence(
+    redaction ? restoreEvidence(evidence, redaction) : evidence,
+    heuristics,
+    factors,
+  );
+
+  return {
+    ok: true,
+    result: {
+      ...analysis,
+      factors,
+      ...(mergedConfidence ? { confidence: mergedConfidence } : {}),
+      ...(mergedEvidence ? { evidence: mergedEvidence } : {}),
+      ...(input.media?.length ? { media: toMediaResults(input.media, mediaFindings) } : {}),
+      ...(heuristics.privateInfo.length > 0
+        ? { privateInfo: { matches: heuristics.privateInfo, redacted: Boolean(redaction) } }
+        : {}),
+      ...(heuristics.links.length > 0 ? { links: heuristics.links } : {}),
+      measurements: heuristics.measurements,
+      promptVersion: template.id,
+      model: reply.model,
+      experiment: experiment?.name,
+      platform: heuristics.platform,
+      ...(heuristics.longPost ? { longPost: true } : {}),
+    },
+  };
+}
+
+export async function analyzeThread({
+  posts,
+  displayName,
+  media,
+  platform,
+  longPost,
+  redactPrivateInfo,
+  callerId,
+}: ThreadInput): Promise<ThreadOutcome> {
+  // A few posts at a time; each call checks the spend budget when it starts.
+  const outcomes = await mapWithConcurrency(posts, THREAD_CONCURRENCY, (post, index) =>
+    analyzePost({
+      post,
+      displayName,
+      media: index === 0 ? media : undefined,
+      threadPosition: { index, total: posts.length },
+      skipExperimentControl: true,
+      platform,
+      longPost,
+      redactPrivateInfo,
+      callerId,
+    }),
+  );
+
+  const results: AnalysisResult[] = [];
+  for (const outcome of outcomes) {
+    if (!outcome.ok) {
+      return outcome;
+    }
+    results.push(outcome.result);
+  }
+
+  return {
+    ok: true,
+    result: {
+      posts: results,
+      thread: analyzeThreadStructure(posts, results, platform),
+    },
+  };
+}
+
+// Checks one post against every platform. Platforms whose limit the post
+// exceeds are reported without being analyzed.
+export async function analyzeAllPlatforms(input: MultiPlatformInput): Promise<MultiPlatformOutcome> {
+  const outcomes = await mapWithConcurrency(PLATFORM_KEYS, PLATFORM_CONCURRENCY, async (platform) => {
+    const { length, maxLength, fits } = measureForPlatform(input.post, platform);
+    const outcome = fits ? await analyzePost({ ...input, platform, skipExperimentControl: true }) : null;
+    return { platform, length, maxLength, outcome };
+  });
+
+  const checks: PlatformCheck[] = [];
+  for (const { platform, length, maxLength, outcome } of outcomes) {
+    if (outcome && !outcome.ok) {
+      return outcome;
+    }
+    checks.push({ platform, length, maxLength, result: outcome?.result ?? null });
+  }
+
+  return { ok: true, result: { checks } };
+}
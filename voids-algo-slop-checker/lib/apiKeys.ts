@@ -0,0 +1,229 @@
+import 'server-only';
+
+import crypto from 'node:crypto';
+import type { NextRequest } from 'next/server';
+
+import { redis } from './redis';
+
+const KEY_PREFIX = 'slop_';
+const KEY_SECRET_BYTES = 24;
+const RECORD_PREFIX = 'api-key';
+const HASH_INDEX_PREFIX = 'api-key-hash';
+const USAGE_PREFIX = 'api-key-usage';
+const KEY_IDS = 'api-key-ids';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_API_KEY_DAILY_QUOTA = 500;
+export const MAX_API_KEY_DAILY_QUOTA = 50_000;
+export const MAX_API_KEY_LABEL_LENGTH = 64;
+
+export interface ApiKeyRecord {
+  id: string;
+  label: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+  // Units per UTC day; a batch row counts as one unit.
+  dailyQuota: number;
+}
+
+export interface ApiKeyUsage {
+  today: number;
+  total: number;
+}
+
+export interface ApiKeySummary extends ApiKeyRecord {
+  usage: ApiKeyUsage;
+}
+
+const recordKey = (id: string) => `${RECORD_PREFIX}:${id}`;
+const hashIndexKey = (hash: string) => `${HASH_INDEX_PREFIX}:${hash}`;
+const usageKey = (id: string) => `${USAGE_PREFIX}:${id}`;
+const dayField = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+// Only the digest is stored, so a leaked database does not leak usable keys.
+const hashApiKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+const toNumberOrNull = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return value === null || value === undefined || value === '' || Number.isNaN(parsed) ? null : parsed;
+};
+
+const parseRecord = (id: string, value: Record<string, unknown> | null): ApiKeyRecord | null => {
+  // Upstash deserializes numeric-looking fields, so labels like "2024" come
+  // back as numbers.
+  if (!value || value.label === undefined || value.label === null) return null;
+
+  return {
+    id,
+    label: String(value.label),
+    createdAt: toNumberOrNull(value.createdAt) ?? 0,
+    lastUsedAt: toNumberOrNull(value.lastUsedAt),
+    revokedAt: toNumberOrNull(value.revokedAt),
+    dailyQuota: toNumberOrNull(value.dailyQuota) ?? DEFAULT_API_KEY_DAILY_QUOTA,
+  };
+};
+
+const getRecord = async (id: string) => {
+  if (!redis) return null;
+  return parseRecord(id, await redis.hgetall<Record<string, unknown>>(recordKey(id)));
+};
+
+export const validateApiKeyLabel = (value: unknown) => {
+  if (typeof value !== 'string' || !value.trim()) {
+    return 'Key label is required';
+  }
+
+  if (value.length > MAX_API_KEY_LABEL_LENGTH) {
+    return `Key label must be ${MAX_API_KEY_LABEL_LENGTH} characters or fewer`;
+  }
+
+  return null;
+};
+
+export const validateDailyQuota = (value: unknown) => {
+  if (value === undefined) return null;
+
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_API_KEY_DAILY_QUOTA) {
+    return `Daily quota must be a whole number between 1 and ${MAX_API_KEY_DAILY_QUOTA}`;
+  }
+
+  return null;
+};
+
+// Returns the plaintext key exactly once; it cannot be recovered later.
+export async function createApiKey({ label, dailyQuota = DEFAULT_API_KEY_DAILY_QUOTA }: { label: string; dailyQuota?: number }) {
+  if (!redis) return null;
+
+  const id = crypto.randomUUID();
+  const key = `${KEY_PREFIX}${crypto.randomBytes(KEY_SECRET_BYTES).toString('base64url')}`;
+  const record: ApiKeyRecord = {
+    id,
+    label: label.trim(),
+    createdAt: Date.now(),
+    lastUsedAt: null,
+    revokedAt: null,
+    dailyQuota,
+  };
+
+  await redis
+    .multi()
+    .hset(recordKey(id), { label: record.label, createdAt: record.createdAt, dailyQuota })
+    .set(hashIndexKey(hashApiKey(key)), id)
+    .sadd(KEY_IDS, id)
+    .exec();
+
+  return { key, record };
+}
+
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+  const client = redis;
+  if (!client) return [];
+
+  const ids = await client.smembers(KEY_IDS);
+  const today = dayField(Date.now());
+
+  const summaries = await Promise.all(
+    ids.map(async (id) => {
+      const [record, usage] = await Promise.all([
+        getRecord(id),
+        client.hmget<Record<string, number | null>>(usageKey(id), today, 'total'),
+      ]);
+
+      return record
+        ? { ...record, usage: { today: Number(usage?.[today] ?? 0), total: Number(usage?.total ?? 0) } }
+        : null;
+    }),
+  );
+
+  return summaries
+    .filter((summary): summary is ApiKeySummary => summary !== null)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Revoked keys stay listed with their revocation time but stop authenticating.
+export async function revokeApiKey(id: string) {
+  if (!redis) return null;
+
+  const record = await getRecord(id);
+  if (!record) return null;
+  if (record.revokedAt) return record;
+
+  const revokedAt = Date.now();
+  await redis.hset(recordKey(id), { revokedAt });
+
+  return { ...record, revokedAt };
+}
+
+export async function findApiKey(key: string) {
+  if (!redis || !key.startsWith(KEY_PREFIX)) return null;
+
+  const id = await redis.get<string>(hashIndexKey(hashApiKey(key)));
+  const record = id ? await getRecord(id) : null;
+
+  return record && !record.revokedAt ? record : null;
+}
+
+// Checks and counts usage in one step so concurrent requests cannot both pass
+// the quota. Rejected calls do not count as usage; they return `-1 - used`.
+const CONSUME_QUOTA_SCRIPT = `
+local used = tonumber(redis.call('HGET', KEYS[1], ARGV[1]) or '0')
+local amount = tonumber(ARGV[2])
+if used + amount > tonumber(ARGV[3]) then
+  return -1 - used
+end
+redis.call('HINCRBY', KEYS[1], 'total', amount)
+redis.call('HSET', KEYS[2], 'lastUsedAt', ARGV[4])
+return redis.call('HINCRBY', KEYS[1], ARGV[1], amount)
+`;
+
+// Counts `amount` units against the key's daily quota and records usage. The
+// result has the same shape as the session rate limit so routes can treat
+// both alike.
+export async function consumeApiKeyQuota(record: ApiKeyRecord, amount = 1) {
+  const now = Date.now();
+  const reset = (Math.floor(now / DAY_MS) + 1) * DAY_MS;
+  const retryAfter = Math.max(Math.ceil((reset - now) / 1000), 0);
+  const denied = { success: false, limit: record.dailyQuota, reset, remaining: 0, retryAfter };
+
+  if (!redis) return denied;
+
+  try {
+    const usedToday = await redis.eval<[string, number, number, number], number>(
+      CONSUME_QUOTA_SCRIPT,
+      [usageKey(record.id), recordKey(record.id)],
+      [dayField(now), amount, record.dailyQuota, now],
+    );
+
+    if (usedToday < 0) {
+      return { ...denied, remaining: Math.max(record.dailyQuota + usedToday + 1, 0) };
+    }
+
+    return {
+      success: true,
+      limit: record.dailyQuota,
+      reset,
+      remaining: record.dailyQuota - usedToday,
+      retryAfter: 0,
+    };
+  } catch (error) {
+    console.error('API key quota evaluation failed', error);
+    return { ...denied, retryAfter: 60 };
+  }
+}
+
+export const getBearerToken = (request: NextRequest) => {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+};
+
+// Key management is guarded by a separate operator token from the environment.
+export const verifyAdminToken = (request: NextRequest) => {
+  const expected = process.env.API_KEY_ADMIN_TOKEN;
+  const provided = getBearerToken(request);
+  if (!expected || !provided) return false;
+
+  const expectedBuffer = Buffer.from(hashApiKey(expected), 'utf8');
+  const providedBuffer = Buffer.from(hashApiKey(provided), 'utf8');
+  return crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+};
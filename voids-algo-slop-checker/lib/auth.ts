@@ -0,0 +1,54 @@
+import 'server-only';
+
+import type { NextRequest } from 'next/server';
+
+import { findApiKey, getBearerToken, type ApiKeyRecord } from './apiKeys';
+import { redis } from './redis';
+import { getClientIdentifier } from './requestIdentity';
+import { verifySessionToken } from './session';
+
+export type Caller = { type: 'session' } | { type: 'apiKey'; apiKey: ApiKeyRecord };
+
+export type CallerCheck =
+  | { valid: true; caller: Caller }
+  | { valid: false; status: 401 | 503; error: string };
+
+// Browser callers use the session cookie flow; scripts send an API key as
+// `Authorization: Bearer <key>` instead.
+export async function authenticateCaller(request: NextRequest): Promise<CallerCheck> {
+  const bearerToken = getBearerToken(request);
+
+  if (bearerToken) {
+    if (!redis) {
+      return { valid: false, status: 503, error: 'API keys are not available' };
+    }
+
+    try {
+      const apiKey = await findApiKey(bearerToken);
+      return apiKey
+        ? { valid: true, caller: { type: 'apiKey', apiKey } }
+        : { valid: false, status: 401, error: 'Invalid or revoked API key' };
+    } catch (error) {
+      console.error('API key lookup failure:', error);
+      return { valid: false, status: 503, error: 'API keys are not available' };
+    }
+  }
+
+  let sessionCheck;
+  try {
+    sessionCheck = verifySessionToken(request);
+  } catch (error) {
+    console.error('Session verification failure:', error);
+    return { valid: false, status: 503, error: 'Session unavailable' };
+  }
+
+  if (!sessionCheck.valid) {
+    return { valid: false, status: 401, error: sessionCheck.error ?? 'Unauthorized request' };
+  }
+
+  return { valid: true, caller: { type: 'session' } };
+}
+
+// Stable label for attributing usage to whoever made the request.
+export const getCallerId = (request: NextRequest, caller: Caller) =>
+  caller.type === 'apiKey' ? `apiKey:${caller.apiKey.id}` : `session:${getClientIdentifier(request)}`;
@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import type { AnalysisFactors, AnalysisResult } from './analysisResult';
+import { FACTOR_KEYS } from './analysisSchema';
+import { detectBatchFormat, exportBatchResults, MAX_BATCH_ROWS, parseBatchFile } from './batch';
+
+const result: AnalysisResult = {
+  slopScore: 4,
+  factors: Object.fromEntries(FACTOR_KEYS.map((key) => [key, key === 'hasLinks'])) as AnalysisFactors,
+  summary: 'Mostly fine, "one" link',
+  recommendations: ['Move the link to a reply', 'Cut the hashtags'],
+};
+
+test('detects the format from the file name or content type', () => {
+  assert.equal(detectBatchFormat('posts.CSV'), 'csv');
+  assert.equal(detectBatchFormat('upload', 'text/csv'), 'csv');
+  assert.equal(detectBatchFormat('posts.ndjson'), 'jsonl');
+  assert.equal(detectBatchFormat('upload', 'application/jsonl'), 'jsonl');
+  assert.equal(detectBatchFormat('posts.txt', 'text/plain'), null);
+});
+
+test('parses quoted CSV fields with commas, newlines and doubled quotes', () => {
+  const csv = '\uFEFFName,Text\r\nJane,"Hello, ""world""\nsecond line"\r\n\r\nBob,plain\r\n';
+  assert.deepEqual(parseBatchFile(csv, 'csv'), {
+    valid: true,
+    rows: [
+      { post: 'Hello, "world"\nsecond line', displayName: 'Jane' },
+      { post: 'plain', displayName: 'Bob' },
+    ],
+  });
+});
+
+test('rejects CSV files without post and display name columns', () => {
+  assert.deepEqual(parseBatchFile('post,author\nhi,jane\n', 'csv'), {
+    valid: false,
+    error: 'The CSV header must include "post" and "displayName" columns',
+  });
+  assert.deepEqual(parseBatchFile('', 'csv'), { valid: false, error: 'The CSV file is empty' });
+});
+
+test('parses JSONL and reports the line of invalid records', () => {
+  assert.deepEqual(parseBatchFile('{"post":"hi","displayName":"Jane"}\n\n{"post":3}\n', 'jsonl'), {
+    valid: true,
+    rows: [
+      { post: 'hi', displayName: 'Jane' },
+      { post: '', displayName: '' },
+    ],
+  });
+  assert.deepEqual(parseBatchFile('{"post":"hi"}\n{oops\n', 'jsonl'), {
+    valid: false,
+    error: 'Line 2 is not valid JSON',
+  });
+  assert.deepEqual(parseBatchFile('"just a string"\n', 'jsonl'), {
+    valid: false,
+    error: 'Line 1 must be a JSON object',
+  });
+});
+
+test('rejects empty and oversized batches', () => {
+  assert.deepEqual(parseBatchFile('\n\n', 'jsonl'), { valid: false, error: 'The file does not contain any rows' });
+
+  const lines = Array.from({ length: MAX_BATCH_ROWS + 1 }, () => '{"post":"hi","displayName":"Jane"}');
+  assert.deepEqual(parseBatchFile(lines.join('\n'), 'jsonl'), {
+    valid: false,
+    error: `Batches are limited to ${MAX_BATCH_ROWS} rows`,
+  });
+});
+
+test('exports CSV rows in order with quoted fields', () => {
+  const csv = exportBatchResults(
+    [
+      { index: 1, post: 'Second', displayName: 'Bob', error: 'Model unavailable' },
+      { index: 0, post: 'First, with a comma', displayName: 'Jane', result },
+    ],
+    'csv',
+  );
+  const [header, first, second] = csv.split('\r\n');
+  const columns = header.split(',');
+
+  assert.equal(columns[0], 'row');
+  assert.equal(columns.at(-1), 'error');
+  assert.ok(
+    first.startsWith('1,"First, with a comma",Jane,4,"Mostly fine, ""one"" link",Move the link to a reply | Cut the hashtags,false,'),
+  );
+  assert.equal(first.split(',')[columns.indexOf('hasLinks') + 2], 'true');
+  assert.equal(second, `2,Second,Bob,,,,,${','.repeat(FACTOR_KEYS.length)}Model unavailable`);
+  assert.ok(csv.endsWith('\r\n'));
+});
+
+test('prefixes text cells that spreadsheets would run as formulas', () => {
+  const csv = exportBatchResults(
+    [
+      { index: 0, post: '=HYPERLINK("https://example.com")', displayName: '@jane', error: '-1' },
+      { index: 1, post: '+1 for this', displayName: '\tTabbed', result },
+    ],
+    'csv',
+  );
+  const [, first, second] = csv.split('\r\n');
+
+  assert.ok(first.startsWith(`1,"'=HYPERLINK(""https://example.com"")",'@jane,`));
+  assert.ok(first.endsWith(",'-1"));
+  assert.ok(second.startsWith("2,'+1 for this,'\tTabbed,4,"));
+});
+
+test('exports JSONL records without escaping', () => {
+  const [line] = exportBatchResults([{ index: 0, post: '=1+1', displayName: 'Jane', result }], 'jsonl').split('\n');
+  const record = JSON.parse(line);
+
+  assert.equal(record.row, 1);
+  assert.equal(record.post, '=1+1');
+  assert.equal(record.slopScore, 4);
+  assert.equal(record.hasLinks, true);
+  assert.equal(record.error, null);
+});
@@ -0,0 +1,210 @@
+import type { AnalysisResult } from './analysisResult';
+import { FACTOR_KEYS } from './analysisSchema';
+
+export const MAX_BATCH_ROWS = 200;
+export const MAX_BATCH_FILE_BYTES = 1024 * 1024;
+
+export type BatchFormat = 'csv' | 'jsonl';
+
+export interface BatchRow {
+  post: string;
+  displayName: string;
+}
+
+export type BatchParseResult =
+  | { valid: true; rows: BatchRow[] }
+  | { valid: false; error: string };
+
+// Events streamed back from the batch route, one JSON object per line.
+export type BatchEvent =
+  | { type: 'start'; total: number }
+  | { type: 'row'; index: number; result: AnalysisResult }
+  | { type: 'row'; index: number; error: string }
+  | { type: 'done'; succeeded: number; failed: number };
+
+export interface BatchRowOutcome extends BatchRow {
+  index: number;
+  result?: AnalysisResult;
+  error?: string;
+}
+
+const POST_COLUMNS = ['post', 'text', 'content'];
+const DISPLAY_NAME_COLUMNS = ['displayname', 'display_name', 'display name', 'name'];
+
+export const detectBatchFormat = (fileName: string, contentType = ''): BatchFormat | null => {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.csv') || contentType.includes('csv')) return 'csv';
+  if (
+    lowerName.endsWith('.jsonl') ||
+    lowerName.endsWith('.ndjson') ||
+    contentType.includes('ndjson') ||
+    contentType.includes('jsonl')
+  ) {
+    return 'jsonl';
+  }
+  return null;
+};
+
+// RFC 4180 style parser: quoted fields may contain commas, newlines and
+// doubled quotes.
+const parseCsvRecords = (content: string) => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i += 1) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i += 1;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((row) => row.some((value) => value.trim()));
+};
+
+const findColumn = (header: string[], candidates: string[]) =>
+  header.findIndex((name) => candidates.includes(name.trim().toLowerCase()));
+
+const parseCsv = (content: string): BatchParseResult => {
+  const [header, ...records] = parseCsvRecords(content.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return { valid: false, error: 'The CSV file is empty' };
+  }
+
+  const postColumn = findColumn(header, POST_COLUMNS);
+  const displayNameColumn = findColumn(header, DISPLAY_NAME_COLUMNS);
+  if (postColumn === -1 || displayNameColumn === -1) {
+    return { valid: false, error: 'The CSV header must include "post" and "displayName" columns' };
+  }
+
+  return {
+    valid: true,
+    rows: records.map((record) => ({
+      post: record[postColumn] ?? '',
+      displayName: record[displayNameColumn] ?? '',
+    })),
+  };
+};
+
+const parseJsonl = (content: string): BatchParseResult => {
+  const rows: BatchRow[] = [];
+  const lines = content.split(/\r?\n/);
+
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      return { valid: false, error: `Line ${index + 1} is not valid JSON` };
+    }
+
+    if (typeof parsed !== 'object' || parsed === null) {
+      return { valid: false, error: `Line ${index + 1} must be a JSON object` };
+    }
+
+    const record = parsed as Record<string, unknown>;
+    rows.push({
+      post: typeof record.post === 'string' ? record.post : '',
+      displayName: typeof record.displayName === 'string' ? record.displayName : '',
+    });
+  }
+
+  return { valid: true, rows };
+};
+
+export function parseBatchFile(content: string, format: BatchFormat): BatchParseResult {
+  const parsed = format === 'csv' ? parseCsv(content) : parseJsonl(content);
+  if (!parsed.valid) {
+    return parsed;
+  }
+
+  if (parsed.rows.length === 0) {
+    return { valid: false, error: 'The file does not contain any rows' };
+  }
+
+  if (parsed.rows.length > MAX_BATCH_ROWS) {
+    return { valid: false, error: `Batches are limited to ${MAX_BATCH_ROWS} rows` };
+  }
+
+  return parsed;
+}
+
+const EXPORT_COLUMNS = [
+  'row',
+  'post',
+  'displayName',
+  'slopScore',
+  'summary',
+  'recommendations',
+  'degraded',
+  ...FACTOR_KEYS,
+  'error',
+];
+
+const toExportRecord = ({ index, post, displayName, result, error }: BatchRowOutcome) => ({
+  row: index + 1,
+  post,
+  displayName,
+  slopScore: result?.slopScore ?? null,
+  summary: result?.summary ?? null,
+  recommendations: result ? result.recommendations.join(' | ') : null,
+  degraded: result ? Boolean(result.degraded) : null,
+  ...Object.fromEntries(FACTOR_KEYS.map((key) => [key, result ? result.factors[key] : null])),
+  error: error ?? null,
+});
+
+// Spreadsheets run text cells that start with these as formulas.
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+// Text cells that look like formulas get a leading `'` so spreadsheets show
+// them as text. Numbers and booleans are written as they are.
+const escapeCsv = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_PREFIX_PATTERN.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function exportBatchResults(outcomes: BatchRowOutcome[], format: BatchFormat) {
+  const records = [...outcomes].sort((a, b) => a.index - b.index).map(toExportRecord);
+
+  if (format === 'jsonl') {
+    return records.map((record) => JSON.stringify(record)).join('\n') + '\n';
+  }
+
+  const lines = records.map((record) =>
+    EXPORT_COLUMNS.map((column) => escapeCsv(record[column as keyof typeof record])).join(','),
+  );
+  return [EXPORT_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { decodeBmp } from './bmp';
+import { decodeImageDataUrl, processImageDataUrl } from './imagePipeline';
+
+// A BITMAPINFOHEADER file with rows padded to four bytes. `rows` are
+// top-to-bottom rows of already encoded pixel bytes.
+const buildBmp = ({
+  width,
+  rows,
+  bitCount,
+  topDown = false,
+  compression = 0,
+  extra = Buffer.alloc(0),
+}: {
+  width: number;
+  rows: number[][];
+  bitCount: number;
+  topDown?: boolean;
+  compression?: number;
+  extra?: Buffer;
+}) => {
+  const rowSize = Math.ceil((bitCount * width) / 32) * 4;
+  const pixelOffset = 54 + extra.length;
+  const file = Buffer.alloc(pixelOffset + rowSize * rows.length);
+  file.write('BM', 0, 'latin1');
+  file.writeUInt32LE(file.length, 2);
+  file.writeUInt32LE(pixelOffset, 10);
+  file.writeUInt32LE(40, 14);
+  file.writeInt32LE(width, 18);
+  file.writeInt32LE(topDown ? -rows.length : rows.length, 22);
+  file.writeUInt16LE(1, 26);
+  file.writeUInt16LE(bitCount, 28);
+  file.writeUInt32LE(compression, 30);
+  extra.copy(file, 54);
+
+  const ordered = topDown ? rows : [...rows].reverse();
+  ordered.forEach((row, index) => Buffer.from(row).copy(file, pixelOffset + index * rowSize));
+  return file;
+};
+
+test('decodes 24-bit bottom-up and top-down files', () => {
+  // Red, green / blue, white, stored as BGR.
+  const rows = [
+    [0, 0, 255, 0, 255, 0],
+    [255, 0, 0, 255, 255, 255],
+  ];
+  const expected = [255, 0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255];
+
+  for (const topDown of [false, true]) {
+    const decoded = decodeBmp(buildBmp({ width: 2, rows, bitCount: 24, topDown }), 100);
+    assert.deepEqual(decoded && { ...decoded, data: [...decoded.data] }, { width: 2, height: 2, channels: 3, data: expected });
+  }
+});
+
+test('decodes palette and bit-field files', () => {
+  const palette = Buffer.from([0, 0, 0, 0, 255, 255, 255, 0]);
+  const twoColors = decodeBmp(buildBmp({ width: 3, rows: [[0b10100000]], bitCount: 1, extra: palette }), 100);
+  assert.deepEqual(twoColors && [...twoColors.data], [255, 255, 255, 0, 0, 0, 255, 255, 255]);
+
+  const masks = Buffer.alloc(16);
+  [0x00ff0000, 0x0000ff00, 0x000000ff, 0xff000000].forEach((mask, index) => masks.writeUInt32LE(mask, index * 4));
+  const withAlpha = decodeBmp(buildBmp({ width: 1, rows: [[0x30, 0x20, 0x10, 0x80]], bitCount: 32, compression: 6, extra: masks }), 100);
+  assert.deepEqual(withAlpha && { channels: withAlpha.channels, data: [...withAlpha.data] }, {
+    channels: 4,
+    data: [0x10, 0x20, 0x30, 0x80],
+  });
+});
+
+test('rejects compressed, truncated and oversized files', () => {
+  const rows = [[0, 0, 255]];
+  assert.equal(decodeBmp(buildBmp({ width: 1, rows, bitCount: 24, compression: 1 }), 100), null);
+  assert.equal(decodeBmp(buildBmp({ width: 1, rows, bitCount: 24 }).subarray(0, 55), 100), null);
+  assert.equal(decodeBmp(buildBmp({ width: 1, rows, bitCount: 24 }), 0), null);
+  assert.equal(decodeBmp(Buffer.from('not a bitmap at all, really'), 100), null);
+});
+
+test('BMP data URLs go through the image pipeline', async () => {
+  const bmp = buildBmp({ width: 2, rows: [[0, 0, 255, 0, 255, 0], [255, 0, 0, 255, 255, 255]], bitCount: 24 });
+  const dataUrl = `data:image/bmp;base64,${bmp.toString('base64')}`;
+
+  const check = decodeImageDataUrl(dataUrl);
+  assert.ok(check.ok);
+  assert.equal(check.format, 'bmp');
+
+  const prepared = await processImageDataUrl(dataUrl);
+  assert.ok(prepared.ok);
+  assert.deepEqual(prepared.metadata, { format: 'bmp', width: 2, height: 2, aspectRatio: 1 });
+  assert.match(prepared.dataUrls[0], /^data:image\/jpeg;base64,/);
+});
@@ -0,0 +1,119 @@
+import 'server-only';
+
+// sharp has no BMP loader, so BMP uploads are decoded here into raw pixels
+// that sharp can take as input. Uncompressed and bit-field BMPs at 1, 4, 8,
+// 16, 24 and 32 bits per pixel are supported; RLE-compressed files are not.
+
+export interface DecodedBmp {
+  width: number;
+  height: number;
+  // 3 for RGB, 4 when the file carries an alpha channel.
+  channels: 3 | 4;
+  // Top-down rows, `channels` bytes per pixel.
+  data: Buffer;
+}
+
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+const CORE_HEADER_SIZE = 12;
+const INFO_HEADER_SIZE = 40;
+
+// A channel taken out of a 16 or 32 bit pixel by its mask, scaled to 0-255.
+const maskReader = (mask: number) => {
+  if (!mask) return null;
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) shift += 1;
+  const max = mask >>> shift;
+  return (value: number) => Math.round((((value & mask) >>> shift) * 255) / max);
+};
+
+// Returns null when the file is not a BMP this decoder can read or when it has
+// more than `maxPixels` pixels.
+export function decodeBmp(buffer: Buffer, maxPixels: number): DecodedBmp | null {
+  if (buffer.length < 26 || buffer.toString('latin1', 0, 2) !== 'BM') return null;
+
+  const pixelOffset = buffer.readUInt32LE(10);
+  const headerSize = buffer.readUInt32LE(14);
+  if (headerSize !== CORE_HEADER_SIZE && headerSize < INFO_HEADER_SIZE) return null;
+  if (buffer.length < 14 + headerSize) return null;
+
+  const core = headerSize === CORE_HEADER_SIZE;
+  const width = core ? buffer.readUInt16LE(18) : buffer.readInt32LE(18);
+  const signedHeight = core ? buffer.readUInt16LE(20) : buffer.readInt32LE(22);
+  const bitCount = buffer.readUInt16LE(core ? 24 : 28);
+  const compression = core ? BI_RGB : buffer.readUInt32LE(30);
+  const height = Math.abs(signedHeight);
+  const topDown = signedHeight < 0;
+
+  if (width <= 0 || height <= 0 || width * height > maxPixels) return null;
+  if (![1, 4, 8, 16, 24, 32].includes(bitCount)) return null;
+
+  let masks: [number, number, number, number] | null = null;
+  if (compression === BI_BITFIELDS || compression === BI_ALPHABITFIELDS) {
+    // The masks follow a 40 byte header; later headers hold them in place.
+    const maskCount = compression === BI_ALPHABITFIELDS || headerSize >= 56 ? 4 : 3;
+    if (buffer.length < 54 + maskCount * 4) return null;
+    const readMask = (index: number) => (index < maskCount ? buffer.readUInt32LE(54 + index * 4) : 0);
+    masks = [readMask(0), readMask(1), readMask(2), readMask(3)];
+  } else if (compression !== BI_RGB) {
+    return null;
+  }
+  if (masks && bitCount !== 16 && bitCount !== 32) return null;
+
+  if (!masks && bitCount === 16) masks = [0x7c00, 0x03e0, 0x001f, 0];
+  // Plain 32-bit files leave the top byte unused.
+  if (!masks && bitCount === 32) masks = [0x00ff0000, 0x0000ff00, 0x000000ff, 0];
+
+  let palette: Buffer[] = [];
+  if (bitCount <= 8) {
+    const entrySize = core ? 3 : 4;
+    const paletteStart = 14 + headerSize;
+    const colorsUsed = core ? 0 : buffer.readUInt32LE(46);
+    const entries = colorsUsed || 2 ** bitCount;
+    if (entries > 2 ** bitCount || paletteStart + entries * entrySize > pixelOffset) return null;
+    palette = Array.from({ length: entries }, (_, index) => buffer.subarray(paletteStart + index * entrySize));
+  }
+
+  const rowSize = Math.ceil((bitCount * width) / 32) * 4;
+  if (pixelOffset + rowSize * height > buffer.length) return null;
+
+  const readers = masks?.map(maskReader);
+  const channels = readers?.[3] ? 4 : 3;
+  const data = Buffer.alloc(width * height * channels);
+
+  for (let y = 0; y < height; y += 1) {
+    const row = pixelOffset + (topDown ? y : height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x += 1) {
+      const target = (y * width + x) * channels;
+
+      if (palette.length) {
+        const bit = x * bitCount;
+        const index = (buffer[row + (bit >> 3)] >> (8 - bitCount - (bit & 7))) & ((1 << bitCount) - 1);
+        const color = palette[index];
+        if (!color) return null;
+        data[target] = color[2];
+        data[target + 1] = color[1];
+        data[target + 2] = color[0];
+      } else if (bitCount === 24) {
+        data[target] = buffer[row + x * 3 + 2];
+        data[target + 1] = buffer[row + x * 3 + 1];
+        data[target + 2] = buffer[row + x * 3];
+      } else if (readers) {
+        const value = bitCount === 16 ? buffer.readUInt16LE(row + x * 2) : buffer.readUInt32LE(row + x * 4);
+        data[target] = readers[0]?.(value) ?? 0;
+        data[target + 1] = readers[1]?.(value) ?? 0;
+        data[target + 2] = readers[2]?.(value) ?? 0;
+        if (channels === 4) data[target + 3] = readers[3]?.(value) ?? 255;
+      }
+    }
+  }
+
+  // Writers that set an alpha mask but leave it empty mean the image is opaque.
+  if (channels === 4 && !data.some((value, index) => index % 4 === 3 && value !== 0)) {
+    for (let index = 3; index < data.length; index += 4) data[index] = 255;
+  }
+
+  return { width, height, channels, data };
+}
@@ -0,0 +1,375 @@
+import type { AnalysisResult } from './analysisResult';
+import { FACTOR_KEYS, type AnalysisFactors, type FactorKey } from './factors';
+
+// One labeled example. Only the factors listed in `expected.factors` are
+// scored; anything omitted is treated as unlabeled rather than false.
+export interface GoldenCase {
+  id: string;
+  post: string;
+  displayName: string;
+  // `path` is relative to the golden set file.
+  image?: { name?: string; path: string };
+  expected: {
+    factors: Partial<AnalysisFactors>;
+    // Inclusive range the slop score should land in.
+    scoreBand: [number, number];
+  };
+  notes?: string;
+}
+
+export interface GoldenSet {
+  name: string;
+  cases: GoldenCase[];
+}
+
+export type GoldenSetValidation = { valid: true; value: GoldenSet } | { valid: false; issues: string[] };
+
+export type CaseOutcome = { ok: true; result: AnalysisResult } | { ok: false; error: string };
+
+export interface CaseResult {
+  id: string;
+  error?: string;
+  slopScore: number | null;
+  scoreBand: [number, number];
+  // How far the score landed outside the band; 0 inside it.
+  scoreError: number | null;
+  falsePositives: FactorKey[];
+  falseNegatives: FactorKey[];
+  degraded: boolean;
+  passed: boolean;
+}
+
+export interface FactorMetrics {
+  factor: FactorKey;
+  // Cases that label this factor, and how many of those expect it present.
+  labeled: number;
+  support: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  // Null when undefined, e.g. precision with nothing predicted.
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface EvaluationRun {
+  goldenSet: string;
+  createdAt: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  summary: {
+    cases: number;
+    passed: number;
+    errors: number;
+    degraded: number;
+    // Mean distance outside the expected band over cases that produced a score.
+    scoreMae: number;
+    withinBand: number;
+  };
+  factors: FactorMetrics[];
+  cases: CaseResult[];
+}
+
+export interface RunComparison {
+  baseline: Pick<EvaluationRun, 'createdAt' | 'provider' | 'model' | 'promptVersion'>;
+  scoreMaeChange: number;
+  newlyFailing: string[];
+  newlyPassing: string[];
+  regressions: string[];
+}
+
+// Metric drops smaller than this are rounding noise, not regressions.
+const METRIC_TOLERANCE = 0.001;
+
+const toRecord = (value: unknown): Record<string, unknown> | null =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+
+const isScore = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 100;
+
+const parseCase = (raw: unknown, index: number, issues: string[]): GoldenCase | null => {
+  const record = toRecord(raw);
+  const label = typeof record?.id === 'string' && record.id ? record.id : `cases[${index}]`;
+  if (!record) {
+    issues.push(`${label} must be an object`);
+    return null;
+  }
+
+  const before = issues.length;
+
+  if (typeof record.id !== 'string' || !record.id.trim()) {
+    issues.push(`${label}.id must be a non-empty string`);
+  }
+  if (typeof record.post !== 'string' || !record.post.trim()) {
+    issues.push(`${label}.post must be a non-empty string`);
+  }
+  if (typeof record.displayName !== 'string') {
+    issues.push(`${label}.displayName must be a string`);
+  }
+
+  const image = record.image === undefined ? undefined : toRecord(record.image);
+  if (image === null || (image && typeof image.path !== 'string')) {
+    issues.push(`${label}.image must be an object with a path`);
+  }
+
+  const expected = toRecord(record.expected);
+  const factors = toRecord(expected?.factors);
+  const band = expected?.scoreBand;
+
+  if (!factors) {
+    issues.push(`${label}.expected.factors must be an object`);
+  } else {
+    for (const [key, value] of Object.entries(factors)) {
+      if (!FACTOR_KEYS.includes(key as FactorKey)) {
+        issues.push(`${label}.expected.factors.${key} is not a known factor`);
+      } else if (typeof value !== 'boolean') {
+        issues.push(`${label}.expected.factors.${key} must be a boolean`);
+      }
+    }
+  }
+
+  if (!Array.isArray(band) || band.length !== 2 || !isScore(band[0]) || !isScore(band[1]) || band[0] > band[1]) {
+    issues.push(`${label}.expected.scoreBand must be [min, max] with integers from 0 to 100`);
+  }
+
+  if (issues.length > before) {
+    return null;
+  }
+
+  return {
+    id: record.id as string,
+    post: record.post as string,
+    displayName: record.displayName as string,
+    image: image ? { name: typeof image.name === 'string' ? image.name : undefined, path: image.path as string } : undefined,
+    expected: { factors: factors as Partial<AnalysisFactors>, scoreBand: band as [number, number] },
+    notes: typeof record.notes === 'string' ? record.notes : undefined,
+  };
+};
+
+export function parseGoldenSet(raw: unknown): GoldenSetValidation {
+  const record = toRecord(raw);
+  if (!record || !Array.isArray(record.cases)) {
+    return { valid: false, issues: ['golden set must be an object with a cases array'] };
+  }
+
+  const issues: string[] = [];
+  const cases = record.cases.map((item, index) => parseCase(item, index, issues));
+
+  const seen = new Set<string>();
+  for (const goldenCase of cases) {
+    if (!goldenCase) continue;
+    if (seen.has(goldenCase.id)) {
+      issues.push(`case id "${goldenCase.id}" is used more than once`);
+    }
+    seen.add(goldenCase.id);
+  }
+
+  if (issues.length > 0) {
+    return { valid: false, issues };
+  }
+
+  return {
+    valid: true,
+    value: {
+      name: typeof record.name === 'string' && record.name ? record.name : 'golden',
+      cases: cases as GoldenCase[],
+    },
+  };
+}
+
+const labeledFactors = ({ expected }: GoldenCase) => Object.keys(expected.factors) as FactorKey[];
+
+export function scoreCase(goldenCase: GoldenCase, outcome: CaseOutcome): CaseResult {
+  const { scoreBand } = goldenCase.expected;
+
+  if (!outcome.ok) {
+    return {
+      id: goldenCase.id,
+      error: outcome.error,
+      slopScore: null,
+      scoreBand,
+      scoreError: null,
+      falsePositives: [],
+      falseNegatives: [],
+      degraded: false,
+      passed: false,
+    };
+  }
+
+  const { slopScore, factors, degraded } = outcome.result;
+  const scoreError = Math.max(scoreBand[0] - slopScore, slopScore - scoreBand[1], 0);
+  const falsePositives = labeledFactors(goldenCase).filter((key) => factors[key] && !goldenCase.expected.factors[key]);
+  const falseNegatives = labeledFactors(goldenCase).filter((key) => !factors[key] && goldenCase.expected.factors[key]);
+
+  return {
+    id: goldenCase.id,
+    slopScore,
+    scoreBand,
+    scoreError,
+    falsePositives,
+    falseNegatives,
+    degraded: degraded === true,
+    passed: scoreError === 0 && falsePositives.length === 0 && falseNegatives.length === 0,
+  };
+}
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator === 0 ? null : Math.round((numerator / denominator) * 1000) / 1000;
+
+export function summarizeRun(
+  meta: Pick<EvaluationRun, 'goldenSet' | 'provider' | 'model' | 'promptVersion'>,
+  goldenCases: GoldenCase[],
+  results: CaseResult[],
+): EvaluationRun {
+  const scored = results.filter((result) => result.scoreError !== null);
+
+  const factors = FACTOR_KEYS.map((factor): FactorMetrics => {
+    const labeled = goldenCases
+      .map((goldenCase, index) => ({ goldenCase, result: results[index] }))
+      .filter(({ goldenCase, result }) => factor in goldenCase.expected.factors && !result.error);
+
+    const support = labeled.filter(({ goldenCase }) => goldenCase.expected.factors[factor]).length;
+    const falsePositives = labeled.filter(({ result }) => result.falsePositives.includes(factor)).length;
+    const falseNegatives = labeled.filter(({ result }) => result.falseNegatives.includes(factor)).length;
+    const truePositives = support - falseNegatives;
+
+    return {
+      factor,
+      labeled: labeled.length,
+      support,
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      precision: ratio(truePositives, truePositives + falsePositives),
+      recall: ratio(truePositives, support),
+    };
+  }).filter(({ labeled }) => labeled > 0);
+
+  return {
+    ...meta,
+    createdAt: new Date().toISOString(),
+    summary: {
+      cases: results.length,
+      passed: results.filter(({ passed }) => passed).length,
+      errors: results.filter(({ error }) => error).length,
+      degraded: results.filter(({ degraded }) => degraded).length,
+      scoreMae: ratio(
+        scored.reduce((total, { scoreError }) => total + (scoreError ?? 0), 0),
+        scored.length,
+      ) ?? 0,
+      withinBand: ratio(scored.filter(({ scoreError }) => scoreError === 0).length, scored.length) ?? 0,
+    },
+    factors,
+    cases: results,
+  };
+}
+
+// A metric that became undefined (e.g. precision with nothing predicted) is
+// left to the other metric to flag.
+const dropped = (before: number | null, after: number | null) =>
+  before !== null && after !== null && before - after > METRIC_TOLERANCE;
+
+// Regressions are cases that passed in the baseline and fail now, factor
+// precision or recall that went down, and a higher score MAE.
+export function compareRuns(baseline: EvaluationRun, current: EvaluationRun): RunComparison {
+  const baselineCases = new Map(baseline.cases.map((result) => [result.id, result]));
+  const pairs = current.cases.flatMap((result) => {
+    const before = baselineCases.get(result.id);
+    return before ? [{ before, after: result }] : [];
+  });
+
+  const newlyFailing = pairs.filter(({ before, after }) => before.passed && !after.passed).map(({ after }) => after.id);
+  const newlyPassing = pairs.filter(({ before, after }) => !before.passed && after.passed).map(({ after }) => after.id);
+
+  const regressions = newlyFailing.map((id) => `case ${id} now fails`);
+
+  const baselineFactors = new Map(baseline.factors.map((metrics) => [metrics.factor, metrics]));
+  for (const metrics of current.factors) {
+    const before = baselineFactors.get(metrics.factor);
+    if (!before) continue;
+
+    if (dropped(before.precision, metrics.precision)) {
+      regressions.push(`${metrics.factor} precision fell from ${before.precision} to ${metrics.precision ?? 'n/a'}`);
+    }
+    if (dropped(before.recall, metrics.recall)) {
+      regressions.push(`${metrics.factor} recall fell from ${before.recall} to ${metrics.recall ?? 'n/a'}`);
+    }
+  }
+
+  const scoreMaeChange = Math.round((current.summary.scoreMae - baseline.summary.scoreMae) * 1000) / 1000;
+  if (scoreMaeChange > METRIC_TOLERANCE) {
+    regressions.push(`score MAE rose from ${baseline.summary.scoreMae} to ${current.summary.scoreMae}`);
+  }
+
+  return {
+    baseline: {
+      createdAt: baseline.createdAt,
+      provider: baseline.provider,
+      model: baseline.model,
+      promptVersion: baseline.promptVersion,
+    },
+    scoreMaeChange,
+    newlyFailing,
+    newlyPassing,
+    regressions,
+  };
+}
+
+const formatMetric = (value: number | null) => (value === null ? 'n/a' : value.toFixed(3));
+
+const formatPercent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+export function renderMarkdownReport(run: EvaluationRun, comparison: RunComparison | null) {
+  const lines = [
+    `# Evaluation: ${run.goldenSet}`,
+    '',
+    `Run at ${run.createdAt} with provider \`${run.provider}\`, model \`${run.model}\`, prompt \`${run.promptVersion}\`.`,
+    '',
+    '| Cases | Passed | Errors | Degraded | Score MAE | Within band |',
+    '| --- | --- | --- | --- | --- | --- |',
+    `| ${run.summary.cases} | ${run.summary.passed} | ${run.summary.errors} | ${run.summary.degraded} | ${run.summary.scoreMae} | ${formatPercent(run.summary.withinBand)} |`,
+    '',
+    '## Factors',
+    '',
+    '| Factor | Labeled | Support | Precision | Recall | FP | FN |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...run.factors.map(
+      (metrics) =>
+        `| ${metrics.factor} | ${metrics.labeled} | ${metrics.support} | ${formatMetric(metrics.precision)} | ${formatMetric(metrics.recall)} | ${metrics.falsePositives} | ${metrics.falseNegatives} |`,
+    ),
+  ];
+
+  if (comparison) {
+    lines.push(
+      '',
+      '## Compared with the previous run',
+      '',
+      `Baseline from ${comparison.baseline.createdAt} (model \`${comparison.baseline.model}\`, prompt \`${comparison.baseline.promptVersion}\`). Score MAE change: ${comparison.scoreMaeChange > 0 ? '+' : ''}${comparison.scoreMaeChange}.`,
+      '',
+      ...(comparison.regressions.length
+        ? comparison.regressions.map((regression) => `- Regression: ${regression}`)
+        : ['No regressions.']),
+      ...(comparison.newlyPassing.length ? ['', `Newly passing: ${comparison.newlyPassing.join(', ')}`] : []),
+    );
+  }
+
+  const failures = run.cases.filter(({ passed }) => !passed);
+  if (failures.length) {
+    lines.push(
+      '',
+      '## Failing cases',
+      '',
+      '| Case | Score | Band | False positives | False negatives |',
+      '| --- | --- | --- | --- | --- |',
+      ...failures.map(
+        (result) =>
+          `| ${result.id} | ${result.error ? `error: ${result.error}` : result.slopScore} | ${result.scoreBand.join('-')} | ${result.falsePositives.join(', ') || '-'} | ${result.falseNegatives.join(', ') || '-'} |`,
+      ),
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,181 @@
+import 'server-only';
+
+import crypto from 'node:crypto';
+
+import type { AnalysisFactors } from './analysisResult';
+import { FACTOR_KEYS, type FactorKey } from './factors';
+import { getActivePrompt, getPromptTemplate, type PromptTemplate } from './prompts';
+import { redis } from './redis';
+
+const EXPERIMENT_PREFIX = 'experiment';
+const MAX_STORED_OUTCOMES = 1000;
+const OUTCOME_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Compares a candidate prompt against the active one. Requests assigned to the
+// candidate are served its result, and for a sample of them the active prompt
+// runs as well, so every stored sample has both outcomes for the same post.
+export interface PromptExperiment {
+  // Derived from both prompt ids, so changing either starts a fresh log.
+  name: string;
+  control: PromptTemplate;
+  candidate: PromptTemplate;
+  // Share of requests, 0-100, that are assigned to the candidate.
+  percent: number;
+  // Share of candidate requests, 0-100, that also run the control prompt.
+  // Each costs a second model call.
+  controlPercent: number;
+}
+
+export interface PromptAssignment {
+  template: PromptTemplate;
+  experiment: PromptExperiment | null;
+}
+
+export interface ArmOutcome {
+  slopScore: number;
+  factors: AnalysisFactors;
+  model: string;
+}
+
+export interface ExperimentOutcome {
+  at: number;
+  postHash: string;
+  // Null when that arm failed or returned an invalid result.
+  control: ArmOutcome | null;
+  candidate: ArmOutcome | null;
+}
+
+export interface ExperimentReport {
+  name: string;
+  samples: number;
+  failures: { control: number; candidate: number };
+  // Means over samples where both arms succeeded.
+  compared: number;
+  meanScore: { control: number; candidate: number };
+  meanScoreDelta: number;
+  meanAbsoluteScoreDelta: number;
+  // Factors the two prompts disagreed on, most disagreements first.
+  factorDisagreements: Array<{ factor: FactorKey; controlOnly: number; candidateOnly: number }>;
+}
+
+const EXPERIMENT_PATTERN = /^([\w.-]+):(\d{1,3}(?:\.\d+)?)(?::(\d{1,3}(?:\.\d+)?))?$/;
+const DEFAULT_CONTROL_PERCENT = 10;
+
+const isPercent = (value: number) => value >= 0 && value <= 100;
+
+// PROMPT_EXPERIMENT is `<candidate prompt id>:<percent>[:<control percent>]`,
+// e.g. `analysis-v3:10` or `analysis-v3:10:25`.
+const experiment = ((): PromptExperiment | null => {
+  const value = process.env.PROMPT_EXPERIMENT?.trim();
+  if (!value) return null;
+
+  const match = value.match(EXPERIMENT_PATTERN);
+  const candidate = match ? getPromptTemplate(match[1]) : null;
+  const percent = match ? Number(match[2]) : NaN;
+  const controlPercent = match?.[3] === undefined ? DEFAULT_CONTROL_PERCENT : Number(match[3]);
+  const control = getActivePrompt();
+
+  if (!candidate || !isPercent(percent) || !isPercent(controlPercent) || candidate.id === control.id) {
+    console.warn(`Ignoring invalid PROMPT_EXPERIMENT "${value}"`);
+    return null;
+  }
+
+  return { name: `${control.id}-vs-${candidate.id}`, control, candidate, percent, controlPercent };
+})();
+
+export const getPromptExperiment = () => experiment;
+
+const hashPost = (post: string, displayName: string) =>
+  crypto.createHash('sha256').update(JSON.stringify([post.trim(), displayName.trim()])).digest();
+
+// Assignment is a hash of the post rather than a coin flip, so a repeated
+// request lands in the same arm and its cached result stays valid.
+export function assignPrompt({ post, displayName }: { post: string; displayName: string }): PromptAssignment {
+  const control = getActivePrompt();
+  if (!experiment) {
+    return { template: control, experiment: null };
+  }
+
+  const bucket = (hashPost(post, displayName).readUInt32BE(0) % 10_000) / 100;
+  return bucket < experiment.percent
+    ? { template: experiment.candidate, experiment }
+    : { template: control, experiment: null };
+}
+
+// Unlike assignment this is a coin flip: it never changes the served result,
+// only whether the request also pays for a control call.
+export const sampleControl = ({ controlPercent }: PromptExperiment) => Math.random() * 100 < controlPercent;
+
+const outcomesKey = (name: string) => `${EXPERIMENT_PREFIX}:${name}:outcomes`;
+
+// Newest first, like the Redis list, when Redis is not configured.
+const memoryOutcomes = new Map<string, ExperimentOutcome[]>();
+
+// Stores one paired sample. Failures are logged rather than thrown so the
+// experiment can never break the analysis it is observing.
+export async function recordExperimentOutcome(
+  { name }: PromptExperiment,
+  input: { post: string; displayName: string },
+  arms: { control: ArmOutcome | null; candidate: ArmOutcome | null },
+) {
+  const outcome: ExperimentOutcome = {
+    at: Date.now(),
+    postHash: hashPost(input.post, input.displayName).toString('hex').slice(0, 16),
+    ...arms,
+  };
+
+  try {
+    if (redis) {
+      const key = outcomesKey(name);
+      await redis
+        .multi()
+        .lpush(key, outcome)
+        .ltrim(key, 0, MAX_STORED_OUTCOMES - 1)
+        .expire(key, OUTCOME_TTL_SECONDS)
+        .exec();
+      return;
+    }
+
+    const stored = memoryOutcomes.get(name) ?? [];
+    memoryOutcomes.set(name, [outcome, ...stored].slice(0, MAX_STORED_OUTCOMES));
+  } catch (error) {
+    console.error('Failed to record experiment outcome', error);
+  }
+}
+
+const mean = (values: number[]) =>
+  values.length ? Math.round((values.reduce((total, value) => total + value, 0) / values.length) * 100) / 100 : 0;
+
+export async function getExperimentReport(name: string): Promise<ExperimentReport> {
+  const outcomes = redis
+    ? await redis.lrange<ExperimentOutcome>(outcomesKey(name), 0, MAX_STORED_OUTCOMES - 1)
+    : (memoryOutcomes.get(name) ?? []);
+
+  const pairs = outcomes.flatMap(({ control, candidate }) => (control && candidate ? [{ control, candidate }] : []));
+
+  const factorDisagreements = FACTOR_KEYS.map((factor) => ({
+    factor,
+    controlOnly: pairs.filter(({ control, candidate }) => control.factors[factor] && !candidate.factors[factor]).length,
+    candidateOnly: pairs.filter(({ control, candidate }) => !control.factors[factor] && candidate.factors[factor])
+      .length,
+  }))
+    .filter(({ controlOnly, candidateOnly }) => controlOnly + candidateOnly > 0)
+    .sort((a, b) => b.controlOnly + b.candidateOnly - (a.controlOnly + a.candidateOnly));
+
+  return {
+    name,
+    samples: outcomes.length,
+    failures: {
+      control: outcomes.filter(({ control }) => !control).length,
+      candidate: outcomes.filter(({ candidate }) => !candidate).length,
+    },
+    compared: pairs.length,
+    meanScore: {
+      control: mean(pairs.map(({ control }) => control.slopScore)),
+      candidate: mean(pairs.map(({ candidate }) => candidate.slopScore)),
+    },
+    meanScoreDelta: mean(pairs.map(({ control, candidate }) => candidate.slopScore - control.slopScore)),
+    meanAbsoluteScoreDelta: mean(pairs.map(({ control, candidate }) => Math.abs(candidate.slopScore - control.slopScore))),
+    factorDisagreements,
+  };
+}
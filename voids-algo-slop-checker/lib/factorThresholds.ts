@@ -0,0 +1,52 @@
+import 'server-only';
+
+import type { ModelAnalysis } from './analysisSchema';
+import { FACTOR_KEYS, type FactorKey } from './factors';
+
+// Confidence at or above which a factor is flagged, unless overridden.
+export const DEFAULT_FACTOR_THRESHOLD = 0.5;
+
+const THRESHOLD_OVERRIDE_PATTERN = /^(\w+)=(0(?:\.\d+)?|1(?:\.0+)?)$/;
+
+// FACTOR_THRESHOLDS overrides the default per factor as comma-separated
+// `factor=threshold` pairs, e.g. `promotional=0.7,nsfw=0.4`.
+const parseThresholdOverrides = (value: string | undefined) => {
+  const overrides: Partial<Record<FactorKey, number>> = {};
+
+  for (const entry of value?.split(',') ?? []) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const match = trimmed.match(THRESHOLD_OVERRIDE_PATTERN);
+    const key = match?.[1] as FactorKey | undefined;
+    if (!match || !key || !FACTOR_KEYS.includes(key)) {
+      console.warn(`Ignoring invalid factor threshold "${trimmed}"`);
+      continue;
+    }
+
+    overrides[key] = Number(match[2]);
+  }
+
+  return overrides;
+};
+
+const thresholds: Record<FactorKey, number> = (() => {
+  const overrides = parseThresholdOverrides(process.env.FACTOR_THRESHOLDS);
+  return Object.fromEntries(
+    FACTOR_KEYS.map((key) => [key, overrides[key] ?? DEFAULT_FACTOR_THRESHOLD]),
+  ) as Record<FactorKey, number>;
+})();
+
+export const getFactorThreshold = (key: FactorKey) => thresholds[key];
+
+// Where the model reported a confidence, the threshold decides the flag and
+// the model's own boolean is ignored. Factors without one keep their boolean.
+export const applyFactorThresholds = (analysis: ModelAnalysis): ModelAnalysis => {
+  if (!analysis.confidence) return analysis;
+
+  const factors = { ...analysis.factors };
+  for (const [key, confidence] of Object.entries(analysis.confidence) as Array<[FactorKey, number]>) {
+    factors[key] = confidence >= thresholds[key];
+  }
+  return { ...analysis, factors };
+};
@@ -0,0 +1,233 @@
+// The single source of truth for analysis factors. The system prompt, the
+// response validator, the result types and the UI lists are all derived from
+// FACTOR_REGISTRY, so adding a factor means adding one entry here.
+
+export type FactorSentiment = 'negative' | 'positive';
+
+export type FactorCategory = 'formatting' | 'language' | 'spam' | 'safety' | 'structure' | 'positive';
+
+export interface FactorDefinition {
+  label: string;
+  // Plain-language explanation shown to users.
+  description: string;
+  sentiment: FactorSentiment;
+  category: FactorCategory;
+  // Typical effect on the 0-100 slop score when the factor is present.
+  // Negative weights lower the score.
+  weight: number;
+  // What the model is told to look for.
+  rubric: string;
+}
+
+// Prompt section headings, in the order the sections appear.
+export const FACTOR_CATEGORIES: Record<FactorCategory, string> = {
+  formatting: 'TEXT FORMATTING & READABILITY (negative if present)',
+  language: 'OFFENSIVE OR SENSITIVE LANGUAGE (negative if present)',
+  spam: 'SPAM OR LOW-QUALITY SIGNALS (negative if present)',
+  safety: 'SAFETY FILTERS (negative if present)',
+  structure: 'STRUCTURAL METADATA (negative if excessive)',
+  positive: 'POSITIVE FACTORS (decrease the slop score)',
+};
+
+export const FACTOR_REGISTRY = {
+  allCaps: {
+    label: 'All caps shouting',
+    description: 'Most of the letters are capitals, which reads as shouting.',
+    sentiment: 'negative',
+    category: 'formatting',
+    weight: 15,
+    rubric: 'All caps "shouting" text (except clear acronyms)',
+  },
+  lengthExtremes: {
+    label: 'Length far outside optimal range',
+    description: 'The post is much shorter or longer than what tends to perform well.',
+    sentiment: 'negative',
+    category: 'formatting',
+    weight: 8,
+    rubric: 'Length extremes where the copy is far too short or saturates the sigmoid length curve',
+  },
+  readabilityIssues: {
+    label: 'Readability concerns',
+    description: 'The text is rambling, incoherent or hard to follow.',
+    sentiment: 'negative',
+    category: 'formatting',
+    weight: 10,
+    rubric: 'Poor readability (rambling, incoherent, or unusually long words without structure)',
+  },
+  lowTokenEntropy: {
+    label: 'Low vocabulary variety',
+    description: 'The same words or emoji are repeated with little variation.',
+    sentiment: 'negative',
+    category: 'formatting',
+    weight: 12,
+    rubric: 'Low token entropy (repeating the same words or emoji with little variation)',
+  },
+  excessiveWhitespace: {
+    label: 'Excessive whitespace or odd formatting',
+    description: 'Repeated blank lines, long runs of spaces or formatting tricks.',
+    sentiment: 'negative',
+    category: 'formatting',
+    weight: 8,
+    rubric: 'Excessive whitespace, odd spacing, or formatting spam',
+  },
+  hasLinks: {
+    label: 'Contains external link',
+    description: 'Posts with external links are shown to fewer people.',
+    sentiment: 'negative',
+    category: 'formatting',
+    weight: 10,
+    rubric: 'Any external link (penalize all URLs rather than rewarding them)',
+  },
+  offensive: {
+    label: 'Offensive or aggressive language',
+    description: 'Toxic, insulting or aggressive wording.',
+    sentiment: 'negative',
+    category: 'language',
+    weight: 20,
+    rubric: 'Offensive, toxic, or aggressive language within the post',
+  },
+  offensiveDisplayName: {
+    label: 'Offensive display name',
+    description: 'The display name itself looks offensive.',
+    sentiment: 'negative',
+    category: 'language',
+    weight: 15,
+    rubric:
+      'Author display name that appears offensive (if no display name information is provided, default this to false)',
+  },
+  spam: {
+    label: 'Likely spam pattern',
+    description: 'The copy looks like spam or low-quality filler.',
+    sentiment: 'negative',
+    category: 'spam',
+    weight: 25,
+    rubric: 'Spam or low-quality copy that would trip Grok spam filters',
+  },
+  slopAnnotation: {
+    label: 'High “slop” annotation',
+    description: 'Engagement bait, scraped text or obvious farming.',
+    sentiment: 'negative',
+    category: 'spam',
+    weight: 20,
+    rubric: 'High Grok "slop" characteristics (engagement bait, scraped text, obvious farming)',
+  },
+  promotional: {
+    label: 'Overly promotional content',
+    description: 'Reads mainly as an ad or a sales pitch.',
+    sentiment: 'negative',
+    category: 'spam',
+    weight: 15,
+    rubric: 'Overly promotional or sales-focused content',
+  },
+  veryShortLowEffort: {
+    label: 'Very short or low-effort post',
+    description: 'Too little substance to stand on its own.',
+    sentiment: 'negative',
+    category: 'spam',
+    weight: 15,
+    rubric: 'Very short, low-effort filler posts',
+  },
+  nsfw: {
+    label: 'NSFW or sexual content',
+    description: 'Sexual or suggestive content.',
+    sentiment: 'negative',
+    category: 'safety',
+    weight: 30,
+    rubric: 'NSFW or soft NSFW references',
+  },
+  graphicViolence: {
+    label: 'Graphic gore or violence',
+    description: 'Graphic descriptions or images of violence or injury.',
+    sentiment: 'negative',
+    category: 'safety',
+    weight: 30,
+    rubric: 'Graphic gore or violence',
+  },
+  privateInfo: {
+    label: 'Private information exposure',
+    description: 'Phone numbers, emails, addresses or other personal details.',
+    sentiment: 'negative',
+    category: 'safety',
+    weight: 20,
+    rubric: 'Private information exposure (phone numbers, emails, addresses, sensitive IDs)',
+  },
+  tooManyHashtags: {
+    label: 'Too many hashtags or trends',
+    description: 'More hashtags than the algorithm rewards.',
+    sentiment: 'negative',
+    category: 'structure',
+    weight: 12,
+    rubric: 'Too many hashtags or trending tags',
+  },
+  tooManyMentions: {
+    label: 'Too many @mentions',
+    description: 'Tagging many accounts looks like spam.',
+    sentiment: 'negative',
+    category: 'structure',
+    weight: 12,
+    rubric: 'Too many @mentions of other users',
+  },
+  mediaOrCardHeavy: {
+    label: 'Heavy media/card footprint',
+    description: 'Several media attachments or link previews crowd the post.',
+    sentiment: 'negative',
+    category: 'structure',
+    weight: 8,
+    rubric: 'Heavy media/card footprint suggested by the text (multiple image/video references or link previews)',
+  },
+  informative: {
+    label: 'Informative or educational content',
+    description: 'Teaches something or shares a genuine insight.',
+    sentiment: 'positive',
+    category: 'positive',
+    weight: -10,
+    rubric:
+      'Niche, informative, or educational content, including thoughtful discussion, insights, or original ideas and perspectives',
+  },
+  encouragesEngagement: {
+    label: 'Encourages meaningful engagement',
+    description: 'Invites real replies rather than bait.',
+    sentiment: 'positive',
+    category: 'positive',
+    weight: -5,
+    rubric: 'Encourages meaningful engagement (asks good questions, invites discussion)',
+  },
+} as const satisfies Record<string, FactorDefinition>;
+
+export type FactorKey = keyof typeof FACTOR_REGISTRY;
+
+export type AnalysisFactors = Record<FactorKey, boolean>;
+
+export const FACTOR_KEYS = Object.keys(FACTOR_REGISTRY) as FactorKey[];
+
+export const DEFAULT_FACTORS = Object.fromEntries(FACTOR_KEYS.map((key) => [key, false])) as AnalysisFactors;
+
+export const FACTOR_DETAILS: Array<{ key: FactorKey } & FactorDefinition> = FACTOR_KEYS.map((key) => ({
+  key,
+  ...FACTOR_REGISTRY[key],
+}));
+
+export const getFactorWeight = (key: FactorKey): number => FACTOR_REGISTRY[key].weight;
+
+const formatWeight = (weight: number) => (weight > 0 ? `+${weight}` : `${weight}`);
+
+// The rubric section of the system prompt, grouped by category. `overrides`
+// replaces the rubric text of individual factors.
+export const buildFactorRubric = (
+  keys: readonly FactorKey[] = FACTOR_KEYS,
+  overrides: Partial<Record<FactorKey, string>> = {},
+) =>
+  (Object.keys(FACTOR_CATEGORIES) as FactorCategory[])
+    .map((category) => {
+      const lines = FACTOR_DETAILS.filter((factor) => factor.category === category && keys.includes(factor.key)).map(
+        ({ key, rubric, weight }) => `- ${key}: ${overrides[key] ?? rubric} (typical impact ${formatWeight(weight)})`,
+      );
+      return lines.length ? [`${FACTOR_CATEGORIES[category]}:`, ...lines].join('\n') : '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+
+// An object of the response schema shown to the model with one entry per
+// factor, such as `factors` (booleans) or `confidence` (numbers).
+export const buildFactorSchema = (keys: readonly FactorKey[] = FACTOR_KEYS, indent = '    ', valueType = 'boolean') =>
+  `{\n${keys.map((key) => `${indent}"${key}": ${valueType}`).join(',\n')}\n${indent.slice(2)}}`;
@@ -0,0 +1,220 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { DEFAULT_FACTORS, getFactorWeight, type FactorKey } from './factors';
+import {
+  buildHeuristicResult,
+  computeHeuristics,
+  mergeHeuristicConfidence,
+  mergeHeuristicEvidence,
+  mergeHeuristicFactors,
+  scoreHeuristics,
+} from './heuristics';
+import type { Platform } from './platforms';
+
+// Deterministic stand-in for natural prose: words drawn from a 5,000 word
+// vocabulary with Zipf frequencies, which is how word use falls off in real
+// text and what makes normalised entropy drop as posts get longer.
+const prose = (characters: number) => {
+  let seed = 42;
+  const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+  const word = (rank: number) => {
+    let text = '';
+    do {
+      text += 'bcdfghjklmnprstvwz'[rank % 18] + 'aeiou'[Math.floor(rank / 18) % 5];
+      rank = Math.floor(rank / 90);
+    } while (rank > 0);
+    return text;
+  };
+  const weights = Array.from({ length: 5000 }, (_, rank) => 1 / (rank + 1));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let text = '';
+  while (text.length < characters) {
+    let remaining = random() * total;
+    let rank = 0;
+    while ((remaining -= weights[rank]) > 0) rank += 1;
+    text += `${word(rank)}${random() < 0.08 ? '. ' : ' '}`;
+  }
+  return text.slice(0, characters).trim();
+};
+
+for (const length of [4000, 12000, 24000]) {
+  test(`a ${length.toLocaleString('en')} character long post of prose is not penalized`, () => {
+    const { factors, longPost } = computeHeuristics(prose(length), 'x', true);
+    assert.equal(longPost, true);
+    assert.equal(factors.lengthExtremes, false);
+    assert.equal(factors.lowTokenEntropy, false);
+  });
+}
+
+test('long posts still flag pasted repetition and running into the limit', () => {
+  const paragraph = prose(600);
+  assert.equal(computeHeuristics(Array(10).fill(paragraph).join('\n\n'), 'x', true).factors.lowTokenEntropy, true);
+  assert.equal(computeHeuristics(Array(40).fill(paragraph).join('\n\n'), 'x', true).factors.lowTokenEntropy, true);
+  assert.equal(computeHeuristics(prose(24990), 'x', true).factors.lengthExtremes, true);
+});
+
+test('the same text is over-long as a regular post', () => {
+  assert.equal(computeHeuristics(prose(400), 'x').factors.lengthExtremes, true);
+  assert.equal(computeHeuristics(prose(400), 'x', true).factors.lengthExtremes, false);
+});
+
+const flagged = (post: string, platform: Platform = 'x') =>
+  Object.entries(computeHeuristics(post, platform).factors)
+    .filter(([, value]) => value)
+    .map(([key]) => key);
+
+const ordinary = 'Shipped the new onboarding flow today and the first numbers look promising.';
+
+test('an ordinary post flags nothing', () => {
+  assert.deepEqual(flagged(ordinary), []);
+});
+
+test('all caps needs enough letters and a high share of capitals', () => {
+  assert.ok(flagged('THIS IS HUGE NEWS for you').includes('allCaps'));
+  assert.ok(!flagged('OMG WOW, what a launch day this turned out to be').includes('allCaps'));
+  assert.ok(!flagged(`OMG WOW ${ordinary}`).includes('allCaps'));
+});
+
+test('hashtags and mentions are counted against the platform limits', () => {
+  assert.ok(!flagged(`${ordinary} #launch #product`).includes('tooManyHashtags'));
+  assert.ok(flagged(`${ordinary} #launch #product #startup`).includes('tooManyHashtags'));
+  assert.ok(flagged(`${ordinary} #launch #product`, 'threads').includes('tooManyHashtags'));
+  assert.ok(!flagged(`${ordinary} Q&A at 5pm, issue #42 &#39;`).includes('tooManyHashtags'));
+
+  assert.ok(!flagged(`${ordinary} cc @ana @ben`).includes('tooManyMentions'));
+  assert.ok(flagged(`${ordinary} cc @ana @ben @cy`).includes('tooManyMentions'));
+  assert.ok(!flagged(`${ordinary} mail me at team@example.org`).includes('tooManyMentions'));
+});
+
+test('links are only flagged where the platform penalizes them', () => {
+  assert.ok(flagged(`${ordinary} example.com/launch`).includes('hasLinks'));
+  assert.ok(!flagged(`${ordinary} example.com/launch`, 'bluesky').includes('hasLinks'));
+});
+
+test('whitespace runs and a high whitespace share are excessive', () => {
+  assert.ok(flagged(`Shipped the new flow.\n\n\nNumbers look good.`).includes('excessiveWhitespace'));
+  assert.ok(flagged(`Shipped the new flow.   Numbers look good.`).includes('excessiveWhitespace'));
+  assert.ok(flagged('a b c d e f g h i j k l m n o p q r s t').includes('excessiveWhitespace'));
+  assert.ok(!flagged(`Shipped the new flow.\n\nNumbers look good.`).includes('excessiveWhitespace'));
+});
+
+test('low token entropy needs enough tokens', () => {
+  assert.ok(flagged('buy now buy now buy now buy now').includes('lowTokenEntropy'));
+  assert.ok(flagged('🔥 🔥 🔥 🔥 🔥 🔥').includes('lowTokenEntropy'));
+  assert.ok(!flagged('go go go go go').includes('lowTokenEntropy'));
+});
+
+test('length extremes sit in the tails of the platform curve', () => {
+  assert.ok(flagged('Big news').includes('lengthExtremes'));
+  assert.ok(!flagged(ordinary).includes('lengthExtremes'));
+  assert.ok(flagged(`${ordinary} ${ordinary} ${ordinary}`).includes('lengthExtremes'));
+  assert.ok(!flagged(`${ordinary} ${ordinary} ${ordinary}`, 'linkedin').includes('lengthExtremes'));
+});
+
+test('very short posts are low effort', () => {
+  assert.ok(flagged('so true').includes('veryShortLowEffort'));
+  assert.ok(!flagged('Shipped the onboarding flow').includes('veryShortLowEffort'));
+});
+
+test('private details are flagged', () => {
+  assert.ok(flagged(`${ordinary} Questions? jane@example.com`).includes('privateInfo'));
+});
+
+test('evidence points into the untrimmed post for flagged factors only', () => {
+  const post = '  Launch day #one #two #three with @ana';
+  const { evidence } = computeHeuristics(post);
+  assert.deepEqual(
+    evidence.tooManyHashtags?.map(({ start, end }) => post.slice(start, end)),
+    ['#one', '#two', '#three'],
+  );
+  assert.equal(evidence.tooManyMentions, undefined);
+
+  const spaced = ' Hello   world, this is THE launch you WANTED to see.\n\n\nMore soon.';
+  const whitespace = computeHeuristics(spaced).evidence.excessiveWhitespace;
+  assert.deepEqual(
+    whitespace?.map(({ start, end }) => spaced.slice(start, end)),
+    ['   ', '\n\n\n'],
+  );
+});
+
+const heuristicsFor = (post: string, platform: Platform = 'x') => computeHeuristics(post, platform);
+
+test('heuristic factors override the model and excluded factors are cleared', () => {
+  const heuristics = heuristicsFor(`${ordinary} example.com`, 'bluesky');
+  const model = { ...DEFAULT_FACTORS, allCaps: true, hasLinks: true, spam: true };
+
+  const merged = mergeHeuristicFactors(model, heuristics);
+  assert.equal(merged.allCaps, false);
+  assert.equal(merged.hasLinks, false);
+  assert.equal(merged.spam, true);
+});
+
+test('private info is flagged when either side flags it', () => {
+  const clean = heuristicsFor(ordinary);
+  const withEmail = heuristicsFor(`${ordinary} jane@example.com`);
+
+  assert.equal(mergeHeuristicFactors({ ...DEFAULT_FACTORS, privateInfo: true }, clean).privateInfo, true);
+  assert.equal(mergeHeuristicFactors(DEFAULT_FACTORS, withEmail).privateInfo, true);
+  assert.equal(mergeHeuristicFactors(DEFAULT_FACTORS, clean).privateInfo, false);
+});
+
+test('confidence is certain for measured factors except unflagged private info', () => {
+  const heuristics = heuristicsFor(`${ordinary} #a #b #c`, 'mastodon');
+  const merged = mergeHeuristicConfidence({ tooManyHashtags: 0.9, allCaps: 0.6, privateInfo: 0.4, hasLinks: 0.8, spam: 0.3 }, heuristics);
+
+  assert.deepEqual(merged, {
+    tooManyHashtags: 0,
+    allCaps: 0,
+    privateInfo: 0.4,
+    tooManyMentions: 0,
+    excessiveWhitespace: 0,
+    lowTokenEntropy: 0,
+    lengthExtremes: 0,
+    veryShortLowEffort: 0,
+    spam: 0.3,
+  });
+  assert.equal(mergeHeuristicConfidence(undefined, heuristics), undefined);
+});
+
+test('local evidence replaces the model spans, and private info keeps non-overlapping model spans', () => {
+  const post = `Call me on 555-123-4567 or at home #a #b #c`;
+  const heuristics = heuristicsFor(post);
+  const factors = mergeHeuristicFactors({ ...DEFAULT_FACTORS, spam: true }, heuristics);
+
+  const merged = mergeHeuristicEvidence(
+    {
+      tooManyHashtags: [{ start: 0, end: 4 }],
+      privateInfo: [
+        { start: 12, end: 20 },
+        { start: 27, end: 34 },
+      ],
+      spam: [{ start: 0, end: 4 }],
+      allCaps: [{ start: 0, end: 4 }],
+    },
+    heuristics,
+    factors,
+  );
+
+  assert.deepEqual(merged?.tooManyHashtags, heuristics.evidence.tooManyHashtags);
+  assert.deepEqual(merged?.privateInfo?.map(({ start, end }) => post.slice(start, end)), ['555-123-4567', 'at home']);
+  assert.deepEqual(merged?.spam, [{ start: 0, end: 4 }]);
+  assert.equal(merged?.allCaps, undefined);
+});
+
+test('the heuristic score adds the weight of each flagged factor to the base score', () => {
+  const heuristics = heuristicsFor('so true #a #b #c');
+  const expected = 10 + ['tooManyHashtags', 'lengthExtremes', 'veryShortLowEffort']
+    .filter((key) => heuristics.factors[key as keyof typeof heuristics.factors])
+    .reduce((total, key) => total + getFactorWeight(key as FactorKey), 0);
+
+  assert.equal(scoreHeuristics(heuristics), Math.min(100, Math.max(0, expected)));
+  assert.equal(scoreHeuristics(heuristicsFor(ordinary)), 10);
+
+  const result = buildHeuristicResult(heuristics, 'budget');
+  assert.equal(result.degraded, true);
+  assert.equal(result.degradedReason, 'budget');
+  assert.equal(result.model, 'heuristics');
+  assert.equal(result.recommendations.length, Object.values(heuristics.factors).filter(Boolean).length);
+});
@@ -0,0 +1,342 @@
+import type {
+  AnalysisResult,
+  DegradedReason,
+  EvidenceSpan,
+  FactorConfidence,
+  FactorEvidence,
+  HeuristicMeasurements,
+} from './analysisResult';
+import { DEFAULT_FACTORS, getFactorWeight, type AnalysisFactors, type FactorKey } from './factors';
+import { classifyLinks, type LinkResult } from './links';
+import { countPostLength, DEFAULT_PLATFORM, PLATFORMS, supportsLongPost, type Platform } from './platforms';
+import { findPrivateInfo, type PrivateInfoMatch } from './privateInfo';
+
+// Factors that can be checked mechanically. For these keys the local result is
+// authoritative and overrides whatever the model returns, except for
+// HEURISTIC_MINIMUM_KEYS.
+export const HEURISTIC_FACTOR_KEYS = [
+  'allCaps',
+  'tooManyHashtags',
+  'tooManyMentions',
+  'hasLinks',
+  'excessiveWhitespace',
+  'lowTokenEntropy',
+  'lengthExtremes',
+  'veryShortLowEffort',
+  'privateInfo',
+] as const satisfies readonly FactorKey[];
+
+export type HeuristicFactorKey = (typeof HEURISTIC_FACTOR_KEYS)[number];
+
+// Factors the local check can only turn on. A local match flags the factor,
+// but without one the model's vote stands, since it can spot details the
+// patterns miss.
+export const HEURISTIC_MINIMUM_KEYS = ['privateInfo'] as const satisfies readonly HeuristicFactorKey[];
+
+const isMinimumKey = (key: FactorKey) => (HEURISTIC_MINIMUM_KEYS as readonly FactorKey[]).includes(key);
+
+export type HeuristicFactors = Pick<AnalysisFactors, HeuristicFactorKey>;
+
+export interface HeuristicAnalysis {
+  platform: Platform;
+  longPost: boolean;
+  factors: HeuristicFactors;
+  // Spans for the flagged factors that point at specific text.
+  evidence: FactorEvidence;
+  measurements: HeuristicMeasurements;
+  // Personal details found in the post, whether or not the platform scores them.
+  privateInfo: PrivateInfoMatch[];
+  // Every link in the post with what its URL shows about it.
+  links: LinkResult[];
+}
+
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&])#[\p{L}\p{N}_]+/gu;
+const MENTION_PATTERN = /(^|[^\p{L}\p{N}_])@\w{1,15}/gu;
+const CAPS_WORD_PATTERN = /(?<![\p{L}\p{N}])\p{Lu}[\p{Lu}\p{N}'’]+(?![\p{L}\p{N}])/gu;
+const WHITESPACE_RUN_PATTERN = /\n{3,}|[ \t]{3,}/g;
+const TOKEN_PATTERN = /[\p{L}\p{N}'’]+|\p{Extended_Pictographic}/gu;
+const WORD_PATTERN = /^[\p{L}\p{N}'’]+$/u;
+
+// Stamped as the prompt version of heuristic-only results. Bump when the
+// thresholds or scoring below change.
+export const HEURISTICS_VERSION = 'heuristics-v4';
+
+const ALL_CAPS_MIN_LETTERS = 8;
+const ALL_CAPS_RATIO = 0.7;
+const WHITESPACE_RATIO_LIMIT = 0.3;
+const ENTROPY_MIN_TOKENS = 6;
+const ENTROPY_FLOOR = 0.8;
+// Normalised entropy falls as natural text gets longer, since common words
+// keep repeating, so past ENTROPY_FLOOR_TOKENS the floor drops by
+// ENTROPY_FLOOR_DECAY for every doubling of the token count. Prose stays above
+// it up to the 25k long-post limit; a paragraph pasted ten times does not.
+const ENTROPY_FLOOR_TOKENS = 100;
+const ENTROPY_FLOOR_DECAY = 0.05;
+// Sigmoid length curve: posts far below the platform's midpoint read as
+// filler, posts deep in the upper tail saturate the curve and stop gaining
+// anything.
+const LENGTH_CURVE_LOW = 0.05;
+const LENGTH_CURVE_HIGH = 0.999;
+const LOW_EFFORT_MAX_WORDS = 3;
+const LOW_EFFORT_MAX_CHARACTERS = 25;
+
+const HEURISTIC_BASE_SCORE = 10;
+
+const HEURISTIC_RECOMMENDATIONS: Record<HeuristicFactorKey, (platform: Platform) => string> = {
+  allCaps: () => 'Use normal sentence case instead of all caps.',
+  tooManyHashtags: (platform) => `Keep hashtags to ${PLATFORMS[platform].maxHashtags} or fewer.`,
+  tooManyMentions: (platform) => `Mention at most ${PLATFORMS[platform].maxMentions} accounts per post.`,
+  hasLinks: () => 'Move the external link into a reply instead of the main post.',
+  excessiveWhitespace: () => 'Remove repeated blank lines and extra spacing.',
+  lowTokenEntropy: () => 'Vary your wording instead of repeating the same words or emoji.',
+  lengthExtremes: () => 'Aim for a length that fits a complete thought without padding.',
+  veryShortLowEffort: () => 'Add some substance so the post stands on its own.',
+  privateInfo: () => 'Remove phone numbers, emails, addresses and other personal details before posting.',
+};
+
+const countMatches = (value: string, pattern: RegExp) => value.match(pattern)?.length ?? 0;
+
+// Match ranges shifted by `offset`. A leading capture group (the boundary
+// before a hashtag or mention) is left out of the span.
+const findSpans = (text: string, pattern: RegExp, offset: number): EvidenceSpan[] =>
+  Array.from(text.matchAll(pattern), (match) => {
+    const start = offset + (match.index ?? 0) + (match[1]?.length ?? 0);
+    return { start, end: offset + (match.index ?? 0) + match[0].length };
+  });
+
+const round = (value: number, digits = 3) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const measureCapsRatio = (post: string) => {
+  let cased = 0;
+  let upper = 0;
+  for (const char of post) {
+    const lower = char.toLowerCase();
+    const upperChar = char.toUpperCase();
+    if (lower === upperChar) continue;
+    cased += 1;
+    if (char === upperChar) upper += 1;
+  }
+  return { cased, ratio: cased ? upper / cased : 0 };
+};
+
+// Shannon entropy of the token distribution, normalised against the maximum
+// possible for the number of tokens so short and long posts compare fairly.
+const measureTokenEntropy = (tokens: string[]) => {
+  if (tokens.length < 2) return 1;
+
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / tokens.length;
+    entropy -= probability * Math.log2(probability);
+  }
+
+  return entropy / Math.log2(tokens.length);
+};
+
+const entropyFloor = (tokenCount: number) =>
+  ENTROPY_FLOOR - ENTROPY_FLOOR_DECAY * Math.max(Math.log2(tokenCount / ENTROPY_FLOOR_TOKENS), 0);
+
+// Long posts use their own curve, since only the opening shows in the timeline.
+const lengthCurve = (length: number, platform: Platform, longPost: boolean) => {
+  const { lengthCurveMidpoint, lengthCurveScale } = (longPost && PLATFORMS[platform].longPost) || PLATFORMS[platform];
+  return 1 / (1 + Math.exp(-(length - lengthCurveMidpoint) / lengthCurveScale));
+};
+
+export function computeHeuristics(
+  post: string,
+  platform: Platform = DEFAULT_PLATFORM,
+  requestedLongPost = false,
+): HeuristicAnalysis {
+  const longPost = requestedLongPost && supportsLongPost(platform);
+  const { maxHashtags, maxMentions, excludedFactors } = PLATFORMS[platform];
+  const text = post.trim();
+  const characterCount = Array.from(text).length;
+  const tokens = (text.toLowerCase().match(TOKEN_PATTERN) ?? []) as string[];
+  const wordCount = tokens.filter((token) => WORD_PATTERN.test(token)).length;
+  const hashtagCount = countMatches(text, HASHTAG_PATTERN);
+  const mentionCount = countMatches(text, MENTION_PATTERN);
+  const links = classifyLinks(post, platform);
+  const linkCount = links.length;
+  const caps = measureCapsRatio(text);
+  const whitespaceRatio = characterCount ? countMatches(text, /\s/g) / characterCount : 0;
+  const tokenEntropy = measureTokenEntropy(tokens);
+  const lengthCurvePosition = lengthCurve(countPostLength(text, platform), platform, longPost);
+  const privateInfo = findPrivateInfo(post);
+
+  const factors: HeuristicFactors = {
+    allCaps: caps.cased >= ALL_CAPS_MIN_LETTERS && caps.ratio >= ALL_CAPS_RATIO,
+    tooManyHashtags: hashtagCount > maxHashtags,
+    tooManyMentions: mentionCount > maxMentions,
+    hasLinks: linkCount > 0,
+    excessiveWhitespace:
+      /\n{3,}/.test(text) || /[ \t]{3,}/.test(text) || whitespaceRatio > WHITESPACE_RATIO_LIMIT,
+    lowTokenEntropy: tokens.length >= ENTROPY_MIN_TOKENS && tokenEntropy < entropyFloor(tokens.length),
+    lengthExtremes:
+      lengthCurvePosition < LENGTH_CURVE_LOW || lengthCurvePosition > LENGTH_CURVE_HIGH,
+    veryShortLowEffort:
+      wordCount <= LOW_EFFORT_MAX_WORDS && characterCount <= LOW_EFFORT_MAX_CHARACTERS,
+    privateInfo: privateInfo.length > 0,
+  };
+
+  for (const key of HEURISTIC_FACTOR_KEYS) {
+    if (excludedFactors.includes(key)) factors[key] = false;
+  }
+
+  // Offsets are into the untrimmed post, which is what clients display.
+  const offset = post.length - post.trimStart().length;
+  const spans: Partial<Record<HeuristicFactorKey, () => EvidenceSpan[]>> = {
+    allCaps: () => findSpans(text, CAPS_WORD_PATTERN, offset),
+    tooManyHashtags: () => findSpans(text, HASHTAG_PATTERN, offset),
+    tooManyMentions: () => findSpans(text, MENTION_PATTERN, offset),
+    hasLinks: () => links.map(({ start, end }) => ({ start, end })),
+    excessiveWhitespace: () => findSpans(text, WHITESPACE_RUN_PATTERN, offset),
+    privateInfo: () => privateInfo.map(({ start, end }) => ({ start, end })),
+  };
+  const evidence: FactorEvidence = {};
+  for (const key of HEURISTIC_FACTOR_KEYS) {
+    const found = factors[key] ? spans[key]?.() : undefined;
+    if (found?.length) evidence[key] = found;
+  }
+
+  return {
+    platform,
+    longPost,
+    factors,
+    evidence,
+    measurements: {
+      characterCount,
+      wordCount,
+      hashtagCount,
+      mentionCount,
+      linkCount,
+      capsRatio: round(caps.ratio),
+      whitespaceRatio: round(whitespaceRatio),
+      tokenEntropy: round(tokenEntropy),
+      lengthCurvePosition: round(lengthCurvePosition),
+    },
+    privateInfo,
+    links,
+  };
+}
+
+// Heuristic factors override the model's, minimum factors are flagged when
+// either side flags them, and factors the platform does not score are cleared.
+export const mergeHeuristicFactors = (
+  modelFactors: AnalysisFactors,
+  heuristics: HeuristicAnalysis,
+): AnalysisFactors => {
+  const merged = { ...modelFactors, ...heuristics.factors };
+  for (const key of HEURISTIC_MINIMUM_KEYS) {
+    merged[key] = heuristics.factors[key] || modelFactors[key];
+  }
+  for (const key of PLATFORMS[heuristics.platform].excludedFactors) {
+    merged[key] = false;
+  }
+  return merged;
+};
+
+// Locally measured factors are certain either way, apart from minimum factors
+// the local check did not flag, and factors the platform does not score have
+// no confidence.
+export const mergeHeuristicConfidence = (
+  modelConfidence: FactorConfidence | undefined,
+  heuristics: HeuristicAnalysis,
+): FactorConfidence | undefined => {
+  if (!modelConfidence) return undefined;
+
+  const merged: FactorConfidence = { ...modelConfidence };
+  for (const key of HEURISTIC_FACTOR_KEYS) {
+    if (isMinimumKey(key) && !heuristics.factors[key]) continue;
+    merged[key] = heuristics.factors[key] ? 1 : 0;
+  }
+  for (const key of PLATFORMS[heuristics.platform].excludedFactors) {
+    delete merged[key];
+  }
+  return merged;
+};
+
+// Local spans replace the model's for the mechanical factors; for minimum
+// factors the model's spans that do not overlap a local one are kept too.
+// Evidence is only kept for factors that ended up flagged.
+export const mergeHeuristicEvidence = (
+  modelEvidence: FactorEvidence | undefined,
+  heuristics: HeuristicAnalysis,
+  factors: AnalysisFactors,
+): FactorEvidence | undefined => {
+  const merged: FactorEvidence = { ...modelEvidence, ...heuristics.evidence };
+  for (const key of HEURISTIC_MINIMUM_KEYS) {
+    const local = heuristics.evidence[key] ?? [];
+    const modelOnly = (modelEvidence?.[key] ?? []).filter(
+      (span) => !local.some(({ start, end }) => span.start < end && start < span.end),
+    );
+    if (local.length + modelOnly.length > 0) {
+      merged[key] = [...local, ...modelOnly].sort((a, b) => a.start - b.start);
+    }
+  }
+  for (const key of Object.keys(merged) as FactorKey[]) {
+    if (!factors[key]) delete merged[key];
+  }
+  return Object.keys(merged).length > 0 ? merged : undefined;
+};
+
+export const scoreHeuristics = (heuristics: HeuristicAnalysis) => {
+  const penalty = HEURISTIC_FACTOR_KEYS.reduce(
+    (total, key) => total + (heuristics.factors[key] ? getFactorWeight(key) : 0),
+    HEURISTIC_BASE_SCORE,
+  );
+  return Math.min(100, Math.max(0, penalty));
+};
+
+// Result used when the model is unavailable. Only the mechanical factors are
+// evaluated, so the judgment-based ones stay at their defaults.
+const DEGRADED_REASON_TEXT: Record<DegradedReason, string> = {
+  unavailable: 'The language model was unavailable',
+  budget: 'The model spending budget has been reached',
+};
+
+export function buildHeuristicResult(
+  heuristics: HeuristicAnalysis,
+  reason: DegradedReason = 'unavailable',
+): AnalysisResult {
+  const triggered = HEURISTIC_FACTOR_KEYS.filter((key) => heuristics.factors[key]);
+
+  return {
+    slopScore: scoreHeuristics(heuristics),
+    factors: mergeHeuristicFactors(DEFAULT_FACTORS, heuristics),
+    summary:
+      `${DEGRADED_REASON_TEXT[reason]}, so this score only reflects locally measured signals ` +
+      `(${triggered.length} of ${HEURISTIC_FACTOR_KEYS.length} flagged). ` +
+      'Tone, spam, safety and image checks were not evaluated.',
+    recommendations: triggered.map((key) => HEURISTIC_RECOMMENDATIONS[key](heuristics.platform)),
+    ...(Object.keys(heuristics.evidence).length > 0 ? { evidence: heuristics.evidence } : {}),
+    ...(heuristics.privateInfo.length > 0 ? { privateInfo: { matches: heuristics.privateInfo, redacted: false } } : {}),
+    ...(heuristics.links.length > 0 ? { links: heuristics.links } : {}),
+    measurements: heuristics.measurements,
+    degraded: true,
+    degradedReason: reason,
+    promptVersion: HEURISTICS_VERSION,
+    model: 'heuristics',
+    platform: heuristics.platform,
+    ...(heuristics.longPost ? { longPost: true } : {}),
+  };
+}
+
+export const describeMeasurements = ({ measurements }: HeuristicAnalysis) =>
+  [
+    `characters=${measurements.characterCount}`,
+    `words=${measurements.wordCount}`,
+    `hashtags=${measurements.hashtagCount}`,
+    `mentions=${measurements.mentionCount}`,
+    `links=${measurements.linkCount}`,
+    `capsRatio=${measurements.capsRatio}`,
+    `tokenEntropy=${measurements.tokenEntropy}`,
+    `lengthCurve=${measurements.lengthCurvePosition}`,
+  ].join(', ');
@@ -0,0 +1,124 @@
+import type { AnalysisResult, FactorKey } from './analysisResult';
+import { FACTOR_KEYS, parseAnalysisResult } from './analysisSchema';
+
+const STORAGE_KEY = 'slop-checker:history';
+export const MAX_HISTORY_ENTRIES = 50;
+const THUMBNAIL_SIZE = 96;
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  post: string;
+  displayName: string;
+  // Small JPEG data URL; the full image is not kept.
+  thumbnail?: string;
+  result: AnalysisResult;
+}
+
+export interface HistoryComparison {
+  scoreChange: number;
+  added: FactorKey[];
+  cleared: FactorKey[];
+}
+
+const parseEntry = (value: unknown): HistoryEntry | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const record = value as Record<string, unknown>;
+  const result = parseAnalysisResult(record.result);
+
+  if (
+    !result ||
+    typeof record.id !== 'string' ||
+    typeof record.createdAt !== 'number' ||
+    typeof record.post !== 'string' ||
+    typeof record.displayName !== 'string'
+  ) {
+    return null;
+  }
+
+  return {
+    id: record.id,
+    createdAt: record.createdAt,
+    post: record.post,
+    displayName: record.displayName,
+    thumbnail: typeof record.thumbnail === 'string' ? record.thumbnail : undefined,
+    result,
+  };
+};
+
+export function loadHistory(): HistoryEntry[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.map(parseEntry).filter((entry): entry is HistoryEntry => entry !== null)
+      : [];
+  } catch (error) {
+    console.error('Failed to read analysis history', error);
+    return [];
+  }
+}
+
+// Persists the entries, dropping the oldest ones if the browser's storage
+// quota is exceeded. Returns what was actually stored.
+export function saveHistory(entries: HistoryEntry[]): HistoryEntry[] {
+  let remaining = entries.slice(0, MAX_HISTORY_ENTRIES);
+
+  while (remaining.length > 0) {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(remaining));
+      return remaining;
+    } catch (error) {
+      console.warn('Analysis history exceeded storage quota, trimming', error);
+      remaining = remaining.slice(0, -1);
+    }
+  }
+
+  window.localStorage.removeItem(STORAGE_KEY);
+  return [];
+}
+
+export const createHistoryEntry = (
+  entry: Omit<HistoryEntry, 'id' | 'createdAt'>,
+): HistoryEntry => ({
+  ...entry,
+  id: crypto.randomUUID(),
+  createdAt: Date.now(),
+});
+
+// Compares an earlier entry with a later one: how the score moved and which
+// factors appeared or went away.
+export function compareResults(before: AnalysisResult, after: AnalysisResult): HistoryComparison {
+  return {
+    scoreChange: after.slopScore - before.slopScore,
+    added: FACTOR_KEYS.filter((key) => !before.factors[key] && after.factors[key]),
+    cleared: FACTOR_KEYS.filter((key) => before.factors[key] && !after.factors[key]),
+  };
+}
+
+// Downscales an image (data or object URL) so it can be kept in localStorage.
+export function createThumbnail(imageUrl: string): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    const image = new window.Image();
+
+    image.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(image.width * scale));
+      canvas.height = Math.max(1, Math.round(image.height * scale));
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        resolve(undefined);
+        return;
+      }
+
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+
+    image.onerror = () => resolve(undefined);
+    image.src = imageUrl;
+  });
+}
@@ -0,0 +1,184 @@
+import 'server-only';
+
+import sharp, { type Sharp } from 'sharp';
+import type { ImageFormat, ImageMetadata } from './analysisResult';
+import { decodeBmp } from './bmp';
+import { formatFromMimeType, formatMegabytes, getMaxImageBytes, MAX_DATA_URL_IMAGE_BYTES } from './media';
+
+// Vision models scale images to fit 2048px and then to 768px on the short
+// side, so anything larger only costs upload time and tokens.
+const MAX_LONG_SIDE = 2048;
+const MAX_SHORT_SIDE = 768;
+// Refuses decompression bombs before they are decoded.
+const MAX_INPUT_PIXELS = 40_000_000;
+const JPEG_QUALITY = 85;
+// Animated GIFs are sent as this many evenly spaced frames.
+const MAX_GIF_FRAMES = 4;
+
+const FORMAT_LABELS: Record<ImageFormat, string> = {
+  png: 'PNG',
+  jpeg: 'JPEG',
+  webp: 'WEBP',
+  gif: 'GIF',
+  bmp: 'BMP',
+};
+
+const SUPPORTED_FORMATS_TEXT = 'PNG, JPEG, WEBP, GIF or BMP';
+
+const DATA_URL_PATTERN = /^data:image\/([\w.+-]+);base64,([A-Za-z0-9+/]*={0,2})$/;
+
+export interface CheckedImage {
+  buffer: Buffer;
+  format: ImageFormat;
+}
+
+export type ImageCheck = ({ ok: true } & CheckedImage) | { ok: false; error: string };
+
+// `dataUrls` holds one image, or the sampled frames of an animated GIF in order.
+export type PreparedImage = { ok: true; dataUrls: string[]; metadata: ImageMetadata } | { ok: false; error: string };
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length && signature.every((byte, index) => bytes[offset + index] === byte);
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+
+// The real format from the file's leading bytes, whatever it is labeled as.
+export function sniffImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'webp';
+  if (startsWith(bytes, ascii('BM'))) return 'bmp';
+  return null;
+}
+
+const toImageFormat = (subtype: string): ImageFormat | null => {
+  const normalized = subtype.toLowerCase() === 'jpg' ? 'jpeg' : subtype.toLowerCase();
+  return normalized in FORMAT_LABELS ? (normalized as ImageFormat) : null;
+};
+
+const UNSUPPORTED_FORMAT_ERROR = `Unsupported image format. Provide a ${SUPPORTED_FORMATS_TEXT} image.`;
+
+// Size and magic-byte checks shared by both upload forms.
+const checkImageBytes = (buffer: Buffer, declared: ImageFormat, maxBytes: number): ImageCheck => {
+  if (buffer.length > maxBytes) {
+    return { ok: false, error: `${FORMAT_LABELS[declared]} images must be ${formatMegabytes(maxBytes)} or smaller.` };
+  }
+
+  const detected = sniffImageFormat(buffer);
+  if (!detected) {
+    return { ok: false, error: `The image data is not a ${SUPPORTED_FORMATS_TEXT} file.` };
+  }
+
+  if (detected !== declared) {
+    return {
+      ok: false,
+      error: `The image is labeled ${FORMAT_LABELS[declared]} but contains ${FORMAT_LABELS[detected]} data.`,
+    };
+  }
+
+  return { ok: true, buffer, format: detected };
+};
+
+// Cheap checks that need no decoding: the data URL shape, the size and that
+// the bytes are the format the URL claims.
+export function decodeImageDataUrl(dataUrl: string): ImageCheck {
+  const match = dataUrl.match(DATA_URL_PATTERN);
+  if (!match) {
+    return { ok: false, error: 'Image data must be a base64-encoded data URL' };
+  }
+
+  const declared = toImageFormat(match[1]);
+  if (!declared) {
+    return { ok: false, error: UNSUPPORTED_FORMAT_ERROR };
+  }
+
+  return checkImageBytes(Buffer.from(match[2], 'base64'), declared, MAX_DATA_URL_IMAGE_BYTES);
+}
+
+// The same checks for a binary file part, labeled by its content type.
+export function checkUploadedImage(buffer: Buffer, mimeType: string): ImageCheck {
+  const declared = formatFromMimeType(mimeType);
+  if (!declared) {
+    return { ok: false, error: UNSUPPORTED_FORMAT_ERROR };
+  }
+
+  return checkImageBytes(buffer, declared, getMaxImageBytes(declared));
+}
+
+// Evenly spaced frame indexes, always including the first.
+const sampleFrames = (frameCount: number) => {
+  const samples = Math.min(frameCount, MAX_GIF_FRAMES);
+  return Array.from({ length: samples }, (_, index) => Math.floor((index * frameCount) / samples));
+};
+
+// PNG keeps transparency; everything else is re-encoded as JPEG.
+const encode = async (image: Sharp, width: number, height: number, hasAlpha: boolean) => {
+  const resized = image.autoOrient().resize({ width, height, fit: 'fill' });
+  const output = hasAlpha
+    ? await resized.png().toBuffer()
+    : await resized.jpeg({ quality: JPEG_QUALITY, mozjpeg: true }).toBuffer();
+  return `data:image/${hasAlpha ? 'png' : 'jpeg'};base64,${output.toString('base64')}`;
+};
+
+// sharp cannot read BMP, so those are decoded to raw pixels first.
+const openImage = (buffer: Buffer, format: ImageFormat) => {
+  if (format !== 'bmp') {
+    return sharp(buffer, { failOn: 'error', limitInputPixels: MAX_INPUT_PIXELS });
+  }
+
+  const bitmap = decodeBmp(buffer, MAX_INPUT_PIXELS);
+  return bitmap
+    ? sharp(bitmap.data, { raw: { width: bitmap.width, height: bitmap.height, channels: bitmap.channels } })
+    : null;
+};
+
+// Decodes the whole image, which catches corrupt or truncated files, applies
+// the EXIF orientation, drops all metadata (EXIF, GPS, ICC, XMP) and downscales
+// it for the vision model. Animated GIFs are sampled into a few frames.
+export async function prepareImage(buffer: Buffer, format: ImageFormat): Promise<PreparedImage> {
+  try {
+    const options = { failOn: 'error', limitInputPixels: MAX_INPUT_PIXELS } as const;
+    const image = openImage(buffer, format);
+    const info = await image?.metadata();
+    if (!image || !info || (format !== 'bmp' && info.format !== format)) {
+      return { ok: false, error: `The image data is not a valid ${FORMAT_LABELS[format]} file.` };
+    }
+
+    const { width, height } = info.autoOrient;
+    const scale = Math.min(1, MAX_LONG_SIDE / Math.max(width, height), MAX_SHORT_SIDE / Math.min(width, height));
+    const outputWidth = Math.max(1, Math.round(width * scale));
+    const outputHeight = Math.max(1, Math.round(height * scale));
+    const frameCount = info.pages ?? 1;
+
+    const dataUrls =
+      frameCount > 1
+        ? await Promise.all(
+            sampleFrames(frameCount).map((page) =>
+              encode(sharp(buffer, { ...options, page, pages: 1 }), outputWidth, outputHeight, info.hasAlpha),
+            ),
+          )
+        : [await encode(image, outputWidth, outputHeight, info.hasAlpha)];
+
+    return {
+      ok: true,
+      dataUrls,
+      metadata: {
+        format,
+        width,
+        height,
+        aspectRatio: Math.round((width / height) * 1000) / 1000,
+        ...(frameCount > 1 ? { frameCount } : {}),
+      },
+    };
+  } catch (error) {
+    console.warn('Image could not be decoded:', error);
+    return { ok: false, error: 'The image could not be read. It may be corrupt or truncated.' };
+  }
+}
+
+// Both steps, for callers that have the whole data URL at hand.
+export async function processImageDataUrl(dataUrl: string): Promise<PreparedImage> {
+  const check = decodeImageDataUrl(dataUrl);
+  return check.ok ? prepareImage(check.buffer, check.format) : check;
+}
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import LINK_LISTS from './linkLists.json';
+import { classifyLinks, type LinkFindingKey } from './links';
+
+const LISTS: Array<[LinkFindingKey, string[]]> = [
+  ['shortener', LINK_LISTS.shorteners],
+  ['spamDomain', LINK_LISTS.spamDomains],
+  ['affiliate', LINK_LISTS.affiliateDomains],
+];
+
+for (const [finding, domains] of LISTS) {
+  test(`every listed ${finding} domain is found and classified as a bare link`, () => {
+    for (const domain of domains) {
+      const post = `Look at ${domain}/abc now`;
+      const [link] = classifyLinks(post, 'x');
+      assert.equal(link?.url, `${domain}/abc`, `${domain} was not found`);
+      assert.ok(link.findings.includes(finding), `${domain} was not classified as ${finding}`);
+      assert.equal(post.slice(link.start, link.end), link.url);
+    }
+  });
+}
+
+test('affiliate parameters are only counted on their domain', () => {
+  const [amazon, other] = classifyLinks('amazon.co.uk/dp/1?tag=me-21 and example.com/?tag=news', 'bluesky');
+  assert.deepEqual(amazon.findings, ['affiliate']);
+  assert.deepEqual(other.findings, []);
+});
+
+test('tracking parameters are removed from the clean URL', () => {
+  const [link] = classifyLinks('https://example.com/post?utm_source=x&id=4&fbclid=abc', 'x');
+  assert.deepEqual(link.findings, ['tracking']);
+  assert.deepEqual(link.trackingParams, ['utm_source', 'fbclid']);
+  assert.equal(link.cleanUrl, 'https://example.com/post?id=4');
+});
+
+test('moving the link to a reply is only suggested where links are penalized', () => {
+  assert.equal(classifyLinks('example.com', 'x')[0].suggestions.length, 1);
+  assert.deepEqual(classifyLinks('example.com', 'bluesky')[0].suggestions, []);
+});
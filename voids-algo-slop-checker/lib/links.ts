@@ -0,0 +1,142 @@
+import type { EvidenceSpan } from './analysisResult';
+import LINK_LISTS from './linkLists.json';
+import { PLATFORMS, type Platform } from './platforms';
+import { findUrls } from './weightedLength';
+
+// Links are classified from the URL text alone against the lists bundled in
+// `linkLists.json`; nothing is fetched or expanded. Update the lists there and
+// bump their `version`, which is part of the result cache key.
+export const LINK_LISTS_VERSION = LINK_LISTS.version;
+
+export interface LinkFindingDefinition {
+  label: string;
+  // Plain-language explanation shown to users.
+  description: string;
+  suggestion: string;
+}
+
+export const LINK_FINDING_REGISTRY = {
+  shortener: {
+    label: 'Shortened link',
+    description: 'A link shortener hides where the link goes, so readers and spam filters trust it less.',
+    suggestion: 'Use the full URL so readers can see where the link goes.',
+  },
+  spamDomain: {
+    label: 'Spam domain',
+    description: 'The domain is on the list of spam, ad-shortener and IP-logging sites.',
+    suggestion: 'Remove this link; the domain is known for spam.',
+  },
+  affiliate: {
+    label: 'Affiliate link',
+    description: 'The link earns a commission through an affiliate network or tag.',
+    suggestion: 'Link the page directly, or say clearly that it is an affiliate link.',
+  },
+  tracking: {
+    label: 'Tracking parameters',
+    description: 'The URL carries campaign or click tracking parameters.',
+    suggestion: 'Remove the tracking parameters from the URL.',
+  },
+} as const satisfies Record<string, LinkFindingDefinition>;
+
+export type LinkFindingKey = keyof typeof LINK_FINDING_REGISTRY;
+
+export const LINK_FINDING_KEYS = Object.keys(LINK_FINDING_REGISTRY) as LinkFindingKey[];
+
+const MOVE_TO_REPLY_SUGGESTION = 'Move this link to a reply so the post itself has no external link.';
+
+// One link in the post, as a range into it.
+export interface LinkResult extends EvidenceSpan {
+  url: string;
+  // Lowercased host without `www.`. Missing when the URL cannot be parsed.
+  domain?: string;
+  findings: LinkFindingKey[];
+  // Names of the tracking parameters in the query, and the URL without them.
+  trackingParams?: string[];
+  cleanUrl?: string;
+  suggestions: string[];
+}
+
+const SCHEME_PATTERN = /^[a-z][a-z\d+.-]*:\/\//i;
+
+const matchesDomain = (domain: string, listed: string) => domain === listed || domain.endsWith(`.${listed}`);
+
+const onList = (domain: string, list: readonly string[]) => list.some((listed) => matchesDomain(domain, listed));
+
+// `utm_*` matches every parameter starting with `utm_`.
+const isTrackingParam = (name: string) =>
+  LINK_LISTS.trackingParams.some((pattern) =>
+    pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern,
+  );
+
+const getAffiliateParams = (domain: string) => [
+  ...LINK_LISTS.affiliateParams,
+  ...Object.entries(LINK_LISTS.affiliateParamsByDomain).flatMap(([listed, params]) =>
+    matchesDomain(domain, listed) ? params : [],
+  ),
+];
+
+const parseUrl = (url: string) => {
+  try {
+    return new URL(SCHEME_PATTERN.test(url) ? url : `https://${url}`);
+  } catch {
+    return null;
+  }
+};
+
+const classifyLink = (url: string, start: number, penalizesLinks: boolean): LinkResult => {
+  const parsed = parseUrl(url);
+  const suggestions = penalizesLinks ? [MOVE_TO_REPLY_SUGGESTION] : [];
+  if (!parsed) {
+    return { start, end: start + url.length, url, findings: [], suggestions };
+  }
+
+  const domain = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const paramNames = [...new Set(parsed.searchParams.keys())];
+  const affiliateParams = getAffiliateParams(domain);
+  const trackingParams = paramNames.filter(isTrackingParam);
+
+  const findings = LINK_FINDING_KEYS.filter((key) => {
+    switch (key) {
+      case 'shortener':
+        return onList(domain, LINK_LISTS.shorteners);
+      case 'spamDomain':
+        return onList(domain, LINK_LISTS.spamDomains);
+      case 'affiliate':
+        return onList(domain, LINK_LISTS.affiliateDomains) || paramNames.some((name) => affiliateParams.includes(name));
+      case 'tracking':
+        return trackingParams.length > 0;
+    }
+  });
+
+  let cleanUrl: string | undefined;
+  if (trackingParams.length > 0) {
+    trackingParams.forEach((name) => parsed.searchParams.delete(name));
+    // Written the way the post wrote it: without a scheme if it had none.
+    cleanUrl = SCHEME_PATTERN.test(url) ? parsed.toString() : parsed.toString().replace(SCHEME_PATTERN, '');
+  }
+
+  return {
+    start,
+    end: start + url.length,
+    url,
+    domain,
+    findings,
+    ...(trackingParams.length > 0 ? { trackingParams, cleanUrl } : {}),
+    suggestions: [...suggestions, ...findings.map((key) => LINK_FINDING_REGISTRY[key].suggestion)],
+  };
+};
+
+// Every link in the post, including bare domains, in order of appearance.
+// Offsets are into `post` as given, like evidence spans.
+export function classifyLinks(post: string, platform: Platform): LinkResult[] {
+  const penalizesLinks = !PLATFORMS[platform].excludedFactors.includes('hasLinks');
+  return findUrls(post).map(({ url, index }) => classifyLink(url, index, penalizesLinks));
+}
+
+export const describeLinks = (links: LinkResult[]) =>
+  links
+    .map(
+      ({ url, findings }) =>
+        `${url} (${findings.length ? findings.map((key) => LINK_FINDING_REGISTRY[key].label.toLowerCase()).join(', ') : 'no issues found'})`,
+    )
+    .join('; ');
@@ -0,0 +1,108 @@
+import 'server-only';
+
+import { createMockProvider } from './mockProvider';
+import { createOpenAIProvider } from './openaiProvider';
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+// What the request is for. Providers may ignore it; the mock provider uses it
+// to decide which kind of JSON to produce.
+export type LlmTask = 'analysis' | 'rewrite';
+
+export interface ChatRequest {
+  task: LlmTask;
+  messages: ChatMessage[];
+  temperature?: number;
+  // The post the request is about, for providers that derive output locally.
+  post?: string;
+  // Cancels the request, e.g. when the client that asked for it disconnects.
+  signal?: AbortSignal;
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatResponse {
+  content: string;
+  model: string;
+  usage?: ChatUsage;
+}
+
+// A chat model that replies with a JSON object. Streaming is optional; callers
+// fall back to chatJson when a provider does not implement it.
+export interface LlmProvider {
+  name: string;
+  model: string;
+  supportsVision: boolean;
+  chatJson: (request: ChatRequest) => Promise<ChatResponse>;
+  streamChatJson?: (request: ChatRequest, onDelta: (delta: string) => void) => Promise<ChatResponse>;
+}
+
+const DEFAULT_OPENAI_MODEL = 'gpt-5-chat-latest';
+
+// Picks the provider from the environment:
+// - LLM_PROVIDER=openai (default when OPENAI_API_KEY is set)
+// - LLM_PROVIDER=openai-compatible with LLM_BASE_URL, optional LLM_API_KEY and LLM_VISION=true
+// - LLM_PROVIDER=mock for a deterministic, offline provider
+// LLM_MODEL overrides the model name. Returns null when nothing is configured,
+// which puts the app in offline mode.
+const resolveProvider = (): LlmProvider | null => {
+  const providerName = process.env.LLM_PROVIDER ?? (process.env.OPENAI_API_KEY ? 'openai' : '');
+  const model = process.env.LLM_MODEL;
+
+  switch (providerName) {
+    case 'openai': {
+      const apiKey = process.env.LLM_API_KEY ?? process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        console.warn('LLM_PROVIDER=openai but no API key is configured; running offline');
+        return null;
+      }
+      return createOpenAIProvider({
+        name: 'openai',
+        apiKey,
+        model: model ?? DEFAULT_OPENAI_MODEL,
+        supportsVision: true,
+      });
+    }
+    case 'openai-compatible': {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (!baseURL || !model) {
+        console.warn('LLM_PROVIDER=openai-compatible needs LLM_BASE_URL and LLM_MODEL; running offline');
+        return null;
+      }
+      return createOpenAIProvider({
+        name: 'openai-compatible',
+        apiKey: process.env.LLM_API_KEY ?? 'not-needed',
+        baseURL,
+        model,
+        supportsVision: process.env.LLM_VISION === 'true',
+      });
+    }
+    case 'mock':
+      return createMockProvider({ model });
+    case '':
+      return null;
+    default:
+      console.warn(`Unknown LLM_PROVIDER "${providerName}"; running offline`);
+      return null;
+  }
+};
+
+let provider: LlmProvider | null = resolveProvider();
+
+export const getLlmProvider = () => provider;
+
+// Swaps the active provider, e.g. for the mock provider in scripts and tests.
+export const setLlmProvider = (next: LlmProvider | null) => {
+  provider = next;
+};
@@ -0,0 +1,89 @@
+import type { ImageFormat } from './analysisResult';
+
+// X allows up to four images on a post, or a single GIF.
+export const MAX_MEDIA_ITEMS = 4;
+
+// X's per-file upload limits, which apply to binary (multipart) uploads.
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_GIF_BYTES = 15 * 1024 * 1024;
+// Images sent as base64 data URLs in a JSON body grow by a third on the wire,
+// so that older form keeps a lower limit.
+export const MAX_DATA_URL_IMAGE_BYTES = 2 * 1024 * 1024;
+
+export const MEDIA_MIME_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+};
+
+export interface MediaFindingDefinition {
+  label: string;
+  // Plain-language explanation shown to users.
+  description: string;
+  // What the model is told to look for in each image.
+  rubric: string;
+}
+
+// Checks made on every attached image separately from the post's factors.
+export const MEDIA_FINDING_REGISTRY = {
+  textOverlay: {
+    label: 'Text overlay',
+    description: 'Text is laid over the image, which timelines may treat as a screenshot or ad creative.',
+    rubric: 'Text laid over the image, such as captions, quote cards or screenshots of text',
+  },
+  memeTemplate: {
+    label: 'Meme template',
+    description: 'The image is a recognizable meme template or reaction image.',
+    rubric: 'A recognizable meme template or reaction image',
+  },
+  nsfw: {
+    label: 'NSFW',
+    description: 'Sexual, nude or graphic content that is not safe for work.',
+    rubric: 'Sexual, nude or graphic content that is not safe for work',
+  },
+  watermark: {
+    label: 'Watermark',
+    description: "A watermark or another platform's logo or handle, which suggests reposted content.",
+    rubric: "A watermark, stock-photo mark or another platform's logo or handle",
+  },
+} as const satisfies Record<string, MediaFindingDefinition>;
+
+export type MediaFindingKey = keyof typeof MEDIA_FINDING_REGISTRY;
+
+export type MediaFindings = Record<MediaFindingKey, boolean>;
+
+export const MEDIA_FINDING_KEYS = Object.keys(MEDIA_FINDING_REGISTRY) as MediaFindingKey[];
+
+export const formatFromMimeType = (mimeType: string): ImageFormat | null => {
+  const normalized = mimeType.toLowerCase() === 'image/jpg' ? 'image/jpeg' : mimeType.toLowerCase();
+  return (Object.keys(MEDIA_MIME_TYPES) as ImageFormat[]).find((format) => MEDIA_MIME_TYPES[format] === normalized) ?? null;
+};
+
+export const getMaxImageBytes = (format: ImageFormat) => (format === 'gif' ? MAX_GIF_BYTES : MAX_IMAGE_BYTES);
+
+export const formatMegabytes = (bytes: number) => `${Math.round((bytes / (1024 * 1024)) * 10) / 10}MB`;
+
+// Applies X's attachment rules to the formats of the attached images, in
+// order. Returns an error message, or null when the set is allowed.
+export const validateMediaSelection = (formats: readonly ImageFormat[]) => {
+  if (formats.length > MAX_MEDIA_ITEMS) {
+    return `Attach at most ${MAX_MEDIA_ITEMS} images`;
+  }
+
+  if (formats.length > 1 && formats.includes('gif')) {
+    return 'A GIF has to be the only attachment on a post';
+  }
+
+  return null;
+};
+
+// An image picked in the browser, before it is uploaded for analysis.
+export interface SelectedMedia {
+  id: string;
+  file: File;
+  // Object URL for previews; revoked once nothing shows it any more.
+  previewUrl: string;
+  format: ImageFormat;
+}
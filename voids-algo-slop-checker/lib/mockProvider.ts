@@ -0,0 +1,129 @@
+import 'server-only';
+
+import { getFactorWeight } from './factors';
+import { buildHeuristicResult, computeHeuristics } from './heuristics';
+import type { ChatRequest, ChatResponse, LlmProvider } from './llmProvider';
+import { MAX_POST_LENGTH } from './postValidation';
+
+interface MockProviderOptions {
+  model?: string;
+  // Canned reply for a request. Falls back to the rule-derived reply when it
+  // returns undefined.
+  respond?: (request: ChatRequest) => string | undefined;
+}
+
+const PROMOTIONAL_PATTERN = /\b(buy now|sale|discount|promo code|limited time|link in bio|sign up|use code)\b/i;
+const SPAM_PATTERN = /\b(follow for follow|f4f|giveaway|dm me|click here|free money|retweet to win)\b/i;
+const OFFENSIVE_PATTERN = /\b(idiot|stupid|moron|shut up|trash)\b/i;
+const HASHTAG_OR_LINK_PATTERN = /(\s*#[\p{L}\p{N}_]+|\s*\b(?:https?:\/\/|www\.)\S+)/gu;
+
+const STREAM_CHUNK_SIZE = 24;
+
+// Approximates token counts so usage reporting has something to show.
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const requestText = (request: ChatRequest) =>
+  request.messages
+    .map(({ content }) =>
+      typeof content === 'string'
+        ? content
+        : content.map((part) => (part.type === 'text' ? part.text : '')).join('\n'),
+    )
+    .join('\n');
+
+const mockAnalysis = (post: string) => {
+  const heuristics = computeHeuristics(post);
+  const base = buildHeuristicResult(heuristics);
+
+  const promotional = PROMOTIONAL_PATTERN.test(post);
+  const spam = SPAM_PATTERN.test(post);
+  const offensive = OFFENSIVE_PATTERN.test(post);
+  const encouragesEngagement = post.includes('?') && !spam;
+  const informative = heuristics.measurements.wordCount >= 15 && !promotional && !spam;
+
+  const slopScore = Math.min(
+    100,
+    Math.max(
+      0,
+      base.slopScore +
+        (promotional ? getFactorWeight('promotional') : 0) +
+        (spam ? getFactorWeight('spam') : 0) +
+        (offensive ? getFactorWeight('offensive') : 0) +
+        (informative ? getFactorWeight('informative') : 0) +
+        (encouragesEngagement ? getFactorWeight('encouragesEngagement') : 0),
+    ),
+  );
+
+  const factors = {
+    ...base.factors,
+    spam,
+    promotional,
+    offensive,
+    slopAnnotation: spam,
+    informative,
+    encouragesEngagement,
+  };
+
+  return {
+    slopScore,
+    factors,
+    // Rules are either matched or not, so confidences sit near the ends.
+    confidence: Object.fromEntries(Object.entries(factors).map(([key, flagged]) => [key, flagged ? 0.9 : 0.1])),
+    summary: `Mock analysis derived from local rules: ${base.recommendations.length} formatting signal(s) flagged.`,
+    recommendations: base.recommendations.length
+      ? base.recommendations
+      : ['No changes needed according to the mock rules.'],
+  };
+};
+
+const toSentenceCase = (text: string) =>
+  text.toLowerCase().replace(/(^\s*|[.!?]\s+)(\p{L})/gu, (_, prefix: string, letter: string) => prefix + letter.toUpperCase());
+
+const mockRewrite = (post: string) => {
+  const cleaned = post.replace(HASHTAG_OR_LINK_PATTERN, '').replace(/\s{2,}/g, ' ').trim() || post.trim();
+  const calm = computeHeuristics(cleaned).factors.allCaps ? toSentenceCase(cleaned) : cleaned;
+  const firstSentence = calm.split(/(?<=[.!?])\s+/)[0] ?? calm;
+
+  const drafts = [calm, `${calm} What do you think?`, `Quick thought: ${firstSentence}`]
+    .map((draft) => draft.slice(0, MAX_POST_LENGTH).trim())
+    .filter((draft, index, all) => draft && all.indexOf(draft) === index);
+
+  return { drafts };
+};
+
+const ruleDerivedReply = (request: ChatRequest) => {
+  const post = request.post ?? requestText(request);
+  return JSON.stringify(request.task === 'rewrite' ? mockRewrite(post) : mockAnalysis(post));
+};
+
+// Deterministic provider for local development, tests and the evaluation
+// harness. It never touches the network.
+export function createMockProvider({ model = 'mock-rules-v1', respond }: MockProviderOptions = {}): LlmProvider {
+  const reply = (request: ChatRequest): ChatResponse => {
+    const content = respond?.(request) ?? ruleDerivedReply(request);
+    const promptTokens = estimateTokens(requestText(request));
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  };
+
+  return {
+    name: 'mock',
+    model,
+    supportsVision: false,
+    async chatJson(request) {
+      return reply(request);
+    },
+    async streamChatJson(request, onDelta) {
+      const response = reply(request);
+      for (let i = 0; i < response.content.length; i += STREAM_CHUNK_SIZE) {
+        onDelta(response.content.slice(i, i + STREAM_CHUNK_SIZE));
+      }
+      return response;
+    },
+  };
+}
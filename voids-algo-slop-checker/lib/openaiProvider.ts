@@ -0,0 +1,88 @@
+import 'server-only';
+
+import OpenAI from 'openai';
+
+import type { ChatRequest, ChatResponse, ChatUsage, LlmProvider } from './llmProvider';
+
+interface OpenAIProviderOptions {
+  name: string;
+  apiKey: string;
+  model: string;
+  supportsVision: boolean;
+  // Set for OpenAI-compatible servers (vLLM, Ollama, LM Studio, other vendors).
+  baseURL?: string;
+}
+
+const toUsage = (usage: OpenAI.CompletionUsage | null | undefined): ChatUsage | undefined =>
+  usage
+    ? {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      }
+    : undefined;
+
+export function createOpenAIProvider({
+  name,
+  apiKey,
+  model,
+  supportsVision,
+  baseURL,
+}: OpenAIProviderOptions): LlmProvider {
+  const client = new OpenAI({ apiKey, baseURL });
+
+  // Our message shape is a subset of the OpenAI one.
+  const toMessages = (request: ChatRequest) =>
+    request.messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[];
+
+  return {
+    name,
+    model,
+    supportsVision,
+    async chatJson(request): Promise<ChatResponse> {
+      const completion = await client.chat.completions.create(
+        {
+          model,
+          messages: toMessages(request),
+          response_format: { type: 'json_object' },
+          temperature: request.temperature,
+        },
+        { signal: request.signal },
+      );
+
+      return {
+        content: completion.choices[0]?.message.content ?? '',
+        model: completion.model,
+        usage: toUsage(completion.usage),
+      };
+    },
+    async streamChatJson(request, onDelta): Promise<ChatResponse> {
+      const stream = await client.chat.completions.create(
+        {
+          model,
+          messages: toMessages(request),
+          response_format: { type: 'json_object' },
+          temperature: request.temperature,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: request.signal },
+      );
+
+      let content = '';
+      let usage: ChatUsage | undefined;
+      let responseModel = model;
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content ?? '';
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        responseModel = chunk.model || responseModel;
+        usage = toUsage(chunk.usage) ?? usage;
+      }
+
+      return { content, model: responseModel, usage };
+    },
+  };
+}
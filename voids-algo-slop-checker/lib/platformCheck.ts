@@ -0,0 +1,63 @@
+import type { AnalysisResult } from './analysisResult';
+import { parseAnalysisResult } from './analysisSchema';
+import { countPostLength, getMaxLength, isPlatform, PLATFORM_KEYS, type Platform } from './platforms';
+
+// One post checked against one network.
+export interface PlatformCheck {
+  platform: Platform;
+  length: number;
+  maxLength: number;
+  // Null when the post is over this network's limit and was not analyzed.
+  result: AnalysisResult | null;
+}
+
+// The "check for all platforms" response, in PLATFORM_KEYS order.
+export interface MultiPlatformResult {
+  checks: PlatformCheck[];
+}
+
+export const measureForPlatform = (post: string, platform: Platform, longPost = false) => {
+  const length = countPostLength(post, platform);
+  const maxLength = getMaxLength(platform, longPost);
+  return { length, maxLength, fits: length <= maxLength };
+};
+
+// The networks an all-platforms check analyzes the post for.
+export const getFittingPlatforms = (post: string) =>
+  PLATFORM_KEYS.filter((platform) => measureForPlatform(post, platform).fits);
+
+const toRecord = (value: unknown): Record<string, unknown> | null =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+
+// Reads an all-platforms response from the API. Returns null when any check
+// does not match the expected shape.
+export function parseMultiPlatformResult(raw: unknown): MultiPlatformResult | null {
+  const record = toRecord(raw);
+  if (!record || !Array.isArray(record.checks)) {
+    return null;
+  }
+
+  const checks: PlatformCheck[] = [];
+  for (const item of record.checks) {
+    const check = toRecord(item);
+    if (
+      !check ||
+      !isPlatform(check.platform) ||
+      typeof check.length !== 'number' ||
+      typeof check.maxLength !== 'number'
+    ) {
+      return null;
+    }
+
+    const result = check.result === null ? null : parseAnalysisResult(check.result);
+    if (check.result !== null && !result) {
+      return null;
+    }
+
+    checks.push({ platform: check.platform, length: check.length, maxLength: check.maxLength, result });
+  }
+
+  return { checks };
+}
@@ -0,0 +1,190 @@
+import { FACTOR_KEYS, type FactorKey } from './factors';
+import { countWeightedLength, splitGraphemes } from './weightedLength';
+
+// Networks a post can be checked for. Everything that differs between them
+// (length limit and counting, the prompt's framing and the factor set) is
+// described here, so adding a network is one entry in PLATFORMS.
+export type Platform = 'x' | 'bluesky' | 'threads' | 'mastodon' | 'linkedin';
+
+// How a network counts toward its limit: UTF-16 code units (what
+// `String.length` returns), Unicode code points, user-perceived characters
+// (grapheme clusters, so an emoji with modifiers counts once), or X's weighted
+// length (see weightedLength.ts).
+export type LengthCounting = 'utf16' | 'codepoints' | 'graphemes' | 'weighted';
+
+// A higher limit for paid accounts. Only the start of a long post shows in
+// the timeline, so the length curve is shifted rather than the limit alone,
+// and widened so that only posts at the limit reach its upper tail.
+export interface LongPostDefinition {
+  label: string;
+  maxLength: number;
+  lengthCurveMidpoint: number;
+  lengthCurveScale: number;
+  rankingNote: string;
+}
+
+export interface PlatformDefinition {
+  label: string;
+  maxLength: number;
+  counting: LengthCounting;
+  // Opens the system prompt: "You are <expertise>."
+  expertise: string;
+  // Factors that do not affect reach on this network. They are left out of
+  // the prompt and always reported as false.
+  excludedFactors: FactorKey[];
+  // Replaces a factor's rubric line where the registry wording is X-specific.
+  rubricOverrides: Partial<Record<FactorKey, string>>;
+  // Network-specific ranking guidance added after the rubric.
+  rankingNotes: string[];
+  // Local heuristic thresholds.
+  maxHashtags: number;
+  maxMentions: number;
+  lengthCurveMidpoint: number;
+  lengthCurveScale: number;
+  longPost?: LongPostDefinition;
+}
+
+// The registry wording for these factors names X's Grok filters.
+const NEUTRAL_SPAM_RUBRIC: Partial<Record<FactorKey, string>> = {
+  spam: "Spam or low-quality copy that the network's spam and quality filters would catch",
+  slopAnnotation: 'Engagement bait, scraped or templated text, or obvious follower farming',
+};
+
+export const PLATFORMS: Record<Platform, PlatformDefinition> = {
+  x: {
+    label: 'X',
+    maxLength: 280,
+    counting: 'weighted',
+    expertise: 'an X (Twitter) algorithm expert',
+    excludedFactors: [],
+    rubricOverrides: {},
+    rankingNotes: [],
+    maxHashtags: 2,
+    maxMentions: 2,
+    lengthCurveMidpoint: 70,
+    lengthCurveScale: 20,
+    longPost: {
+      label: 'Premium long post',
+      maxLength: 25000,
+      lengthCurveMidpoint: 600,
+      // The upper tail starts at about 24,800, right at the limit.
+      lengthCurveScale: 3500,
+      rankingNote:
+        'This is a Premium long post: only the first 280 characters show before "Show more", so the opening has to earn the click. Length alone is not a problem unless the post is padded.',
+    },
+  },
+  bluesky: {
+    label: 'Bluesky',
+    maxLength: 300,
+    counting: 'graphemes',
+    expertise: 'a Bluesky feed and moderation expert',
+    // Links render as cards and are not downranked by the default feeds.
+    excludedFactors: ['hasLinks'],
+    rubricOverrides: NEUTRAL_SPAM_RUBRIC,
+    rankingNotes: [
+      'Bluesky has no single ranking algorithm: posts reach people through the Following feed and custom feeds that mostly match keywords, hashtags and likes.',
+      'Labelers flag sensitive content, so nsfw, graphicViolence and offensive posts get hidden behind warnings.',
+    ],
+    maxHashtags: 2,
+    maxMentions: 3,
+    lengthCurveMidpoint: 80,
+    lengthCurveScale: 20,
+  },
+  threads: {
+    label: 'Threads',
+    maxLength: 500,
+    counting: 'codepoints',
+    expertise: 'a Threads (Meta) ranking expert',
+    excludedFactors: [],
+    rubricOverrides: {
+      ...NEUTRAL_SPAM_RUBRIC,
+      tooManyHashtags: 'More than one topic tag (Threads only links a single tag per post)',
+    },
+    rankingNotes: [
+      'Threads ranks For You by predicted replies and reposts, and Meta demotes engagement bait and content that links away from the app.',
+      'One topic tag per post is the norm; extra hashtags read as spam.',
+    ],
+    maxHashtags: 1,
+    maxMentions: 3,
+    lengthCurveMidpoint: 100,
+    lengthCurveScale: 30,
+  },
+  mastodon: {
+    label: 'Mastodon',
+    maxLength: 500,
+    counting: 'codepoints',
+    expertise: 'a Mastodon and fediverse community expert',
+    // Home timelines are chronological, so links cost nothing.
+    excludedFactors: ['hasLinks'],
+    rubricOverrides: {
+      ...NEUTRAL_SPAM_RUBRIC,
+      tooManyHashtags: 'Hashtag stuffing beyond a handful of relevant tags (hashtags are how posts are found)',
+      nsfw: 'NSFW or soft NSFW references posted without a content warning',
+      graphicViolence: 'Graphic gore or violence posted without a content warning',
+    },
+    rankingNotes: [
+      'Mastodon has no engagement ranking: posts spread through follows, boosts, hashtags and the trending lists, which moderators curate.',
+      'Community norms matter: content warnings for sensitive topics and a few relevant hashtags help; promotional or automated-sounding posts get muted or reported.',
+    ],
+    maxHashtags: 5,
+    maxMentions: 4,
+    lengthCurveMidpoint: 100,
+    lengthCurveScale: 30,
+  },
+  linkedin: {
+    label: 'LinkedIn',
+    maxLength: 3000,
+    counting: 'utf16',
+    expertise: 'a LinkedIn feed ranking expert',
+    excludedFactors: [],
+    rubricOverrides: {
+      ...NEUTRAL_SPAM_RUBRIC,
+      slopAnnotation:
+        'Engagement bait ("comment YES", "agree?"), one-line-per-sentence broetry, or templated inspirational stories',
+      tooManyMentions: 'Tagging people who are unlikely to respond, or more than a few people at once',
+    },
+    rankingNotes: [
+      'LinkedIn ranks by dwell time and early meaningful comments; only the first ~210 characters show before "see more", so the opening must carry the post.',
+      'Posts with external links reach noticeably fewer people, and engagement bait is explicitly demoted.',
+    ],
+    maxHashtags: 5,
+    maxMentions: 5,
+    lengthCurveMidpoint: 500,
+    lengthCurveScale: 150,
+  },
+};
+
+export const PLATFORM_KEYS = Object.keys(PLATFORMS) as Platform[];
+
+export const DEFAULT_PLATFORM: Platform = 'x';
+
+export const isPlatform = (value: unknown): value is Platform =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PLATFORMS, value);
+
+// The longest limit of any platform, for checks that apply to all of them.
+export const MAX_PLATFORM_LENGTH = Math.max(...PLATFORM_KEYS.map((key) => PLATFORMS[key].maxLength));
+
+export const supportsLongPost = (platform: Platform) => Boolean(PLATFORMS[platform].longPost);
+
+// The limit a post is held to. `longPost` only applies where the platform
+// offers long posts.
+export const getMaxLength = (platform: Platform, longPost = false) =>
+  (longPost && PLATFORMS[platform].longPost?.maxLength) || PLATFORMS[platform].maxLength;
+
+// Length as the platform counts it toward its limit.
+export function countPostLength(text: string, platform: Platform): number {
+  switch (PLATFORMS[platform].counting) {
+    case 'weighted':
+      return countWeightedLength(text);
+    case 'graphemes':
+      return splitGraphemes(text).length;
+    case 'codepoints':
+      return Array.from(text).length;
+    default:
+      return text.length;
+  }
+}
+
+// Factors scored on a platform, in registry order.
+export const getPlatformFactorKeys = (platform: Platform) =>
+  FACTOR_KEYS.filter((key) => !PLATFORMS[platform].excludedFactors.includes(key));
@@ -0,0 +1,45 @@
+import { countPostLength, DEFAULT_PLATFORM, getMaxLength, MAX_PLATFORM_LENGTH, PLATFORMS, type Platform } from './platforms';
+
+// X's limit, kept for callers that do not deal with platforms.
+export const MAX_POST_LENGTH = PLATFORMS[DEFAULT_PLATFORM].maxLength;
+export const MAX_DISPLAY_NAME_LENGTH = 50;
+
+// Returns a user-facing error message, or null when the post text is
+// acceptable. `platform` picks the limit and how it is counted; 'all' accepts
+// anything that fits at least the most generous platform. `longPost` raises
+// the limit where the platform offers long posts.
+export const validatePostText = (
+  value: unknown,
+  label = 'post',
+  platform: Platform | 'all' = DEFAULT_PLATFORM,
+  longPost = false,
+) => {
+  if (!value || typeof value !== 'string' || !value.trim()) {
+    return `Invalid ${label} content`;
+  }
+
+  const length = platform === 'all' ? value.length : countPostLength(value, platform);
+  const limit = platform === 'all' ? MAX_PLATFORM_LENGTH : getMaxLength(platform, longPost);
+  if (length > limit) {
+    const name = platform === 'all' ? '' : ` ${PLATFORMS[platform].label}`;
+    return `${label[0].toUpperCase()}${label.slice(1)} exceeds the${name} ${limit.toLocaleString('en-US')} character limit`;
+  }
+
+  return null;
+};
+
+export const validateDisplayName = (value: unknown) => {
+  if (!value || typeof value !== 'string') {
+    return 'Invalid display name';
+  }
+
+  if (!value.trim()) {
+    return 'Display name is required';
+  }
+
+  if (value.length > MAX_DISPLAY_NAME_LENGTH) {
+    return `Display name exceeds ${MAX_DISPLAY_NAME_LENGTH} character limit`;
+  }
+
+  return null;
+};
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { findPrivateInfo, redactPrivateInfo, restoreEvidence, restorePlaceholders } from './privateInfo';
+
+const kindsIn = (post: string) =>
+  findPrivateInfo(post).map(({ kind, start, end }) => [kind, post.slice(start, end)]);
+
+test('finds each kind of detail with offsets into the post', () => {
+  assert.deepEqual(kindsIn('Mail jane.doe@example.com or call +44 20 7946 0958'), [
+    ['email', 'jane.doe@example.com'],
+    ['phone', '+44 20 7946 0958'],
+  ]);
+  assert.deepEqual(kindsIn('Card 4111 1111 1111 1111, IBAN GB82 WEST 1234 5698 7654 32'), [
+    ['card', '4111 1111 1111 1111'],
+    ['iban', 'GB82 WEST 1234 5698 7654 32'],
+  ]);
+  assert.deepEqual(kindsIn('Drop it at 221B Baker Street.'), [['address', '221B Baker Street.']]);
+});
+
+test('reports only the value of a key=value secret', () => {
+  assert.deepEqual(kindsIn('api_key=abcd1234efgh5678'), [['secret', 'abcd1234efgh5678']]);
+});
+
+test('ignores numbers that only look like details', () => {
+  assert.deepEqual(kindsIn('Released 2026-10-19, order 1234567890123 for $1,299.99'), []);
+  assert.deepEqual(kindsIn('Card 4111 1111 1111 1112 fails the checksum'), []);
+  assert.deepEqual(kindsIn('Order #123 456 7890'), []);
+});
+
+test('needs address context after a street name', () => {
+  assert.deepEqual(kindsIn('In 2024 Apple Park Way opened'), []);
+  assert.deepEqual(kindsIn('Top 10 Tips Road trip'), []);
+  assert.deepEqual(kindsIn('We have 3 Big Ideas Way ahead'), []);
+  assert.deepEqual(kindsIn('Hit 10 Big Wins Way. Next up: 20.'), []);
+
+  assert.deepEqual(kindsIn('Meet at 12 Oak Street in Boston'), [['address', '12 Oak Street']]);
+  assert.deepEqual(kindsIn('Send it to 4 Privet Close, Little Whinging'), [['address', '4 Privet Close']]);
+  assert.deepEqual(kindsIn('Ship to 5 Elm Way 90210'), [['address', '5 Elm Way']]);
+  assert.deepEqual(kindsIn('Ship to 350 Fifth Avenue, Suite 3300'), [['address', '350 Fifth Avenue, Suite 3300']]);
+});
+
+test('restores evidence spans around placeholders of a different length', () => {
+  const post = 'Email jane@example.com now or call 555-123-4567 today';
+  const redaction = redactPrivateInfo(post, findPrivateInfo(post));
+  assert.equal(redaction.text, 'Email [email] now or call [phone number] today');
+
+  const spanOf = (text: string, part: string) => ({ start: text.indexOf(part), end: text.indexOf(part) + part.length });
+  const restored = restoreEvidence(
+    {
+      privateInfo: [spanOf(redaction.text, '[email]'), spanOf(redaction.text, '[phone number]')],
+      spam: [spanOf(redaction.text, 'now'), spanOf(redaction.text, 'today')],
+    },
+    redaction,
+  );
+
+  assert.deepEqual(restored?.privateInfo, [spanOf(post, 'jane@example.com'), spanOf(post, '555-123-4567')]);
+  assert.deepEqual(restored?.spam, [spanOf(post, 'now'), spanOf(post, 'today')]);
+});
+
+test('snaps offsets inside a placeholder to the edges of the detail', () => {
+  const post = 'Write to jane@example.com';
+  const redaction = redactPrivateInfo(post, findPrivateInfo(post));
+  const placeholderStart = redaction.text.indexOf('[email]');
+
+  const restored = restoreEvidence({ privateInfo: [{ start: placeholderStart + 2, end: placeholderStart + 4 }] }, redaction);
+
+  assert.deepEqual(restored?.privateInfo, [{ start: post.indexOf('jane'), end: post.length }]);
+  assert.equal(restoreEvidence(undefined, redaction), undefined);
+});
+
+test('fills placeholders back in only when their kind had one value', () => {
+  const post = 'Mail jane@example.com or bob@example.com, call +1 415 555 0100';
+  const redaction = redactPrivateInfo(post, findPrivateInfo(post));
+
+  assert.equal(
+    restorePlaceholders('Reach us at [email] or [phone number]', post, redaction),
+    'Reach us at [email] or +1 415 555 0100',
+  );
+});
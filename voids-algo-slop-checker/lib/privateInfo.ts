@@ -0,0 +1,219 @@
+import type { EvidenceSpan, FactorEvidence } from './analysisResult';
+
+// Personal details that can be found in a post without a model. Detection runs
+// on the server before anything is sent to the model, and in the browser to
+// preview what would be redacted.
+
+export interface PrivateInfoKindDefinition {
+  label: string;
+  // Replaces the match in the text sent to the model when redacting.
+  placeholder: string;
+}
+
+export const PRIVATE_INFO_KINDS = {
+  email: { label: 'Email address', placeholder: '[email]' },
+  phone: { label: 'Phone number', placeholder: '[phone number]' },
+  card: { label: 'Card number', placeholder: '[card number]' },
+  iban: { label: 'IBAN', placeholder: '[IBAN]' },
+  address: { label: 'Street address', placeholder: '[address]' },
+  secret: { label: 'API key or secret', placeholder: '[secret]' },
+} as const satisfies Record<string, PrivateInfoKindDefinition>;
+
+export type PrivateInfoKind = keyof typeof PRIVATE_INFO_KINDS;
+
+export const PRIVATE_INFO_KIND_KEYS = Object.keys(PRIVATE_INFO_KINDS) as PrivateInfoKind[];
+
+// One detected detail, as a range into the post.
+export interface PrivateInfoMatch extends EvidenceSpan {
+  kind: PrivateInfoKind;
+}
+
+interface Detector {
+  kind: PrivateInfoKind;
+  pattern: RegExp;
+  // Rejects matches that only look like the kind, e.g. failing a checksum.
+  accept?: (match: string) => boolean;
+  // Only the last capture group is the detail, e.g. the value of `token=...`.
+  valueGroup?: boolean;
+}
+
+// A number, capitalized words and a street suffix is also how plenty of
+// ordinary sentences read ("Top 10 Tips Road trip"), so a street address needs
+// something after it that only addresses have. Distinctive suffixes pass when
+// the sentence does not run on in lowercase after them; the generic ones (Way,
+// Place, Close...) need a comma-separated city, "in <City>" or a postcode.
+const STREET_SUFFIXES =
+  'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Highway|Hwy|Parkway|Pkwy';
+const GENERIC_STREET_SUFFIXES = 'Court|Ct|Place|Pl|Terrace|Way|Close|Crescent|Square|Sq';
+
+const STREET_NAME = '\\b\\d{1,5}[A-Za-z]?\\s+(?:\\p{Lu}[\\p{L}\'.-]*\\s+){1,4}';
+const STREET_UNIT = '(?:,?\\s+(?:Apt|Apartment|Suite|Ste|Unit|Flat)\\.?\\s*#?[\\p{L}\\p{N}]+)?';
+// US ZIP codes and UK postcodes.
+const POSTCODE = '(?:\\d{5}(?:-\\d{4})?|[A-Z]{1,2}\\d[A-Z\\d]?\\s*\\d[A-Z]{2})\\b';
+const STREET_PLACE = `(?=,\\s*(?:\\p{Lu}\\p{L}|${POSTCODE})|\\s+in\\s+\\p{Lu}|\\s+${POSTCODE})`;
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+const passesLuhn = (digits: string) => {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const isCardNumber = (match: string) => {
+  const digits = digitsOf(match);
+  // A run of one repeated digit passes the checksum but is never a card.
+  return digits.length >= 13 && digits.length <= 19 && !/^(\d)\1+$/.test(digits) && passesLuhn(digits);
+};
+
+// ISO 13616: the country code and check digits move to the end, letters
+// become numbers (A = 10) and the result must leave 1 when divided by 97.
+const isIban = (match: string) => {
+  const iban = match.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  let remainder = 0;
+  for (const char of iban.slice(4) + iban.slice(0, 4)) {
+    const value = char >= 'A' ? (char.charCodeAt(0) - 55).toString() : char;
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+};
+
+// International numbers (with a leading +) fit E.164. Without one, only
+// grouped 10 or 11 digit numbers count, so dates, prices and IDs do not.
+const isPhoneNumber = (match: string) => {
+  const digits = digitsOf(match);
+  if (match.startsWith('+')) {
+    return digits.length >= 8 && digits.length <= 15;
+  }
+  return digits.length >= 10 && digits.length <= 11 && /[()\s.-]/.test(match) && !/^\d{4}-\d{2}-\d{2}/.test(match);
+};
+
+// In priority order: a match is dropped when it overlaps one found earlier,
+// so a card number is not also reported as a phone number.
+const DETECTORS: Detector[] = [
+  { kind: 'secret', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g },
+  { kind: 'secret', pattern: /\b(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { kind: 'secret', pattern: /\bsk-[A-Za-z0-9_-]{20,}/g },
+  { kind: 'secret', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { kind: 'secret', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { kind: 'secret', pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { kind: 'secret', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { kind: 'secret', pattern: /\beyJ[\w-]{10,}\.eyJ[\w-]{10,}\.[\w-]{10,}/g },
+  {
+    kind: 'secret',
+    pattern: /\b(?:api[_-]?key|secret|token|password|passwd)["']?\s*[:=]\s*["']?([^\s"']{8,})/gi,
+    valueGroup: true,
+  },
+  {
+    kind: 'email',
+    pattern: /(?<![\p{L}\p{N}._%+-])[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu,
+  },
+  { kind: 'iban', pattern: /\b[A-Za-z]{2}\d{2}(?: ?[A-Za-z0-9]{4}){2,7}(?: ?[A-Za-z0-9]{1,3})?\b/g, accept: isIban },
+  { kind: 'card', pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g, accept: isCardNumber },
+  {
+    kind: 'phone',
+    pattern: /(?<![\p{L}\p{N}+#])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,5}(?:[ .-]?\d{2,5}){0,4}(?![\p{L}\p{N}])/gu,
+    accept: isPhoneNumber,
+  },
+  {
+    kind: 'address',
+    pattern: new RegExp(
+      `${STREET_NAME}(?:(?:${STREET_SUFFIXES})\\b\\.?${STREET_UNIT}(?![.,\\s-]*[\\p{Ll}\\p{N}])` +
+        `|(?:${STREET_SUFFIXES}|${GENERIC_STREET_SUFFIXES})\\b\\.?${STREET_UNIT}${STREET_PLACE})`,
+      'gu',
+    ),
+  },
+  { kind: 'address', pattern: /\p{Lu}[\p{L}-]*(?:straße|strasse|weg|gasse|allee|platz)\s+\d{1,4}[a-z]?\b/gu },
+  { kind: 'address', pattern: /\bP\.? ?O\.? Box \d+/gi },
+];
+
+// Every detail found in `post`, in text order. Offsets are into `post` as
+// given, like evidence spans.
+export function findPrivateInfo(post: string): PrivateInfoMatch[] {
+  const found: PrivateInfoMatch[] = [];
+
+  for (const { kind, pattern, accept, valueGroup } of DETECTORS) {
+    for (const match of post.matchAll(pattern)) {
+      const value = valueGroup ? match[match.length - 1] : match[0];
+      if (!value || (accept && !accept(value))) continue;
+
+      const end = (match.index ?? 0) + match[0].length;
+      const start = valueGroup ? end - value.length : end - match[0].length;
+      if (found.some((other) => start < other.end && other.start < end)) continue;
+
+      found.push({ kind, start, end });
+    }
+  }
+
+  return found.sort((a, b) => a.start - b.start);
+}
+
+// The post with every match replaced by its kind's placeholder, and where each
+// placeholder ended up so offsets into the redacted text can be mapped back.
+export interface Redaction {
+  text: string;
+  replacements: Array<{ match: PrivateInfoMatch } & EvidenceSpan>;
+}
+
+export function redactPrivateInfo(post: string, matches: PrivateInfoMatch[]): Redaction {
+  let text = '';
+  let cursor = 0;
+  const replacements: Redaction['replacements'] = [];
+
+  for (const match of matches) {
+    text += post.slice(cursor, match.start);
+    const { placeholder } = PRIVATE_INFO_KINDS[match.kind];
+    replacements.push({ match, start: text.length, end: text.length + placeholder.length });
+    text += placeholder;
+    cursor = match.end;
+  }
+
+  return { text: text + post.slice(cursor), replacements };
+}
+
+// Maps an offset into the redacted text back to the original post. Offsets
+// inside a placeholder snap to the edge of the detail it replaced.
+const restoreOffset = (offset: number, { replacements }: Redaction, edge: 'start' | 'end') => {
+  let shift = 0;
+  for (const { match, start, end } of replacements) {
+    if (offset <= start) break;
+    if (offset < end) return edge === 'start' ? match.start : match.end;
+    shift += match.end - match.start - (end - start);
+  }
+  return offset + shift;
+};
+
+// Evidence the model gave for the redacted text, moved onto the original post.
+export const restoreEvidence = (evidence: FactorEvidence | undefined, redaction: Redaction) =>
+  evidence &&
+  (Object.fromEntries(
+    Object.entries(evidence).map(([key, spans]) => [
+      key,
+      spans?.map(({ start, end }) => ({
+        start: restoreOffset(start, redaction, 'start'),
+        end: restoreOffset(end, redaction, 'end'),
+      })),
+    ]),
+  ) as FactorEvidence);
+
+// Puts the original details back into text the model wrote from a redacted
+// post, such as rewrite drafts. A placeholder is only filled in when its kind
+// stood for a single value in the post; otherwise it stays for the author.
+export const restorePlaceholders = (text: string, post: string, { replacements }: Redaction) =>
+  PRIVATE_INFO_KIND_KEYS.reduce((restored, kind) => {
+    const values = new Set(
+      replacements.filter(({ match }) => match.kind === kind).map(({ match }) => post.slice(match.start, match.end)),
+    );
+    return values.size === 1 ? restored.split(PRIVATE_INFO_KINDS[kind].placeholder).join([...values][0]) : restored;
+  }, text);
@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { DEFAULT_PROMPT_ID, getPromptFingerprints, PROMPT_TEMPLATES } from './prompts';
+import PROMPT_SNAPSHOTS from './promptSnapshots.json';
+
+const snapshots: Record<string, Record<string, string>> = PROMPT_SNAPSHOTS;
+
+test('every prompt version has a snapshot', () => {
+  const missing = Object.keys(PROMPT_TEMPLATES).filter((id) => !snapshots[id]);
+  assert.deepEqual(missing, [], 'Run `npm run prompts:snapshot` after adding a prompt version');
+});
+
+for (const template of Object.values(PROMPT_TEMPLATES)) {
+  test(`${template.id} renders the same text as when it was released`, (t) => {
+    if (!snapshots[template.id]) return t.skip('no snapshot yet');
+    assert.deepEqual(
+      getPromptFingerprints(template),
+      snapshots[template.id],
+      `${template.id} changed. Add a new prompt version instead of editing text an existing one uses.`,
+    );
+  });
+}
+
+test('the default prompt exists', () => {
+  assert.ok(PROMPT_TEMPLATES[DEFAULT_PROMPT_ID]);
+});
@@ -0,0 +1,208 @@
+import 'server-only';
+
+import crypto from 'node:crypto';
+
+import { buildFactorRubric, buildFactorSchema, type FactorKey } from './factors';
+import { MAX_MEDIA_ITEMS, MEDIA_FINDING_KEYS, MEDIA_FINDING_REGISTRY } from './media';
+import { getPlatformFactorKeys, PLATFORM_KEYS, PLATFORMS, supportsLongPost, type Platform } from './platforms';
+
+// A named, versioned system prompt, rendered for the platform being checked
+// and whether the post is a long post.
+// The id is stamped on every result and is part of the cache key, so editing
+// a template's text means adding a new version rather than changing an
+// existing one. That includes the shared sections and the factor and platform
+// registries they read from; `promptSnapshots.json` catches such edits.
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: number;
+  description: string;
+  render: (platform: Platform, longPost?: boolean) => string;
+}
+
+const PAYLOAD_SHAPE = `{
+  "post": "<body of the post>",
+  "displayName": "<author's display name>",
+  "image": {
+    "name": "<original file name>",
+    "dataUrl": "<optional base64 data URL string or null>"
+  } | null
+}`;
+
+const IMAGE_RULES =
+  'If an image is included, evaluate it for spammy overlays, offensive content, NSFW imagery, or engagement-baiting memes. If the image data cannot be interpreted, state that limitation in the summary and base the score on the available textual signals only.';
+
+// Posts with several images, or a GIF, describe each attachment in order.
+const MEDIA_PAYLOAD_SHAPE = `{
+  "post": "<body of the post>",
+  "displayName": "<author's display name>",
+  "media": [{
+    "name": "<original file name>",
+    "dataUrl": "<base64 data URL; a GIF arrives as several sampled frames>"
+  }] (up to ${MAX_MEDIA_ITEMS} images, or one GIF)
+}`;
+
+const responseShape = (platform: Platform, { evidence = false, confidence = false, media = false } = {}) => `{
+  "slopScore": number from 0-100 (0 = excellent, 100 = terrible algo slop),
+  "factors": ${buildFactorSchema(getPlatformFactorKeys(platform))},${
+    confidence ? `\n  "confidence": ${buildFactorSchema(getPlatformFactorKeys(platform), '    ', 'number from 0 to 1')},` : ''
+  }${
+    evidence
+      ? `
+  "evidence": {
+    "<factor key>": [{ "text": "<exact quote from the post body>", "start": number, "end": number }]
+  },`
+      : ''
+  }
+  "summary": "Brief explanation of the score",
+  "recommendations": ["Array of specific improvements tailored to this post"]${
+    media
+      ? `,
+  "media": [{
+${MEDIA_FINDING_KEYS.map((key) => `    "${key}": boolean`).join(',\n')}
+  }]`
+      : ''
+  }
+}`;
+
+const EVIDENCE_RULES =
+  'For every factor you set to true because of specific words in the post body, add an "evidence" entry under that factor key listing each passage that triggered it: the exact text as it appears in the post, its 0-based start offset and the offset just past its last character. Keep passages short, and leave out factors that are false or are not tied to specific words (the display name, the image, overall length).';
+
+// `overrides` rewrite factor lines for a template; platform overrides win.
+const rubric = (platform: Platform, longPost: boolean, overrides: Partial<Record<FactorKey, string>> = {}) => {
+  const { rubricOverrides, longPost: longPostDefinition } = PLATFORMS[platform];
+  const factors = buildFactorRubric(getPlatformFactorKeys(platform), { ...overrides, ...rubricOverrides });
+  const rankingNotes = [
+    ...PLATFORMS[platform].rankingNotes,
+    ...(longPost && longPostDefinition ? [longPostDefinition.rankingNote] : []),
+  ];
+  return rankingNotes.length
+    ? `${factors}\n\nHOW THIS NETWORK RANKS POSTS:\n${rankingNotes.map((note) => `- ${note}`).join('\n')}`
+    : factors;
+};
+
+const SCORE_ANCHORS = `Calibrate the score against the factors you flag:
+- Start from 10 for an ordinary post and add the typical impact of each factor that is present.
+- 0-29 means the post is clean, 30-59 means it has fixable problems, 60-100 means it reads as slop.
+- Only flag a factor when the post clearly shows it; when in doubt, leave it false.`;
+
+const CONFIDENCE_RULES =
+  'Also report in "confidence" how sure you are that each factor applies, from 0 (clearly absent) to 1 (clearly present). Use values in between for borderline cases, such as mildly promotional copy or content that is arguably NSFW, rather than rounding to 0 or 1. Set each factor boolean to true when its confidence is 0.5 or more.';
+
+const MEDIA_RULES = `If images are attached, evaluate them together with the text for spammy overlays, offensive content, NSFW imagery or engagement-baiting memes, and let them inform the factors and score. Also add a "media" array with one entry per attached image, in the order they are listed, judging each image on its own (for a GIF, judge its sampled frames together):
+${MEDIA_FINDING_KEYS.map((key) => `- ${key}: ${MEDIA_FINDING_REGISTRY[key].rubric}`).join('\n')}
+Leave out "media" when no image is attached or the images cannot be viewed. If the image data cannot be interpreted, state that limitation in the summary and base the score on the available textual signals only.`;
+
+const LINK_RUBRIC: Partial<Record<FactorKey, string>> = {
+  hasLinks: 'Any external link (measured locally; how much it costs depends on the link findings below)',
+};
+
+const LINK_RULES =
+  'Links in the post are listed after it with what their URLs show: link shorteners, domains on a spam list, affiliate links and tracking parameters. A plain link to an ordinary site mostly costs reach where the network demotes links that lead away from it. Shortened, affiliate or tracked links read as promotional, and spam-listed domains read as spam; let them weigh on "promotional", "spam" and the score accordingly.';
+
+// What an analysis prompt is made of. Every version is assembled from the
+// shared sections above; each spec below lists only how it differs from the
+// version it builds on.
+interface AnalysisPromptSpec {
+  // One optional image, or up to MAX_MEDIA_ITEMS images or a GIF.
+  payload: 'image' | 'media';
+  rubricOverrides?: Partial<Record<FactorKey, string>>;
+  // Sections between the rubric and the response shape, in order.
+  rules: string[];
+  response: Parameters<typeof responseShape>[1];
+}
+
+const renderAnalysis =
+  ({ payload, rubricOverrides, rules, response }: AnalysisPromptSpec) =>
+  (platform: Platform, longPost = false) => `You are ${PLATFORMS[platform].expertise}. Analyze the provided post information and rate the content based on these criteria. The text payload has this shape:
+${payload === 'media' ? MEDIA_PAYLOAD_SHAPE : PAYLOAD_SHAPE}
+
+Apply the rules below considering the post body, the supplied display name, and any accompanying ${payload === 'media' ? 'images' : 'image'}. Each factor key is followed by what to look for and its typical effect on the score:
+
+${rubric(platform, longPost, rubricOverrides)}
+
+${rules.join('\n\n')}
+
+Provide your analysis in JSON format with EXACTLY this structure:
+${responseShape(platform, response)}`;
+
+const ANALYSIS_V2: AnalysisPromptSpec = { payload: 'image', rules: [IMAGE_RULES], response: {} };
+
+// Same rubric as v2 with explicit score anchors, to test whether scores track
+// the flagged factors more consistently.
+const ANALYSIS_V3: AnalysisPromptSpec = { ...ANALYSIS_V2, rules: [IMAGE_RULES, SCORE_ANCHORS] };
+
+// v2 plus evidence spans pointing at the text behind each flagged factor.
+const ANALYSIS_V4: AnalysisPromptSpec = {
+  ...ANALYSIS_V2,
+  rules: [IMAGE_RULES, EVIDENCE_RULES],
+  response: { evidence: true },
+};
+
+// v4 plus a 0-1 confidence for every factor, so borderline cases are visible
+// and the flag can be decided by per-factor thresholds.
+const ANALYSIS_V5: AnalysisPromptSpec = {
+  ...ANALYSIS_V4,
+  rules: [IMAGE_RULES, CONFIDENCE_RULES, EVIDENCE_RULES],
+  response: { evidence: true, confidence: true },
+};
+
+// v5 for posts with up to four images or a GIF, with findings per image.
+const ANALYSIS_V6: AnalysisPromptSpec = {
+  payload: 'media',
+  rules: [MEDIA_RULES, CONFIDENCE_RULES, EVIDENCE_RULES],
+  response: { evidence: true, confidence: true, media: true },
+};
+
+// v6 with links judged by their local classification instead of penalizing
+// every URL alike.
+const ANALYSIS_V7: AnalysisPromptSpec = {
+  ...ANALYSIS_V6,
+  rubricOverrides: LINK_RUBRIC,
+  rules: [LINK_RULES, ...ANALYSIS_V6.rules],
+};
+
+export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = Object.fromEntries(
+  (
+    [
+      [ANALYSIS_V2, 2, 'Factor rubric generated from the factor registry.'],
+      [ANALYSIS_V3, 3, 'v2 plus explicit score anchors and a stricter flagging rule.'],
+      [ANALYSIS_V4, 4, 'v2 plus evidence spans for flagged factors.'],
+      [ANALYSIS_V5, 5, 'v4 plus a 0-1 confidence for every factor.'],
+      [ANALYSIS_V6, 6, 'v5 plus up to four images or a GIF, with findings per image.'],
+      [ANALYSIS_V7, 7, 'v6 plus links weighed by their shortener, spam, affiliate and tracking findings.'],
+    ] as const
+  ).map(([spec, version, description]) => [
+    `analysis-v${version}`,
+    { id: `analysis-v${version}`, name: 'analysis', version, description, render: renderAnalysis(spec) },
+  ]),
+);
+
+export const DEFAULT_PROMPT_ID = 'analysis-v7';
+
+// A SHA-256 of the rendered text for every platform and long-post variant,
+// keyed `<platform>` or `<platform>:long`. `promptSnapshots.json` holds these
+// for every released version, and the prompt tests fail when one changes.
+export const getPromptFingerprints = (template: PromptTemplate): Record<string, string> =>
+  Object.fromEntries(
+    PLATFORM_KEYS.flatMap((platform) =>
+      [false, ...(supportsLongPost(platform) ? [true] : [])].map((longPost) => [
+        longPost ? `${platform}:long` : platform,
+        crypto.createHash('sha256').update(template.render(platform, longPost)).digest('hex'),
+      ]),
+    ),
+  );
+
+export const getPromptTemplate = (id: string): PromptTemplate | null => PROMPT_TEMPLATES[id] ?? null;
+
+// ANALYSIS_PROMPT picks the template served to everyone outside an experiment.
+const activePrompt = (() => {
+  const configured = process.env.ANALYSIS_PROMPT;
+  const template = configured ? getPromptTemplate(configured) : null;
+  if (configured && !template) {
+    console.warn(`Unknown ANALYSIS_PROMPT "${configured}"; using ${DEFAULT_PROMPT_ID}`);
+  }
+  return template ?? PROMPT_TEMPLATES[DEFAULT_PROMPT_ID];
+})();
+
+export const getActivePrompt = (): PromptTemplate => activePrompt;
@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { parsePolicyOverrides } from './rateLimit';
+
+test('reads policy overrides', () => {
+  assert.deepEqual(parsePolicyOverrides(' session:text=5/1m, batch=1000/2d ,'), {
+    'session:text': { requests: 5, windowSeconds: 60 },
+    batch: { requests: 1000, windowSeconds: 2 * 24 * 60 * 60 },
+  });
+  assert.deepEqual(parsePolicyOverrides(undefined), {});
+});
+
+test('ignores overrides with a zero or missing window, no requests or an unknown policy', (t) => {
+  const warn = t.mock.method(console, 'warn', () => {});
+
+  assert.deepEqual(
+    parsePolicyOverrides('session:text=5/0m,session:image=5/m,apiKey:text=0/1m,constructor=5/1m,nope=1/1s,batch=10/30s'),
+    { batch: { requests: 10, windowSeconds: 30 } },
+  );
+  assert.equal(warn.mock.callCount(), 5);
+});
@@ -1,38 +1,142 @@
 import { NextRequest } from 'next/server';
-import { ratelimit } from './redis';
+import { consumeApiKeyQuota } from './apiKeys';
+import type { Caller } from './auth';
+import {
+  createMemoryLimiter,
+  createUpstashLimiter,
+  type RateLimiter,
+  type RateLimitPolicy,
+  type RateLimitResult,
+} from './rateLimiter';
+import { redis } from './redis';
 import { getClientIdentifier } from './requestIdentity';
 
-export async function checkRateLimit(request: NextRequest) {
-  if (!ratelimit) {
-    return {
-      success: false,
-      limit: 0,
-      reset: Date.now(),
-      remaining: 0,
-      retryAfter: 30,
+// Requests with an image are costlier to analyze, so they get a tighter policy.
+// Threads and rewrites are charged per model call, and creating a share link
+// makes no model call; each has its own policy.
+export type RequestKind = 'text' | 'image' | 'thread' | 'rewrite' | 'share';
+
+export type PolicyKey =
+  | 'session:text'
+  | 'session:image'
+  | 'session:thread'
+  | 'session:rewrite'
+  | 'session:share'
+  | 'apiKey:text'
+  | 'apiKey:image'
+  | 'apiKey:thread'
+  | 'apiKey:rewrite'
+  | 'apiKey:share'
+  | 'batch';
+
+const DEFAULT_POLICIES: Record<PolicyKey, Omit<RateLimitPolicy, 'name'>> = {
+  'session:text': { requests: 1, windowSeconds: 30 },
+  'session:image': { requests: 1, windowSeconds: 60 },
+  // Counted in model calls, like the API key quota.
+  'session:thread': { requests: 25, windowSeconds: 10 * 60 },
+  'session:rewrite': { requests: 15, windowSeconds: 10 * 60 },
+  'session:share': { requests: 10, windowSeconds: 60 * 60 },
+  'apiKey:text': { requests: 60, windowSeconds: 60 },
+  'apiKey:image': { requests: 20, windowSeconds: 60 },
+  'apiKey:thread': { requests: 100, windowSeconds: 60 },
+  'apiKey:rewrite': { requests: 60, windowSeconds: 60 },
+  'apiKey:share': { requests: 60, windowSeconds: 60 * 60 },
+  // Counted in rows rather than requests.
+  batch: { requests: 400, windowSeconds: 24 * 60 * 60 },
+};
+
+const UNIT_SECONDS: Record<string, number> = { s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60 };
+const POLICY_OVERRIDE_PATTERN = /^([\w:]+)=(\d+)\/(\d+)([smhd])$/;
+
+// RATE_LIMIT_POLICIES overrides defaults as comma-separated
+// `policy=requests/window` pairs, e.g. `session:text=5/1m,batch=1000/1d`.
+export const parsePolicyOverrides = (value: string | undefined) => {
+  const overrides: Partial<Record<PolicyKey, Omit<RateLimitPolicy, 'name'>>> = {};
+
+  for (const entry of value?.split(',') ?? []) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const match = trimmed.match(POLICY_OVERRIDE_PATTERN);
+    const key = match?.[1] as PolicyKey | undefined;
+    if (
+      !match ||
+      !key ||
+      !Object.prototype.hasOwnProperty.call(DEFAULT_POLICIES, key) ||
+      Number(match[2]) < 1 ||
+      Number(match[3]) < 1
+    ) {
+      console.warn(`Ignoring invalid rate limit policy "${trimmed}"`);
+      continue;
+    }
+
+    overrides[key] = {
+      requests: Number(match[2]),
+      windowSeconds: Number(match[3]) * UNIT_SECONDS[match[4]],
     };
   }
 
-  const identifier = getClientIdentifier(request);
+  return overrides;
+};
 
-  try {
-    const { success, limit, reset, remaining } = await ratelimit.limit(identifier);
+const policies: Record<PolicyKey, RateLimitPolicy> = (() => {
+  const overrides = parsePolicyOverrides(process.env.RATE_LIMIT_POLICIES);
+  return Object.fromEntries(
+    (Object.keys(DEFAULT_POLICIES) as PolicyKey[]).map((key) => [
+      key,
+      { name: key.replace(':', '-'), ...DEFAULT_POLICIES[key], ...overrides[key] },
+    ]),
+  ) as Record<PolicyKey, RateLimitPolicy>;
+})();
 
-    return {
-      success,
-      limit,
-      reset,
-      remaining,
-      retryAfter: reset ? Math.max(Math.floor((reset - Date.now()) / 1000), 0) : 0,
-    };
-  } catch (error) {
-    console.error('Rate limit evaluation failed', error);
-    return {
-      success: false,
-      limit: 0,
-      reset: Date.now(),
-      remaining: 0,
-      retryAfter: 60,
-    };
+const limiters = new Map<PolicyKey, RateLimiter>();
+
+// Without Upstash, limits fall back to this process's memory instead of
+// refusing every request.
+const getLimiter = (key: PolicyKey) => {
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = redis ? createUpstashLimiter(redis, policies[key]) : createMemoryLimiter(policies[key]);
+    limiters.set(key, limiter);
+  }
+  return limiter;
+};
+
+// `units` charges a request that makes several model calls once per call.
+export async function checkCallerRateLimit(
+  request: NextRequest,
+  caller: Caller,
+  kind: RequestKind = 'text',
+  units = 1,
+): Promise<RateLimitResult> {
+  if (caller.type === 'session') {
+    return getLimiter(`session:${kind}`).limit(getClientIdentifier(request), units);
   }
+
+  // API keys get a burst limit on top of their daily quota, which only counts
+  // model work.
+  const burst = await getLimiter(`apiKey:${kind}`).limit(caller.apiKey.id, units);
+  return burst.success && kind !== 'share' ? consumeApiKeyQuota(caller.apiKey, units) : burst;
 }
+
+// Consumes one unit per row in the upload. API keys spend their daily quota.
+export async function checkCallerBatchRateLimit(
+  request: NextRequest,
+  caller: Caller,
+  rows: number,
+): Promise<RateLimitResult> {
+  return caller.type === 'apiKey'
+    ? consumeApiKeyQuota(caller.apiKey, rows)
+    : getLimiter('batch').limit(getClientIdentifier(request), rows);
+}
+
+export const rateLimitHeaders = ({ limit, remaining, reset }: RateLimitResult): Record<string, string> => ({
+  'X-RateLimit-Limit': limit.toString(),
+  'X-RateLimit-Remaining': remaining.toString(),
+  'X-RateLimit-Reset': new Date(reset).toISOString(),
+});
+
+export const rateLimitExceededHeaders = (result: RateLimitResult): Record<string, string> => ({
+  ...rateLimitHeaders(result),
+  'Retry-After': result.retryAfter.toString(),
+});
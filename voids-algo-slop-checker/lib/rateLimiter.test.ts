@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { createMemoryLimiter } from './rateLimiter';
+
+const policy = { name: 'test', requests: 3, windowSeconds: 60 };
+
+test('allows requests up to the limit within the window', async (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const limiter = createMemoryLimiter(policy);
+
+  const results = [];
+  for (let index = 0; index < 4; index += 1) {
+    results.push(await limiter.limit('caller'));
+    t.mock.timers.tick(1000);
+  }
+
+  assert.deepEqual(
+    results.map(({ success, remaining }) => [success, remaining]),
+    [
+      [true, 2],
+      [true, 1],
+      [true, 0],
+      [false, 0],
+    ],
+  );
+  assert.equal(results[0].reset, 60_000);
+  assert.equal(results[3].reset, 60_000);
+  assert.equal(results[3].retryAfter, 57);
+});
+
+test('frees units as the oldest requests leave the window', async (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const limiter = createMemoryLimiter(policy);
+
+  await limiter.limit('caller');
+  t.mock.timers.tick(10_000);
+  await limiter.limit('caller', 2);
+  assert.equal((await limiter.limit('caller')).success, false);
+
+  t.mock.timers.tick(50_000);
+  const afterFirst = await limiter.limit('caller');
+  assert.deepEqual([afterFirst.success, afterFirst.remaining], [true, 0]);
+});
+
+test('a multi-unit request waits until enough of the window has expired', async (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const limiter = createMemoryLimiter(policy);
+
+  await limiter.limit('caller');
+  t.mock.timers.tick(10_000);
+  await limiter.limit('caller');
+  t.mock.timers.tick(10_000);
+
+  const denied = await limiter.limit('caller', 3);
+  assert.equal(denied.success, false);
+  assert.equal(denied.remaining, 1);
+  // Both earlier requests have to expire before three units fit.
+  assert.equal(denied.reset, 70_000);
+  assert.equal(denied.retryAfter, 50);
+
+  const tooLarge = await limiter.limit('other', 4);
+  assert.equal(tooLarge.success, false);
+  assert.equal(tooLarge.reset, 80_000);
+});
+
+test('counts each identifier separately', async (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const limiter = createMemoryLimiter({ ...policy, requests: 1 });
+
+  assert.equal((await limiter.limit('first')).success, true);
+  assert.equal((await limiter.limit('first')).success, false);
+  assert.equal((await limiter.limit('second')).success, true);
+});
@@ -0,0 +1,121 @@
+import { Ratelimit } from '@upstash/ratelimit';
+import type { Redis } from '@upstash/redis';
+
+export interface RateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds when the caller can try again.
+  reset: number;
+  retryAfter: number;
+}
+
+export interface RateLimitPolicy {
+  // Also namespaces the stored counters, so renaming a policy resets it.
+  name: string;
+  requests: number;
+  windowSeconds: number;
+}
+
+export interface RateLimiter {
+  readonly policy: RateLimitPolicy;
+  // `cost` lets one call consume several units, e.g. one per batch row.
+  limit(identifier: string, cost?: number): Promise<RateLimitResult>;
+}
+
+const toRetryAfter = (reset: number, now = Date.now()) => Math.max(Math.ceil((reset - now) / 1000), 0);
+
+// Limits are enforced by Upstash, so they hold across every server instance.
+export function createUpstashLimiter(redis: Redis, policy: RateLimitPolicy): RateLimiter {
+  const ratelimit = new Ratelimit({
+    redis,
+    limiter: Ratelimit.slidingWindow(policy.requests, `${policy.windowSeconds} s`),
+    analytics: true,
+    prefix: `@upstash/ratelimit/${policy.name}`,
+  });
+
+  return {
+    policy,
+    async limit(identifier, cost = 1) {
+      try {
+        const { success, limit, reset, remaining } = await ratelimit.limit(
+          identifier,
+          cost === 1 ? undefined : { rate: cost },
+        );
+
+        return { success, limit, reset, remaining, retryAfter: success ? 0 : toRetryAfter(reset) };
+      } catch (error) {
+        console.error('Rate limit evaluation failed', error);
+        return { success: false, limit: policy.requests, reset: Date.now(), remaining: 0, retryAfter: 60 };
+      }
+    },
+  };
+}
+
+interface WindowEntry {
+  at: number;
+  cost: number;
+}
+
+// Limits live in this process only: fine for local and single-instance
+// deployments, but each serverless instance counts separately.
+export function createMemoryLimiter(policy: RateLimitPolicy): RateLimiter {
+  const windowMs = policy.windowSeconds * 1000;
+  const windows = new Map<string, WindowEntry[]>();
+  let lastSweep = Date.now();
+
+  // Drops identifiers whose whole window has expired so memory stays bounded.
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    lastSweep = now;
+    for (const [identifier, entries] of windows) {
+      if (entries.every(({ at }) => at <= now - windowMs)) {
+        windows.delete(identifier);
+      }
+    }
+  };
+
+  return {
+    policy,
+    async limit(identifier, cost = 1) {
+      const now = Date.now();
+      sweep(now);
+
+      const entries = (windows.get(identifier) ?? []).filter(({ at }) => at > now - windowMs);
+      const used = entries.reduce((total, entry) => total + entry.cost, 0);
+
+      if (used + cost <= policy.requests) {
+        entries.push({ at: now, cost });
+        windows.set(identifier, entries);
+        return {
+          success: true,
+          limit: policy.requests,
+          remaining: policy.requests - used - cost,
+          reset: entries[0].at + windowMs,
+          retryAfter: 0,
+        };
+      }
+
+      windows.set(identifier, entries);
+
+      // The earliest moment enough of the window has expired to fit `cost`.
+      let freed = 0;
+      let reset = now + windowMs;
+      for (const entry of entries) {
+        freed += entry.cost;
+        if (used - freed + cost <= policy.requests) {
+          reset = entry.at + windowMs;
+          break;
+        }
+      }
+
+      return {
+        success: false,
+        limit: policy.requests,
+        remaining: Math.max(policy.requests - used, 0),
+        reset,
+        retryAfter: toRetryAfter(reset, now),
+      };
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import 'server-only';
+
+// Reads the body while counting bytes, so an oversized upload is refused as
+// soon as it passes the limit instead of after it has been buffered. Returns
+// null when the body is larger than `maxBytes`.
+export async function readBodyWithLimit(request: Request, maxBytes: number): Promise<Buffer | null> {
+  if (Number(request.headers.get('content-length')) > maxBytes) {
+    return null;
+  }
+
+  if (!request.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
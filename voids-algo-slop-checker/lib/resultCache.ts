@@ -0,0 +1,87 @@
+import 'server-only';
+
+import crypto from 'node:crypto';
+
+import type { AnalysisResult } from './analysisResult';
+import type { AnalysisInput } from './analyzer';
+import { LINK_LISTS_VERSION } from './links';
+import { DEFAULT_PLATFORM } from './platforms';
+import { redis } from './redis';
+
+const CACHE_PREFIX = 'analysis-cache';
+export const ANALYSIS_CACHE_TTL_SECONDS = 24 * 60 * 60;
+
+export interface AnalysisFingerprint {
+  promptVersion: string;
+  model: string;
+}
+
+// Line endings, Unicode composition and surrounding whitespace do not change
+// the analysis of the display name, so they do not change the key either. The
+// post is keyed exactly as sent: evidence, private info and link offsets in
+// the cached result point into it.
+const normalizeText = (value: string) => value.normalize('NFC').replace(/\r\n?/g, '\n').trim();
+
+const hashImage = (bytes: Uint8Array | null) =>
+  bytes ? crypto.createHash('sha256').update(bytes).digest('hex') : 'none';
+
+// The post as sent, with the uploaded bytes of each attached image (null for
+// name-only attachments) rather than the copies prepared for the model.
+export type CacheKeyInput = Pick<
+  AnalysisInput,
+  'post' | 'displayName' | 'platform' | 'longPost' | 'redactPrivateInfo'
+> & {
+  images?: Array<Uint8Array | null>;
+};
+
+// Image order matters to the per-image findings, so it is part of the key.
+// JSON and multipart uploads of the same bytes share a key.
+const hashImages = (images: CacheKeyInput['images']) =>
+  images?.length ? images.map(hashImage).join(',') : 'none';
+
+export const buildCacheKey = (
+  { post, displayName, images, platform = DEFAULT_PLATFORM, longPost = false, redactPrivateInfo = false }: CacheKeyInput,
+  { promptVersion, model }: AnalysisFingerprint,
+) => {
+  const digest = crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify([
+        post,
+        normalizeText(displayName),
+        hashImages(images),
+        platform,
+        longPost,
+        redactPrivateInfo,
+        promptVersion,
+        model,
+        LINK_LISTS_VERSION,
+      ]),
+    )
+    .digest('hex');
+
+  return `${CACHE_PREFIX}:${digest}`;
+};
+
+export async function getCachedResult(key: string) {
+  if (!redis) return null;
+
+  try {
+    const [result, ttl] = await Promise.all([redis.get<AnalysisResult>(key), redis.ttl(key)]);
+    if (!result) return null;
+    return { result, ttlSeconds: Math.max(ttl, 0) };
+  } catch (error) {
+    console.error('Analysis cache lookup failed', error);
+    return null;
+  }
+}
+
+export async function setCachedResult(key: string, result: AnalysisResult) {
+  if (!redis) return;
+
+  try {
+    await redis.set(key, result, { ex: ANALYSIS_CACHE_TTL_SECONDS });
+  } catch (error) {
+    console.error('Analysis cache write failed', error);
+  }
+}
@@ -0,0 +1,42 @@
+import type { AnalysisResult } from './analysisResult';
+import { parseAnalysisResult } from './analysisSchema';
+
+export const REWRITE_CANDIDATES = 3;
+
+export interface RewriteCandidate {
+  text: string;
+  result: AnalysisResult;
+  // Candidate score minus `originalScore`; negative means less slop.
+  scoreDelta: number;
+}
+
+export interface RewriteResponse {
+  // The original post re-scored as text only, like the drafts.
+  originalScore: number;
+  candidates: RewriteCandidate[];
+}
+
+// Reads a rewrite response from the API, dropping any candidate whose
+// analysis does not match the result schema.
+export function parseRewriteResponse(raw: unknown): RewriteResponse | null {
+  if (
+    typeof raw !== 'object' ||
+    raw === null ||
+    typeof (raw as RewriteResponse).originalScore !== 'number' ||
+    !Array.isArray((raw as RewriteResponse).candidates)
+  ) {
+    return null;
+  }
+
+  const candidates: RewriteCandidate[] = [];
+  for (const item of (raw as { candidates: unknown[] }).candidates) {
+    const record = typeof item === 'object' && item !== null ? (item as Record<string, unknown>) : null;
+    const result = parseAnalysisResult(record?.result);
+    if (!record || !result || typeof record.text !== 'string' || typeof record.scoreDelta !== 'number') {
+      continue;
+    }
+    candidates.push({ text: record.text, result, scoreDelta: record.scoreDelta });
+  }
+
+  return { originalScore: (raw as RewriteResponse).originalScore, candidates };
+}
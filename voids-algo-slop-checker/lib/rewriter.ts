@@ -0,0 +1,172 @@
+import 'server-only';
+
+import type { AnalysisResult } from './analysisResult';
+import {
+  analyzePost,
+  CAPACITY_EXHAUSTED_MESSAGE,
+  type AnalysisFailure,
+  type CapacityFailure,
+} from './analyzer';
+import { mapWithConcurrency } from './concurrency';
+import { getLlmProvider } from './llmProvider';
+import { countPostLength, DEFAULT_PLATFORM, getMaxLength, PLATFORMS, type Platform } from './platforms';
+import { findPrivateInfo, redactPrivateInfo, restorePlaceholders } from './privateInfo';
+import { REWRITE_CANDIDATES, type RewriteCandidate } from './rewrite';
+import { getBudgetStatus, recordUsage } from './usage';
+
+const buildRewritePrompt = (platform: Platform, maxLength: number) => `You rewrite ${PLATFORMS[platform].label} posts so they avoid algorithmic "slop" signals while keeping the author's meaning and voice.
+
+Rules:
+- Preserve the core message, facts, claims and any calls to action that are not spammy.
+- Keep the author's tone, vocabulary level, humour and point of view. Do not make it sound corporate.
+- Fix the problems listed in the analysis: drop excess hashtags and @mentions, avoid all caps, remove engagement bait, move links out of the post when flagged.
+- Each draft must be at most ${maxLength} characters.
+- Drafts must differ meaningfully from each other and from the original.
+
+Respond with JSON of exactly this shape:
+{
+  "drafts": ["first alternative", "second alternative", "..."]
+}`;
+
+export interface RewriteInput {
+  post: string;
+  displayName: string;
+  // The analysis the author is improving on. It sets the platform and guides
+  // the drafts; its score is not trusted for comparisons.
+  analysis: AnalysisResult;
+  // Masks personal details in everything sent to the model, as for analyses.
+  redactPrivateInfo?: boolean;
+  callerId?: string;
+}
+
+export type RewriteOutcome =
+  | { ok: true; originalScore: number; candidates: RewriteCandidate[] }
+  | AnalysisFailure
+  | CapacityFailure
+  | { ok: false; code: 'MODEL_UNAVAILABLE'; error: string };
+
+// Rewrites are scored through the full analysis pipeline, a few at a time.
+const SCORING_CONCURRENCY = 3;
+
+// The most model calls one rewrite request makes: the drafts, a re-score of
+// the original and one analysis per draft. Rate limits charge this up front.
+export const REWRITE_MODEL_CALLS = 2 + REWRITE_CANDIDATES;
+
+const redactText = (text: string) => redactPrivateInfo(text, findPrivateInfo(text)).text;
+
+const parseDrafts = (content: string, original: string, platform: Platform, maxLength: number) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return [];
+  }
+
+  const drafts = (parsed as { drafts?: unknown })?.drafts;
+  if (!Array.isArray(drafts)) {
+    return [];
+  }
+
+  const seen = new Set([original.trim()]);
+  return drafts
+    .filter((draft): draft is string => typeof draft === 'string')
+    .map((draft) => draft.trim())
+    .filter((draft) => {
+      if (!draft || countPostLength(draft, platform) > maxLength || seen.has(draft)) return false;
+      seen.add(draft);
+      return true;
+    })
+    .slice(0, REWRITE_CANDIDATES);
+};
+
+export async function generateRewrites({
+  post,
+  displayName,
+  analysis,
+  redactPrivateInfo: redact = false,
+  callerId,
+}: RewriteInput): Promise<RewriteOutcome> {
+  const platform = analysis.platform ?? DEFAULT_PLATFORM;
+  const maxLength = getMaxLength(platform, analysis.longPost);
+  const provider = getLlmProvider();
+  if (!provider) {
+    return { ok: false, code: 'MODEL_UNAVAILABLE', error: 'Rewrite suggestions need the language model, which is not configured.' };
+  }
+
+  // Rewrites have no cheaper mode, so an exhausted budget always rejects them.
+  if ((await getBudgetStatus()).exhausted) {
+    return { ok: false, code: 'CAPACITY_EXHAUSTED', error: CAPACITY_EXHAUSTED_MESSAGE };
+  }
+
+  // The summary and recommendations can quote the post, so they are masked too.
+  const redaction = redact ? redactPrivateInfo(post, findPrivateInfo(post)) : null;
+  const modelPost = redaction?.text ?? post;
+  const summary = redact ? redactText(analysis.summary) : analysis.summary;
+  const recommendations = redact ? analysis.recommendations.map(redactText) : analysis.recommendations;
+
+  const response = await provider.chatJson({
+    task: 'rewrite',
+    post: modelPost,
+    messages: [
+      { role: 'system', content: buildRewritePrompt(platform, maxLength) },
+      {
+        role: 'user',
+        content: [
+          `Display Name: ${displayName}`,
+          `Original post: ${modelPost}`,
+          `Current slop score: ${analysis.slopScore}`,
+          `Summary: ${summary}`,
+          `Recommendations:\n- ${recommendations.join('\n- ')}`,
+          `Write ${REWRITE_CANDIDATES} alternative drafts.`,
+        ].join('\n'),
+      },
+    ],
+    temperature: 0.8,
+  });
+  await recordUsage({ callerId: callerId ?? 'unknown', task: 'rewrite', response });
+
+  // Drafts get the author's details back where that is unambiguous, and the
+  // length check runs on the text the author would post.
+  const drafts = parseDrafts(
+    redaction ? restorePlaceholders(response.content, post, redaction) : response.content,
+    post,
+    platform,
+    maxLength,
+  );
+  if (drafts.length === 0) {
+    return {
+      ok: false,
+      code: 'INVALID_MODEL_OUTPUT',
+      error: 'The model did not return any usable drafts. Please try again.',
+      issues: ['drafts must be a non-empty array of distinct strings within the length limit'],
+    };
+  }
+
+  // Drafts are text only, so the original is re-scored the same way rather
+  // than compared with a score that may have counted its images.
+  const [original, ...outcomes] = await mapWithConcurrency([post, ...drafts], SCORING_CONCURRENCY, (text) =>
+    analyzePost({
+      post: text,
+      displayName,
+      platform,
+      longPost: analysis.longPost,
+      redactPrivateInfo: redact,
+      callerId,
+      skipExperimentControl: true,
+    }),
+  );
+  if (!original.ok) {
+    return original;
+  }
+
+  const originalScore = original.result.slopScore;
+  const candidates = drafts
+    .map((text, index) => {
+      const outcome = outcomes[index];
+      return outcome.ok ? { text, result: outcome.result, scoreDelta: outcome.result.slopScore - originalScore } : null;
+    })
+    .filter((candidate): candidate is RewriteCandidate => candidate !== null)
+    .sort((a, b) => a.result.slopScore - b.result.slopScore);
+
+  return { ok: true, originalScore, candidates };
+}
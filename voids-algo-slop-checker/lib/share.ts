@@ -0,0 +1,159 @@
+import 'server-only';
+
+import crypto from 'node:crypto';
+
+import type { AnalysisResult } from './analysisResult';
+import { parseAnalysisResult } from './analysisSchema';
+import { redis } from './redis';
+
+const SHARE_PREFIX = 'share';
+const SHARE_ID_BYTES = 6;
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{8}$/;
+export const SHARE_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Only results this server produced can be shared. Each single-post analysis
+// is kept under a result id for a day, and a share copies it from there.
+const SHAREABLE_PREFIX = 'shareable';
+const RESULT_ID_BYTES = 16;
+const RESULT_ID_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+const SHAREABLE_TTL_SECONDS = 24 * 60 * 60;
+
+// Model text is stored for a month, so it is capped on the way in.
+const MAX_SHARED_SUMMARY_LENGTH = 1000;
+const MAX_SHARED_RECOMMENDATION_LENGTH = 300;
+const MAX_SHARED_RECOMMENDATIONS = 10;
+
+// Shown instead of the summary when the post text is hidden, since the
+// model's summary may quote the post.
+export const HIDDEN_SUMMARY = 'The summary is hidden along with the post text.';
+
+export interface SharedResult {
+  id: string;
+  createdAt: number;
+  expiresAt: number;
+  displayName: string;
+  // Null when the author chose to hide the post text.
+  post: string | null;
+  result: AnalysisResult;
+}
+
+// A result as this server returned it, with the input it was produced for.
+export interface ShareableResult {
+  post: string;
+  displayName: string;
+  result: AnalysisResult;
+}
+
+export interface ShareInput {
+  resultId: string;
+  redact: boolean;
+}
+
+export type ShareOutcome =
+  | { ok: true; shared: SharedResult }
+  | { ok: false; error: string; code: 'RESULT_NOT_FOUND' | 'SHARING_UNAVAILABLE' };
+
+const shareKey = (id: string) => `${SHARE_PREFIX}:${id}`;
+const shareableKey = (id: string) => `${SHAREABLE_PREFIX}:${id}`;
+
+const truncate = (text: string, maxLength: number) =>
+  text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+
+// Stores the result so it can be shared later and returns its id, or null when
+// sharing is unavailable. Failures are logged and never fail the analysis.
+export async function saveShareableResult(shareable: ShareableResult): Promise<string | null> {
+  if (!redis) return null;
+
+  const resultId = crypto.randomBytes(RESULT_ID_BYTES).toString('base64url');
+  try {
+    await redis.set(shareableKey(resultId), shareable, { ex: SHAREABLE_TTL_SECONDS });
+    return resultId;
+  } catch (error) {
+    console.error('Saving shareable result failed', error);
+    return null;
+  }
+}
+
+// The stored copy of a result. Hiding the post also drops everything derived
+// from its text: evidence spans, links, private info matches, attachment names
+// and the model's summary and recommendations.
+const toSharedResult = (result: AnalysisResult, redact: boolean): AnalysisResult => {
+  const shared: AnalysisResult = {
+    ...result,
+    summary: truncate(result.summary, MAX_SHARED_SUMMARY_LENGTH),
+    recommendations: result.recommendations
+      .slice(0, MAX_SHARED_RECOMMENDATIONS)
+      .map((recommendation) => truncate(recommendation, MAX_SHARED_RECOMMENDATION_LENGTH)),
+    // Cache status and the result id describe the author's request, not the
+    // shared page.
+    cache: undefined,
+    resultId: undefined,
+  };
+  if (!redact) return shared;
+
+  return {
+    ...shared,
+    summary: HIDDEN_SUMMARY,
+    recommendations: [],
+    evidence: undefined,
+    links: undefined,
+    privateInfo: undefined,
+    media: result.media?.map(({ metadata, findings }) => ({ metadata, findings })),
+  };
+};
+
+export async function createShare({ resultId, redact }: ShareInput): Promise<ShareOutcome> {
+  if (!redis) {
+    return { ok: false, error: 'Sharing is not available right now', code: 'SHARING_UNAVAILABLE' };
+  }
+
+  const stored = RESULT_ID_PATTERN.test(resultId)
+    ? await redis.get<ShareableResult>(shareableKey(resultId))
+    : null;
+  const result = parseAnalysisResult(stored?.result);
+  if (!stored || !result) {
+    return {
+      ok: false,
+      error: 'This result can no longer be shared. Analyze the post again to share it.',
+      code: 'RESULT_NOT_FOUND',
+    };
+  }
+
+  const createdAt = Date.now();
+  const shared: SharedResult = {
+    id: crypto.randomBytes(SHARE_ID_BYTES).toString('base64url'),
+    createdAt,
+    expiresAt: createdAt + SHARE_TTL_SECONDS * 1000,
+    displayName: stored.displayName,
+    post: redact ? null : stored.post,
+    result: toSharedResult(result, redact),
+  };
+
+  // NX guards against the (unlikely) reuse of a live id.
+  const saved = await redis.set(shareKey(shared.id), shared, { ex: SHARE_TTL_SECONDS, nx: true });
+  return saved
+    ? { ok: true, shared }
+    : { ok: false, error: 'Sharing is not available right now', code: 'SHARING_UNAVAILABLE' };
+}
+
+export async function getShare(id: string): Promise<SharedResult | null> {
+  if (!redis || !SHARE_ID_PATTERN.test(id)) return null;
+
+  try {
+    const stored = await redis.get<SharedResult>(shareKey(id));
+    const result = parseAnalysisResult(stored?.result);
+    if (!stored || !result) return null;
+
+    return {
+      id,
+      createdAt: stored.createdAt,
+      expiresAt: stored.expiresAt,
+      displayName: stored.displayName,
+      post: typeof stored.post === 'string' ? stored.post : null,
+      result,
+    };
+  } catch (error) {
+    console.error('Shared result lookup failed', error);
+    return null;
+  }
+}
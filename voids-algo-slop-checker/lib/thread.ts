@@ -0,0 +1,195 @@
+import type { AnalysisResult } from './analysisResult';
+import { parseAnalysisResult } from './analysisSchema';
+import { DEFAULT_PLATFORM, PLATFORMS, type Platform } from './platforms';
+
+export const MAX_THREAD_POSTS = 25;
+
+export interface ThreadFactors {
+  weakHook: boolean;
+  redundantPosts: boolean;
+  numberingSpam: boolean;
+  misplacedLink: boolean;
+}
+
+export type ThreadFactorKey = keyof ThreadFactors;
+
+export interface ThreadAnalysis {
+  threadScore: number;
+  // 0-100 estimate of how well the first post earns the click into the thread.
+  hookStrength: number;
+  factors: ThreadFactors;
+  // Pairs of zero-based post indexes whose wording overlaps heavily.
+  redundantPairs: Array<[number, number]>;
+  // Zero-based indexes of posts that contain a link before the final post.
+  misplacedLinkPosts: number[];
+  summary: string;
+  recommendations: string[];
+}
+
+export interface ThreadAnalysisResult {
+  posts: AnalysisResult[];
+  thread: ThreadAnalysis;
+}
+
+const THREAD_FACTOR_KEYS: ThreadFactorKey[] = ['weakHook', 'redundantPosts', 'numberingSpam', 'misplacedLink'];
+
+// `3/`, `3/10` or `(3/10)` anywhere in a post, and `3.` or `3)` opening it.
+const POSITION_MARKER_PATTERN = /(?:^|[\s(])(\d{1,2})\s?\/\s?(\d{1,2})?(?![\d/])/g;
+const LEADING_NUMBER_PATTERN = /^\s*(\d{1,2})[.)]\s/;
+const THREAD_EMOJI_PATTERN = /🧵|👇/u;
+const WORD_PATTERN = /[\p{L}\p{N}']+/gu;
+
+const WEAK_HOOK_THRESHOLD = 50;
+const REDUNDANCY_THRESHOLD = 0.6;
+const REDUNDANCY_MIN_WORDS = 4;
+const FIRST_POST_WEIGHT = 2;
+const THREAD_FACTOR_PENALTY = 8;
+
+const THREAD_RECOMMENDATIONS: Record<ThreadFactorKey, (platform: Platform) => string> = {
+  weakHook: () => 'Rework the first post so it makes a specific promise that pulls readers into the thread.',
+  redundantPosts: () => 'Merge or cut posts that repeat the same point.',
+  numberingSpam: (platform) =>
+    `Drop the numbering and thread emoji from every post; ${PLATFORMS[platform].label} already shows the posts in order.`,
+  misplacedLink: () => 'Keep external links in the final post so they do not cut the thread short.',
+};
+
+// Whether a post is numbered with its own place in the thread. The number has
+// to match the post's position, and the total when one is given, so "24/7" or
+// "1/2 cup" are not mistaken for numbering.
+const isNumbered = (post: string, index: number, total: number) => {
+  const position = index + 1;
+  if (Number(post.match(LEADING_NUMBER_PATTERN)?.[1]) === position) return true;
+  return Array.from(post.matchAll(POSITION_MARKER_PATTERN)).some(
+    ([, number, of]) => Number(number) === position && (of === undefined || Number(of) === total),
+  );
+};
+
+// Jaccard similarity of the word sets of two posts.
+const similarity = (left: Set<string>, right: Set<string>) => {
+  if (left.size < REDUNDANCY_MIN_WORDS || right.size < REDUNDANCY_MIN_WORDS) return 0;
+  let shared = 0;
+  for (const word of left) {
+    if (right.has(word)) shared += 1;
+  }
+  return shared / (left.size + right.size - shared);
+};
+
+const toWordSet = (post: string) => new Set(post.toLowerCase().match(WORD_PATTERN) ?? []);
+
+const scoreHook = (first: AnalysisResult) => {
+  let strength = 100 - first.slopScore;
+  if (first.factors.encouragesEngagement) strength += 10;
+  if (first.factors.informative) strength += 5;
+  if (first.factors.veryShortLowEffort) strength -= 20;
+  return Math.min(100, Math.max(0, strength));
+};
+
+// Derives the thread-level signals from the individual posts and their results.
+// All checks are local; the model only contributes through the per-post results.
+export function analyzeThreadStructure(
+  posts: string[],
+  results: AnalysisResult[],
+  platform: Platform = DEFAULT_PLATFORM,
+): ThreadAnalysis {
+  const hookStrength = results.length ? scoreHook(results[0]) : 0;
+
+  const wordSets = posts.map(toWordSet);
+  const redundantPairs: Array<[number, number]> = [];
+  for (let i = 0; i < wordSets.length; i += 1) {
+    for (let j = i + 1; j < wordSets.length; j += 1) {
+      if (similarity(wordSets[i], wordSets[j]) >= REDUNDANCY_THRESHOLD) {
+        redundantPairs.push([i, j]);
+      }
+    }
+  }
+
+  const numberedPosts = posts.filter((post, index) => isNumbered(post, index, posts.length)).length;
+  const emojiPosts = posts.filter((post) => THREAD_EMOJI_PATTERN.test(post)).length;
+
+  const misplacedLinkPosts = results
+    .map((result, index) => ({ index, links: result.measurements?.linkCount ?? 0 }))
+    .filter(({ index, links }) => links > 0 && index < posts.length - 1)
+    .map(({ index }) => index);
+
+  const factors: ThreadFactors = {
+    weakHook: hookStrength < WEAK_HOOK_THRESHOLD,
+    redundantPosts: redundantPairs.length > 0,
+    numberingSpam: numberedPosts > 1 || emojiPosts > 1,
+    misplacedLink: misplacedLinkPosts.length > 0,
+  };
+
+  const weightedTotal = results.reduce(
+    (total, result, index) => total + result.slopScore * (index === 0 ? FIRST_POST_WEIGHT : 1),
+    0,
+  );
+  const weightCount = results.length ? results.length + FIRST_POST_WEIGHT - 1 : 1;
+  const flagged = THREAD_FACTOR_KEYS.filter((key) => factors[key]);
+  const threadScore = Math.min(
+    100,
+    Math.round(weightedTotal / weightCount) + flagged.length * THREAD_FACTOR_PENALTY,
+  );
+
+  const summary = flagged.length
+    ? `Across ${posts.length} posts the thread has ${flagged.length} structural issue${flagged.length === 1 ? '' : 's'}; the opening post has a hook strength of ${hookStrength}.`
+    : `The ${posts.length}-post thread is structurally sound; the opening post has a hook strength of ${hookStrength}.`;
+
+  return {
+    threadScore,
+    hookStrength,
+    factors,
+    redundantPairs,
+    misplacedLinkPosts,
+    summary,
+    recommendations: flagged.map((key) => THREAD_RECOMMENDATIONS[key](platform)),
+  };
+}
+
+const toRecord = (value: unknown): Record<string, unknown> | null =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+
+// Reads a thread response from the API. Returns null when any post result or
+// the thread summary does not match the expected shape.
+export function parseThreadAnalysisResult(raw: unknown): ThreadAnalysisResult | null {
+  const record = toRecord(raw);
+  const thread = toRecord(record?.thread);
+  if (!record || !thread || !Array.isArray(record.posts)) {
+    return null;
+  }
+
+  const posts = record.posts.map(parseAnalysisResult);
+  if (posts.some((post) => post === null)) {
+    return null;
+  }
+
+  const factors = toRecord(thread.factors);
+  if (
+    typeof thread.threadScore !== 'number' ||
+    typeof thread.hookStrength !== 'number' ||
+    typeof thread.summary !== 'string' ||
+    !factors ||
+    THREAD_FACTOR_KEYS.some((key) => typeof factors[key] !== 'boolean')
+  ) {
+    return null;
+  }
+
+  return {
+    posts: posts as AnalysisResult[],
+    thread: {
+      threadScore: thread.threadScore,
+      hookStrength: thread.hookStrength,
+      factors: factors as unknown as ThreadFactors,
+      redundantPairs: Array.isArray(thread.redundantPairs)
+        ? (thread.redundantPairs as Array<[number, number]>)
+        : [],
+      misplacedLinkPosts: Array.isArray(thread.misplacedLinkPosts)
+        ? (thread.misplacedLinkPosts as number[])
+        : [],
+      summary: thread.summary,
+      recommendations: Array.isArray(thread.recommendations)
+        ? thread.recommendations.filter((item): item is string => typeof item === 'string')
+        : [],
+    },
+  };
+}
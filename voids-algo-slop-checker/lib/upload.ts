@@ -0,0 +1,82 @@
+// `fetch` cannot report upload progress, so uploads go through XMLHttpRequest.
+// The response is handed back as a regular `Response` as soon as its headers
+// arrive, with a body that streams as the reply comes in, so callers can read
+// event streams from it exactly as they would from `fetch`.
+
+export type UploadProgressListener = (fraction: number) => void;
+
+const parseResponseHeaders = (raw: string) => {
+  const headers = new Headers();
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    }
+  }
+  return headers;
+};
+
+export function postWithUploadProgress(
+  url: string,
+  { headers, body }: { headers: Record<string, string>; body: XMLHttpRequestBodyInit },
+  onUploadProgress: UploadProgressListener,
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const encoder = new TextEncoder();
+    let streamController: ReadableStreamDefaultController<Uint8Array> | null = null;
+    let received = 0;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        streamController = controller;
+      },
+    });
+
+    // Passes on whatever part of the reply arrived since the last call.
+    const flush = () => {
+      const text = xhr.responseText;
+      if (text.length > received) {
+        streamController?.enqueue(encoder.encode(text.slice(received)));
+        received = text.length;
+      }
+    };
+
+    xhr.open('POST', url);
+    xhr.withCredentials = true;
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable && event.total > 0) {
+        onUploadProgress(event.loaded / event.total);
+      }
+    };
+    xhr.upload.onload = () => onUploadProgress(1);
+
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED) {
+        resolve(
+          new Response(stream, {
+            status: xhr.status,
+            statusText: xhr.statusText,
+            headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+          }),
+        );
+      }
+    };
+    xhr.onprogress = flush;
+    xhr.onload = () => {
+      flush();
+      streamController?.close();
+    };
+    xhr.onerror = () => {
+      const error = new TypeError('Upload failed');
+      streamController?.error(error);
+      reject(error);
+    };
+
+    xhr.send(body);
+  });
+}
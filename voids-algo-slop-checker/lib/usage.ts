@@ -0,0 +1,234 @@
+import 'server-only';
+
+import type { ChatResponse, LlmTask } from './llmProvider';
+import { redis } from './redis';
+
+const USAGE_PREFIX = 'usage';
+const DAY_TTL_SECONDS = 90 * 24 * 60 * 60;
+const MONTH_TTL_SECONDS = 400 * 24 * 60 * 60;
+
+// USD per million tokens.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Defaults for the models this app is usually run with. LLM_PRICES overrides
+// or extends them with JSON like `{"my-model": {"input": 0.5, "output": 1.5}}`.
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-5-chat-latest': { input: 1.25, output: 10 },
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'mock-rules-v1': { input: 0, output: 0 },
+};
+
+// Unknown models are priced like the default OpenAI model so spend is never
+// silently under-counted.
+const FALLBACK_PRICE = DEFAULT_MODEL_PRICES['gpt-5-chat-latest'];
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  // Integer micro-dollars so Redis counters stay exact.
+  costMicros: number;
+}
+
+export interface UsageRecord {
+  callerId: string;
+  task: LlmTask;
+  response: ChatResponse;
+}
+
+export type BudgetMode = 'fallback' | 'reject';
+
+export interface BudgetStatus {
+  exhausted: boolean;
+  mode: BudgetMode;
+  daySpendUsd: number;
+  monthSpendUsd: number;
+  dailyBudgetUsd: number | null;
+  monthlyBudgetUsd: number | null;
+}
+
+const parsePrices = (value: string | undefined) => {
+  if (!value) return {};
+
+  try {
+    const parsed = JSON.parse(value) as Record<string, Partial<ModelPrice>>;
+    return Object.fromEntries(
+      Object.entries(parsed)
+        .filter(([, price]) => typeof price?.input === 'number' && typeof price?.output === 'number')
+        .map(([model, price]) => [model, { input: price.input, output: price.output } as ModelPrice]),
+    );
+  } catch (error) {
+    console.warn('Ignoring invalid LLM_PRICES', error);
+    return {};
+  }
+};
+
+const parseBudget = (value: string | undefined) => {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+const modelPrices: Record<string, ModelPrice> = { ...DEFAULT_MODEL_PRICES, ...parsePrices(process.env.LLM_PRICES) };
+const dailyBudgetUsd = parseBudget(process.env.LLM_DAILY_BUDGET_USD);
+const monthlyBudgetUsd = parseBudget(process.env.LLM_MONTHLY_BUDGET_USD);
+const budgetMode: BudgetMode = process.env.LLM_BUDGET_MODE === 'reject' ? 'reject' : 'fallback';
+// Logs every model call's tokens and cost, without who made it.
+const logUsage = process.env.LLM_USAGE_LOG === 'true';
+
+const warnedModels = new Set<string>();
+
+export function getModelPrice(model: string): ModelPrice {
+  const price = modelPrices[model];
+  if (price) return price;
+
+  if (!warnedModels.has(model)) {
+    warnedModels.add(model);
+    console.warn(`No price configured for model "${model}"; using the default model's price`);
+  }
+  return FALLBACK_PRICE;
+}
+
+// Per-million prices times token counts are micro-dollars.
+export const estimateCostMicros = (model: string, promptTokens: number, completionTokens: number) => {
+  const price = getModelPrice(model);
+  return Math.round(promptTokens * price.input + completionTokens * price.output);
+};
+
+export const microsToUsd = (micros: number) => micros / 1_000_000;
+
+const dayKey = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+const monthKey = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 7);
+
+const dayTotalsKey = (day: string) => `${USAGE_PREFIX}:day:${day}`;
+const monthTotalsKey = (month: string) => `${USAGE_PREFIX}:month:${month}`;
+const dayCallersKey = (day: string) => `${USAGE_PREFIX}:callers:${day}`;
+
+// Stands in for Redis when it is not configured, so budgets still apply to a
+// single local process.
+const memoryCounters = new Map<string, Record<string, number>>();
+
+const incrementCounters = async (key: string, fields: Record<string, number>, ttlSeconds: number) => {
+  if (redis) {
+    const pipeline = redis.multi();
+    for (const [field, amount] of Object.entries(fields)) {
+      pipeline.hincrby(key, field, amount);
+    }
+    pipeline.expire(key, ttlSeconds);
+    await pipeline.exec();
+    return;
+  }
+
+  const counters = memoryCounters.get(key) ?? {};
+  for (const [field, amount] of Object.entries(fields)) {
+    counters[field] = (counters[field] ?? 0) + amount;
+  }
+  memoryCounters.set(key, counters);
+};
+
+const readCounters = async (key: string): Promise<Record<string, number>> => {
+  const stored = redis ? await redis.hgetall<Record<string, unknown>>(key) : memoryCounters.get(key);
+  return Object.fromEntries(Object.entries(stored ?? {}).map(([field, value]) => [field, Number(value) || 0]));
+};
+
+const toTotals = (counters: Record<string, number>, prefix = ''): UsageTotals => ({
+  requests: counters[`${prefix}requests`] ?? 0,
+  promptTokens: counters[`${prefix}promptTokens`] ?? 0,
+  completionTokens: counters[`${prefix}completionTokens`] ?? 0,
+  costMicros: counters[`${prefix}costMicros`] ?? 0,
+});
+
+// Records one model call against the daily, monthly and per-caller totals.
+// Failures are logged rather than thrown; a lost counter must not fail the
+// analysis the user already paid for.
+export async function recordUsage({ callerId, task, response }: UsageRecord) {
+  const promptTokens = response.usage?.promptTokens ?? 0;
+  const completionTokens = response.usage?.completionTokens ?? 0;
+  const costMicros = estimateCostMicros(response.model, promptTokens, completionTokens);
+
+  if (logUsage) {
+    console.debug('Model usage:', {
+      task,
+      model: response.model,
+      promptTokens,
+      completionTokens,
+      costUsd: microsToUsd(costMicros),
+    });
+  }
+
+  const now = Date.now();
+  const totals = { requests: 1, promptTokens, completionTokens, costMicros };
+  const callerTotals = Object.fromEntries(
+    Object.entries(totals).map(([field, amount]) => [`${callerId}:${field}`, amount]),
+  );
+
+  try {
+    await Promise.all([
+      incrementCounters(dayTotalsKey(dayKey(now)), totals, DAY_TTL_SECONDS),
+      incrementCounters(monthTotalsKey(monthKey(now)), totals, MONTH_TTL_SECONDS),
+      incrementCounters(dayCallersKey(dayKey(now)), callerTotals, DAY_TTL_SECONDS),
+    ]);
+  } catch (error) {
+    console.error('Failed to record model usage', error);
+  }
+}
+
+export async function getBudgetStatus(): Promise<BudgetStatus> {
+  const status: BudgetStatus = {
+    exhausted: false,
+    mode: budgetMode,
+    daySpendUsd: 0,
+    monthSpendUsd: 0,
+    dailyBudgetUsd,
+    monthlyBudgetUsd,
+  };
+
+  if (dailyBudgetUsd === null && monthlyBudgetUsd === null) {
+    return status;
+  }
+
+  try {
+    const now = Date.now();
+    const [day, month] = await Promise.all([
+      readCounters(dayTotalsKey(dayKey(now))),
+      readCounters(monthTotalsKey(monthKey(now))),
+    ]);
+
+    status.daySpendUsd = microsToUsd(toTotals(day).costMicros);
+    status.monthSpendUsd = microsToUsd(toTotals(month).costMicros);
+    status.exhausted =
+      (dailyBudgetUsd !== null && status.daySpendUsd >= dailyBudgetUsd) ||
+      (monthlyBudgetUsd !== null && status.monthSpendUsd >= monthlyBudgetUsd);
+  } catch (error) {
+    // Failing open keeps the app usable when Redis hiccups.
+    console.error('Budget check failed', error);
+  }
+
+  return status;
+}
+
+export async function getUsageReport(day: string) {
+  const [dayCounters, monthCounters, callerCounters] = await Promise.all([
+    readCounters(dayTotalsKey(day)),
+    readCounters(monthTotalsKey(day.slice(0, 7))),
+    readCounters(dayCallersKey(day)),
+  ]);
+
+  const callerIds = new Set(Object.keys(callerCounters).map((field) => field.slice(0, field.lastIndexOf(':'))));
+  const callers = [...callerIds]
+    .map((callerId) => ({ callerId, ...toTotals(callerCounters, `${callerId}:`) }))
+    .sort((a, b) => b.costMicros - a.costMicros);
+
+  return {
+    day,
+    totals: toTotals(dayCounters),
+    month: toTotals(monthCounters),
+    callers,
+    budget: await getBudgetStatus(),
+  };
+}
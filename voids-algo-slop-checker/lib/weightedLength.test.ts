@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { countWeightedLength, findUrls, X_URL_LENGTH } from './weightedLength';
+
+test('Latin text weighs one per character', () => {
+  assert.equal(countWeightedLength('Hello, world!'), 13);
+  assert.equal(countWeightedLength('café — “quoted”'), 15);
+});
+
+test('CJK characters weigh two', () => {
+  assert.equal(countWeightedLength('日本語'), 6);
+  assert.equal(countWeightedLength('hi 你好'), 7);
+});
+
+test('an emoji weighs two however many code points it has', () => {
+  assert.equal(countWeightedLength('😀'), 2);
+  assert.equal(countWeightedLength('👩‍👩‍👧‍👦'), 2);
+  assert.equal(countWeightedLength('👍🏽'), 2);
+  assert.equal(countWeightedLength('🇬🇧'), 2);
+  assert.equal(countWeightedLength('❤️'), 2);
+});
+
+test('text is NFC-normalized before counting', () => {
+  assert.equal(countWeightedLength('cafe\u0301'), 4);
+});
+
+test('every link counts as a t.co link', () => {
+  assert.equal(countWeightedLength('https://example.com/a/very/long/path?with=query'), X_URL_LENGTH);
+  assert.equal(countWeightedLength('See example.com.'), 'See '.length + X_URL_LENGTH + 1);
+  assert.equal(countWeightedLength('bit.ly/x and www.example.org'), X_URL_LENGTH * 2 + ' and '.length);
+});
+
+test('finds links but not emails, handles or file names', () => {
+  const text = 'Read https://example.com/post), mail me@example.com, open notes.txt or visit docs.example.dev/guide.';
+  assert.deepEqual(findUrls(text), [
+    { url: 'https://example.com/post', index: 5 },
+    { url: 'docs.example.dev/guide', index: text.indexOf('docs.') },
+  ]);
+});
@@ -0,0 +1,93 @@
+// X's weighted character count, following the twitter-text v3 rules:
+// - text is NFC-normalized before counting;
+// - code points in the ranges below weigh 1, everything else (CJK, most
+//   non-Latin scripts) weighs 2;
+// - an emoji counts as 2 however many code points its sequence has;
+// - every URL counts as 23, the length of its t.co link.
+// Shared by the client counter and server validation so both agree.
+
+import LINK_LISTS from './linkLists.json';
+
+export const X_URL_LENGTH = 23;
+
+const LIGHT_RANGES: Array<[number, number]> = [
+  [0x0000, 0x10ff],
+  [0x2000, 0x200d],
+  [0x2010, 0x201f],
+  [0x2032, 0x2037],
+];
+
+const EMOJI_WEIGHT = 2;
+
+const EMOJI_PATTERN = /\p{Emoji_Presentation}|\p{Extended_Pictographic}\uFE0F|\u20E3|\p{Regional_Indicator}/u;
+
+// Common top-level domains for links written without a scheme, as X links
+// "example.com" but not "file.txt".
+const BARE_DOMAIN_TLDS = [
+  'com', 'net', 'org', 'edu', 'gov', 'io', 'co', 'ai', 'app', 'dev', 'me', 'ly', 'gl', 'gg', 'tv', 'fm',
+  'info', 'biz', 'xyz', 'site', 'online', 'shop', 'store', 'blog', 'news', 'link', 'page', 'tech',
+  'us', 'uk', 'ca', 'au', 'de', 'fr', 'es', 'it', 'nl', 'eu', 'jp', 'in', 'br', 'ru', 'ch', 'se', 'to',
+  // Common on link shorteners.
+  'at', 'be', 'cc', 'gd', 'gy', 'id', 'st', 'tt',
+];
+
+// Bare links to the domains in `linkLists.json` must be found for them to be
+// classified, so their TLDs are added to the ones above.
+const LISTED_DOMAIN_TLDS = [
+  ...LINK_LISTS.shorteners,
+  ...LINK_LISTS.spamDomains,
+  ...LINK_LISTS.affiliateDomains,
+  ...Object.keys(LINK_LISTS.affiliateParamsByDomain),
+].map((domain) => domain.slice(domain.lastIndexOf('.') + 1));
+
+const URL_TLDS = [...new Set([...BARE_DOMAIN_TLDS, ...LISTED_DOMAIN_TLDS])];
+
+// Scheme or `www.` links with any host, plus bare domains on the TLDs above.
+// Not preceded by a word character, `@` or `.` so emails and handles are skipped.
+const URL_PATTERN = new RegExp(
+  String.raw`(?<![\p{L}\p{N}_@.])(?:(?:https?:\/\/|www\.)[^\s]+|(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+(?:${URL_TLDS.join('|')})(?![\p{L}\p{N}_-])(?::\d+)?(?:\/[^\s]*)?)`,
+  'giu',
+);
+
+// Punctuation that ends a sentence rather than the link.
+const TRAILING_PUNCTUATION = /[.,!?:;'")\]]+$/;
+
+const graphemeSegmenter =
+  typeof Intl !== 'undefined' && 'Segmenter' in Intl ? new Intl.Segmenter(undefined, { granularity: 'grapheme' }) : null;
+
+export const splitGraphemes = (text: string) =>
+  graphemeSegmenter ? Array.from(graphemeSegmenter.segment(text), ({ segment }) => segment) : Array.from(text);
+
+const codePointWeight = (codePoint: number) =>
+  LIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2;
+
+const weighText = (text: string) =>
+  splitGraphemes(text).reduce(
+    (total, grapheme) =>
+      total +
+      (EMOJI_PATTERN.test(grapheme)
+        ? EMOJI_WEIGHT
+        : Array.from(grapheme).reduce((sum, char) => sum + codePointWeight(char.codePointAt(0) ?? 0), 0)),
+    0,
+  );
+
+// Links as X detects them, in order of appearance.
+export function findUrls(text: string): Array<{ url: string; index: number }> {
+  return Array.from(text.matchAll(URL_PATTERN), (match) => ({
+    url: match[0].replace(TRAILING_PUNCTUATION, ''),
+    index: match.index ?? 0,
+  })).filter(({ url }) => url.length > 0);
+}
+
+export function countWeightedLength(text: string): number {
+  const normalized = text.normalize('NFC');
+  let length = 0;
+  let position = 0;
+
+  for (const { url, index } of findUrls(normalized)) {
+    length += weighText(normalized.slice(position, index)) + X_URL_LENGTH;
+    position = index + url.length;
+  }
+
+  return length + weighText(normalized.slice(position));
+}
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { diffWords } from './wordDiff';
+
+const join = (segments: ReturnType<typeof diffWords>, type: 'same' | 'added' | 'removed') =>
+  segments
+    .filter((segment) => segment.type !== type)
+    .map(({ text }) => text)
+    .join('');
+
+test('marks changed words and keeps the spacing of each side', () => {
+  const before = 'Big news:  we shipped it today!';
+  const after = 'Good news:  we finally shipped it today!';
+  const segments = diffWords(before, after);
+
+  assert.deepEqual(segments, [
+    { type: 'removed', text: 'Big ' },
+    { type: 'added', text: 'Good ' },
+    { type: 'same', text: 'news:  we ' },
+    { type: 'added', text: 'finally ' },
+    { type: 'same', text: 'shipped it today!' },
+  ]);
+  assert.equal(join(segments, 'added'), before);
+  assert.equal(join(segments, 'removed'), after);
+});
+
+test('handles empty sides', () => {
+  assert.deepEqual(diffWords('', 'hello there'), [{ type: 'added', text: 'hello there' }]);
+  assert.deepEqual(diffWords('hello there', ''), [{ type: 'removed', text: 'hello there' }]);
+  assert.deepEqual(diffWords('', ''), []);
+});
+
+test('long posts with a large changed middle are diffed without the word table', () => {
+  const words = (prefix: string, count: number) =>
+    Array.from({ length: count }, (_, index) => `${prefix}${index}`).join(' ');
+  const before = `Intro line. ${words('a', 4000)} Sign-off.`;
+  const after = `Intro line. ${words('b', 4000)} Sign-off.`;
+
+  const segments = diffWords(before, after);
+
+  assert.deepEqual(
+    segments.map(({ type }) => type),
+    ['same', 'removed', 'added', 'same'],
+  );
+  assert.equal(join(segments, 'added'), before);
+  assert.equal(join(segments, 'removed'), after);
+});
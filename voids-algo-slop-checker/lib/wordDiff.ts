@@ -0,0 +1,97 @@
+export interface DiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Words and the whitespace after them stay together so the diff renders with
+// the original spacing.
+const tokenize = (text: string) => text.match(/\S+\s*|\s+/g) ?? [];
+
+const normalize = (token: string) => token.trim();
+
+// Largest LCS table built, in cells. Beyond it the changed middle is shown as
+// one removal and one addition rather than word by word.
+const MAX_TABLE_CELLS = 250_000;
+
+// Word-level diff based on the longest common subsequence. Shared leading and
+// trailing words are matched first, so the table only covers the changed
+// middle, and long posts with a large changed middle skip it altogether.
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const leftTokens = tokenize(before);
+  const rightTokens = tokenize(after);
+
+  let prefix = 0;
+  while (
+    prefix < leftTokens.length &&
+    prefix < rightTokens.length &&
+    normalize(leftTokens[prefix]) === normalize(rightTokens[prefix])
+  ) {
+    prefix += 1;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < leftTokens.length - prefix &&
+    suffix < rightTokens.length - prefix &&
+    normalize(leftTokens[leftTokens.length - 1 - suffix]) === normalize(rightTokens[rightTokens.length - 1 - suffix])
+  ) {
+    suffix += 1;
+  }
+
+  const left = leftTokens.slice(prefix, leftTokens.length - suffix);
+  const right = rightTokens.slice(prefix, rightTokens.length - suffix);
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  push('same', rightTokens.slice(0, prefix).join(''));
+
+  if ((left.length + 1) * (right.length + 1) > MAX_TABLE_CELLS) {
+    push('removed', left.join(''));
+    push('added', right.join(''));
+  } else {
+    const table: number[][] = Array.from({ length: left.length + 1 }, () =>
+      new Array<number>(right.length + 1).fill(0),
+    );
+
+    for (let i = left.length - 1; i >= 0; i -= 1) {
+      for (let j = right.length - 1; j >= 0; j -= 1) {
+        table[i][j] =
+          normalize(left[i]) === normalize(right[j])
+            ? table[i + 1][j + 1] + 1
+            : Math.max(table[i + 1][j], table[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < left.length && j < right.length) {
+      if (normalize(left[i]) === normalize(right[j])) {
+        push('same', right[j]);
+        i += 1;
+        j += 1;
+      } else if (table[i + 1][j] >= table[i][j + 1]) {
+        push('removed', left[i]);
+        i += 1;
+      } else {
+        push('added', right[j]);
+        j += 1;
+      }
+    }
+
+    while (i < left.length) push('removed', left[i++]);
+    while (j < right.length) push('added', right[j++]);
+  }
+
+  push('same', rightTokens.slice(rightTokens.length - suffix).join(''));
+
+  return segments;
+}
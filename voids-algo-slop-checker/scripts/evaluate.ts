@@ -0,0 +1,173 @@
+// Runs the golden set through the same analysis pipeline as /api/analyze and
+// writes a Markdown and JSON report. Usage:
+//
+//   npm run eval -- [--golden eval/golden.json] [--out eval/reports]
+//                   [--baseline <run.json>] [--provider mock|env|none]
+//                   [--prompt <prompt id>] [--concurrency 4] [--update-baseline]
+//
+// `<out>/baseline.json` is the baseline unless --baseline is given. A run is
+// only promoted to it when it does not regress, or with --update-baseline.
+// Exits with status 1 when the run regresses against the baseline.
+
+import { readFile, mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { analyzePost } from '@/lib/analyzer';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import {
+  compareRuns,
+  parseGoldenSet,
+  renderMarkdownReport,
+  scoreCase,
+  summarizeRun,
+  type CaseOutcome,
+  type EvaluationRun,
+  type GoldenCase,
+} from '@/lib/evaluation';
+import { HEURISTICS_VERSION } from '@/lib/heuristics';
+import { processImageDataUrl } from '@/lib/imagePipeline';
+import { getLlmProvider, setLlmProvider } from '@/lib/llmProvider';
+import { createMockProvider } from '@/lib/mockProvider';
+import { validateDisplayName, validatePostText } from '@/lib/postValidation';
+import { getActivePrompt, getPromptTemplate, type PromptTemplate } from '@/lib/prompts';
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+const { values: args } = parseArgs({
+  options: {
+    golden: { type: 'string', default: 'eval/golden.json' },
+    out: { type: 'string', default: 'eval/reports' },
+    baseline: { type: 'string' },
+    provider: { type: 'string', default: 'mock' },
+    prompt: { type: 'string' },
+    concurrency: { type: 'string', default: '4' },
+    'update-baseline': { type: 'boolean', default: false },
+  },
+});
+
+const readJson = async (file: string): Promise<unknown> => JSON.parse(await readFile(file, 'utf8'));
+
+const loadMedia = async (goldenCase: GoldenCase, baseDir: string) => {
+  if (!goldenCase.image) return undefined;
+
+  const file = path.resolve(baseDir, goldenCase.image.path);
+  const type = IMAGE_TYPES[path.extname(file).toLowerCase()];
+  if (!type) {
+    throw new Error(`unsupported image type ${path.extname(file)}`);
+  }
+
+  const data = await readFile(file);
+  const prepared = await processImageDataUrl(`data:${type};base64,${data.toString('base64')}`);
+  if (!prepared.ok) {
+    throw new Error(prepared.error);
+  }
+  return [{ name: goldenCase.image.name ?? path.basename(file), dataUrls: prepared.dataUrls, metadata: prepared.metadata }];
+};
+
+// Mirrors the request validation in /api/analyze before analyzing.
+const runCase = async (goldenCase: GoldenCase, baseDir: string, prompt: PromptTemplate): Promise<CaseOutcome> => {
+  const inputError = validatePostText(goldenCase.post, 'post') ?? validateDisplayName(goldenCase.displayName);
+  if (inputError) {
+    return { ok: false, error: inputError };
+  }
+
+  try {
+    const media = await loadMedia(goldenCase, baseDir);
+    const outcome = await analyzePost({
+      post: goldenCase.post,
+      displayName: goldenCase.displayName,
+      media,
+      callerId: 'eval',
+      prompt,
+    });
+    return outcome.ok ? outcome : { ok: false, error: outcome.error };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+async function main() {
+  switch (args.provider) {
+    case 'mock':
+      setLlmProvider(createMockProvider());
+      break;
+    case 'none':
+      setLlmProvider(null);
+      break;
+    case 'env':
+      break;
+    default:
+      throw new Error(`--provider must be mock, env or none, not "${args.provider}"`);
+  }
+
+  const prompt = args.prompt ? getPromptTemplate(args.prompt) : getActivePrompt();
+  if (!prompt) {
+    throw new Error(`Unknown prompt "${args.prompt}"`);
+  }
+
+  const goldenPath = path.resolve(args.golden);
+  const validation = parseGoldenSet(await readJson(goldenPath));
+  if (!validation.valid) {
+    throw new Error(`Invalid golden set ${args.golden}:\n- ${validation.issues.join('\n- ')}`);
+  }
+  const goldenSet = validation.value;
+
+  const provider = getLlmProvider();
+  const concurrency = Math.max(1, Number(args.concurrency) || 1);
+  const results = await mapWithConcurrency(goldenSet.cases, concurrency, async (goldenCase) =>
+    scoreCase(goldenCase, await runCase(goldenCase, path.dirname(goldenPath), prompt)),
+  );
+
+  const run = summarizeRun(
+    {
+      goldenSet: goldenSet.name,
+      provider: provider?.name ?? 'none',
+      model: provider?.model ?? 'heuristics',
+      promptVersion: provider ? prompt.id : HEURISTICS_VERSION,
+    },
+    goldenSet.cases,
+    results,
+  );
+
+  const outDir = path.resolve(args.out);
+  const savedBaselinePath = path.join(outDir, 'baseline.json');
+  const baselinePath = args.baseline ? path.resolve(args.baseline) : savedBaselinePath;
+  const baseline = await readJson(baselinePath).then(
+    (value) => value as EvaluationRun,
+    () => null,
+  );
+  const comparison = baseline ? compareRuns(baseline, run) : null;
+  const regressed = Boolean(comparison?.regressions.length);
+
+  const markdown = renderMarkdownReport(run, comparison);
+  const report = `${JSON.stringify({ ...run, comparison }, null, 2)}\n`;
+  const promote = !regressed || args['update-baseline'];
+  await mkdir(outDir, { recursive: true });
+  await Promise.all([
+    writeFile(path.join(outDir, 'latest.json'), report),
+    writeFile(path.join(outDir, 'latest.md'), markdown),
+    ...(promote ? [writeFile(savedBaselinePath, report)] : []),
+  ]);
+
+  console.log(markdown);
+  console.log(`Reports written to ${path.relative(process.cwd(), outDir) || '.'}`);
+  if (!promote) {
+    console.log('The baseline was kept; rerun with --update-baseline to accept this run.');
+  }
+
+  if (regressed) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,40 @@
+// Records the rendered text fingerprints of new prompt versions in
+// lib/promptSnapshots.json. Usage:
+//
+//   npm run prompts:snapshot
+//
+// Versions that already have a snapshot are left alone: a released prompt id
+// must keep rendering the same text, so changing one means adding a version.
+
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { getPromptFingerprints, PROMPT_TEMPLATES } from '@/lib/prompts';
+
+const SNAPSHOT_FILE = path.resolve('lib/promptSnapshots.json');
+
+async function main() {
+  const snapshots: Record<string, Record<string, string>> = JSON.parse(
+    await readFile(SNAPSHOT_FILE, 'utf8').catch(() => '{}'),
+  );
+
+  const added = Object.values(PROMPT_TEMPLATES)
+    .filter(({ id }) => !snapshots[id])
+    .map((template) => {
+      snapshots[template.id] = getPromptFingerprints(template);
+      return template.id;
+    });
+
+  if (added.length === 0) {
+    console.log('Every prompt version already has a snapshot.');
+    return;
+  }
+
+  await writeFile(SNAPSHOT_FILE, `${JSON.stringify(snapshots, null, 2)}\n`);
+  console.log(`Added snapshots for ${added.join(', ')}.`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});